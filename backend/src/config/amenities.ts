@@ -0,0 +1,9 @@
+// On-board amenities an admin can tick for a bus; search results can be filtered by them
+export const AMENITIES = [
+  { id: 'ac', label: 'Air conditioned' },
+  { id: 'low-floor', label: 'Low floor' },
+  { id: 'wheelchair', label: 'Wheelchair accessible' },
+  { id: 'charging', label: 'Phone charging' },
+  { id: 'wifi', label: 'Wi-Fi' },
+  { id: 'live-tracking', label: 'Live tracking' },
+];
@@ -0,0 +1,64 @@
+// Default fare tables per service class (bus type) and concession categories.
+// Fares follow the stage system conductors use: a minimum fare covering the first
+// stretch, then a fixed increment for every further fare stage or part of one.
+
+export interface NightSurcharge {
+  percent: number;
+  fromMinutes: number; // minutes of day the surcharge starts (inclusive)
+  toMinutes: number; // minutes of day it ends (exclusive); may be earlier than fromMinutes
+}
+
+export interface FareTable {
+  minimumFare: number; // rupees, covers the first `minimumKm`
+  minimumKm: number;
+  stageKm: number; // length of each further fare stage
+  stageIncrement: number; // rupees added per further stage
+  roundTo: number; // total is rounded to the nearest multiple, in rupees
+  nightSurcharge: NightSurcharge | null;
+}
+
+export interface Concession {
+  id: string;
+  label: string;
+  percentOff: number;
+  minimumFare: number; // a concession fare is never below this
+}
+
+const NIGHT = { percent: 10, fromMinutes: 22 * 60, toMinutes: 5 * 60 };
+
+const ORDINARY: FareTable = {
+  minimumFare: 10,
+  minimumKm: 2.5,
+  stageKm: 2.5,
+  stageIncrement: 2.5,
+  roundTo: 1,
+  nightSurcharge: NIGHT,
+};
+
+// Service classes used until an admin saves their own to the `serviceClasses` collection
+export const DEFAULT_SERVICE_CLASSES = [
+  { name: 'Ordinary', description: 'Stops at every fare stage', color: '#6b7280', fareTable: ORDINARY },
+  { name: 'KSRTC', description: 'KSRTC ordinary service', color: '#2563eb', fareTable: ORDINARY },
+  { name: 'Private', description: 'Private stage carriage', color: '#7c3aed', fareTable: ORDINARY },
+  {
+    name: 'Fast',
+    description: 'Fast passenger, limited stops',
+    color: '#16a34a',
+    fareTable: { minimumFare: 15, minimumKm: 5, stageKm: 5, stageIncrement: 5.4, roundTo: 1, nightSurcharge: NIGHT },
+  },
+  {
+    name: 'Super Fast',
+    description: 'Stops at major towns only',
+    color: '#dc2626',
+    fareTable: { minimumFare: 22, minimumKm: 10, stageKm: 5, stageIncrement: 5.5, roundTo: 1, nightSurcharge: NIGHT },
+  },
+];
+
+// Bus types without a class of their own are charged as ordinary services
+export const DEFAULT_SERVICE_CLASS = 'Ordinary';
+
+export const CONCESSIONS: Concession[] = [
+  { id: 'student', label: 'Student', percentOff: 50, minimumFare: 1 },
+  { id: 'senior', label: 'Senior citizen', percentOff: 25, minimumFare: 5 },
+  { id: 'disabled', label: 'Differently abled', percentOff: 50, minimumFare: 1 },
+];
@@ -1,44 +1,111 @@
-import { Router, Request, Response } from 'express';
-import { db } from '../config/firebase';
+import { Router, Request, Response, raw } from 'express';
+import { admin, db } from '../config/firebase';
+import { getStopRegistry, invalidateStopRegistry, linkRouteToRegistry } from '../utils/stopRegistry';
+import { getTimetableIndex, refreshTimetableIndex, withServiceDayTimes } from '../utils/timetableIndex';
+import { parseCalendarInput, toServiceCalendar } from '../utils/serviceCalendar';
+import { defaultServiceClasses, parseServiceClassInput, toServiceClass } from '../utils/serviceClasses';
+import { parseAmenities } from '../utils/searchFilters';
+import { decodeCursor, encodeCursor, parseLimit } from '../utils/pagination';
+import { getRouteArray, normalize } from '../utils/timetable';
+import { logger } from '../utils/logger';
+import { clearSearchCache } from '../utils/searchCache';
+import { applyGtfsImport, describeGtfsImport, planGtfsImport, readGtfsZip } from '../utils/gtfsImport';
+import { TIMETABLE_COLUMNS, diffTimetable, parseTimetableSheet, timetableRows } from '../utils/timetableSheet';
+import { parseCsv, toCsv } from '../utils/csv';
+import { parseXlsx, toXlsx } from '../utils/xlsx';
+import { agencyNow } from '../utils/agencyClock';
+import { requireAdmin } from '../utils/adminAuth';
+import { createBackup, parseBackup, parseBackupCollections, restoreBackup } from '../utils/backup';
+import {
+  clearTripStatus,
+  currentTripStatuses,
+  currentVehicles,
+  loadAlerts,
+  parseAlertInput,
+  parseTripStatusInput,
+  parseVehicleInput,
+  reportTripStatus,
+  reportVehicle,
+} from '../utils/realtimeState';
 // (Google Directions import removed)
 
 const router = Router();
 
+// Rebuild the search index in the background; searches wait for the rebuild to finish.
+// Cached search responses are dropped at once so none outlives the edit.
+const refreshIndexAfterWrite = ({ stopsChanged = false } = {}) => {
+  if (stopsChanged) invalidateStopRegistry();
+  clearSearchCache();
+  refreshTimetableIndex().catch(() => {
+    // Logged by refreshTimetableIndex; the next search retries the build
+  });
+};
+
+// Admin bus search: name, number, endpoints, via or any stop on the route contains the query
+const busMatchesQuery = (bus: any, q: string) =>
+  [bus.busName, bus.busNumber, bus.from, bus.to, bus.via, ...getRouteArray(bus)]
+    .some(value => normalize(String(value || '')).includes(q));
+
+// Same order as the Firestore query on (busName, document id), so cursors work with and without `q`
+const compareByName = (a: { busName?: string; id: string }, b: { busName?: string; id: string }) => {
+  const x = String(a.busName || '');
+  const y = String(b.busName || '');
+  if (x !== y) return x < y ? -1 : 1;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+};
+
+// Accept aliases as an array or a comma-separated string
+const parseAliases = (aliases: any): string[] => {
+  const list = Array.isArray(aliases) ? aliases : String(aliases || '').split(',');
+  return Array.from(new Set(list.map((a: any) => String(a).trim()).filter(Boolean)));
+};
+
 // Add new bus
 router.post('/buses', async (req: Request, res: Response) => {
   try {
-    console.log('📝 Received bus data:', req.body);
+    logger.debug('Received bus data', { body: req.body });
     
-    const { busName, from, via, to, type, route, timings } = req.body;
+    const { busName, from, via, to, type, route, timings, calendarId, amenities } = req.body;
 
     if (!busName || !from || !to || !type || !route || !timings) {
-      console.error('❌ Missing required fields');
+      logger.warn('Bus rejected: missing required fields');
       return res.status(400).json({ error: 'All required fields must be filled' });
     }
 
+    // Reference registry stop ids in route and timings
+    const registry = await getStopRegistry();
+    const linked = linkRouteToRegistry(
+      registry,
+      Array.isArray(route) ? route : [route],
+      Array.isArray(timings) ? timings : []
+    );
+
     const busData = {
       busName,
       from,
       via: via || '', // via is optional
       to,
       type,
-      route: Array.isArray(route) ? route : [route],
-      timings: Array.isArray(timings) ? timings : [],
+      route: linked.route,
+      // Times after midnight are stored on the service day ("25:30") so overnight trips stay ordered
+      timings: withServiceDayTimes(registry, { from, to, route: linked.route, timings: linked.timings }),
+      calendarId: calendarId || null, // null = runs every day
+      amenities: parseAmenities(amenities),
       createdAt: new Date(),
     };
 
-    console.log('💾 Attempting to save bus to Firestore:', busData);
     const docRef = await db.collection('buses').add(busData);
-    console.log('✅ Bus saved successfully with ID:', docRef.id);
+    logger.info('Bus added', { busId: docRef.id, busName });
+    refreshIndexAfterWrite();
 
     res.status(201).json({
       success: true,
       data: { id: docRef.id, ...busData },
+      unresolvedStops: linked.unresolvedStops,
       message: 'Bus added successfully',
     });
   } catch (error) {
-    console.error('❌ Error adding bus:', error);
-    console.error('Error details:', error);
+    logger.error('Error adding bus', { error });
     res.status(500).json({ 
       error: 'Failed to add bus',
       details: error instanceof Error ? error.message : 'Unknown error'
@@ -49,7 +116,7 @@ router.post('/buses', async (req: Request, res: Response) => {
 // Add new bus stop
 router.post('/stops', async (req: Request, res: Response) => {
   try {
-    const { name, district, location } = req.body;
+    const { name, district, location, aliases } = req.body;
 
     if (!name || !district || !location) {
       return res.status(400).json({ error: 'All fields are required' });
@@ -62,10 +129,12 @@ router.post('/stops', async (req: Request, res: Response) => {
         lat: parseFloat(location.lat),
         lng: parseFloat(location.lng),
       },
+      aliases: parseAliases(aliases),
       createdAt: new Date(),
     };
 
     const docRef = await db.collection('stops').add(stopData);
+    refreshIndexAfterWrite({ stopsChanged: true });
 
     res.status(201).json({
       success: true,
@@ -73,25 +142,83 @@ router.post('/stops', async (req: Request, res: Response) => {
       message: 'Bus stop added successfully',
     });
   } catch (error) {
-    console.error('Error adding stop:', error);
+    logger.error('Error adding stop', { error });
     res.status(500).json({ error: 'Failed to add bus stop' });
   }
 });
 
+// Update stop (official name, district, location or aliases)
+router.put('/stops/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { name, district, location, aliases } = req.body;
+
+    const updateData: Record<string, any> = {};
+    if (name) updateData.name = name;
+    if (district) updateData.district = district;
+    if (location) updateData.location = { lat: parseFloat(location.lat), lng: parseFloat(location.lng) };
+    if (aliases !== undefined) updateData.aliases = parseAliases(aliases);
+
+    await db.collection('stops').doc(id).update(updateData);
+    refreshIndexAfterWrite({ stopsChanged: true });
+
+    res.json({
+      success: true,
+      message: 'Bus stop updated successfully',
+    });
+  } catch (error) {
+    logger.error('Error updating stop', { error });
+    res.status(500).json({ error: 'Failed to update bus stop' });
+  }
+});
+
 // Update bus
 router.put('/buses/:id', async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const updateData = req.body;
+    const updateData = { ...req.body };
+    if (updateData.calendarId !== undefined) updateData.calendarId = updateData.calendarId || null;
+    if (updateData.amenities !== undefined) updateData.amenities = parseAmenities(updateData.amenities);
+
+    let unresolvedStops: string[] = [];
+    if (updateData.route || updateData.timings) {
+      // Timings sent on their own are linked and normalised against the stored route
+      let stored: Record<string, any> = {};
+      if (!updateData.route) {
+        const current = await db.collection('buses').doc(id).get();
+        if (!current.exists) {
+          return res.status(404).json({ error: 'Bus not found' });
+        }
+        stored = current.data()!;
+      }
+      const registry = await getStopRegistry();
+      const linked = linkRouteToRegistry(
+        registry,
+        Array.isArray(updateData.route || stored.route) ? updateData.route || stored.route : [],
+        Array.isArray(updateData.timings) ? updateData.timings : []
+      );
+      if (updateData.route) updateData.route = linked.route;
+      if (updateData.timings) {
+        updateData.timings = withServiceDayTimes(registry, {
+          from: updateData.from ?? stored.from,
+          to: updateData.to ?? stored.to,
+          route: linked.route,
+          timings: linked.timings,
+        });
+      }
+      unresolvedStops = linked.unresolvedStops;
+    }
 
     await db.collection('buses').doc(id).update(updateData);
+    refreshIndexAfterWrite();
 
     res.json({
       success: true,
+      unresolvedStops,
       message: 'Bus updated successfully',
     });
   } catch (error) {
-    console.error('Error updating bus:', error);
+    logger.error('Error updating bus', { error });
     res.status(500).json({ error: 'Failed to update bus' });
   }
 });
@@ -102,36 +229,705 @@ router.delete('/buses/:id', async (req: Request, res: Response) => {
     const { id } = req.params;
 
     await db.collection('buses').doc(id).delete();
+    refreshIndexAfterWrite();
 
     res.json({
       success: true,
       message: 'Bus deleted successfully',
     });
   } catch (error) {
-    console.error('Error deleting bus:', error);
+    logger.error('Error deleting bus', { error });
     res.status(500).json({ error: 'Failed to delete bus' });
   }
 });
 
 // Get all buses (for admin)
+// Paged by bus name: `limit` (default 25), `cursor` from the previous page's `nextCursor`,
+// and `q` to match the name, number, endpoints or any stop on the route
 router.get('/buses', async (req: Request, res: Response) => {
   try {
-    const busesSnapshot = await db.collection('buses').get();
-    const buses = busesSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data(),
-    }));
+    const limit = parseLimit(req.query.limit, 25, 100);
+    const cursor = req.query.cursor ? decodeCursor<{ name: string; id: string }>(req.query.cursor) : null;
+    if (req.query.cursor && (!cursor || typeof cursor.name !== 'string' || typeof cursor.id !== 'string')) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+    const q = normalize((req.query.q as string) || '');
+
+    let buses: any[];
+    if (q) {
+      // Substring matches need every bus; only the matching page is sent back
+      const busesSnapshot = await db.collection('buses').get();
+      buses = busesSnapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() } as any))
+        .filter(bus => busMatchesQuery(bus, q))
+        .sort((a, b) => compareByName(a, b));
+      if (cursor) buses = buses.filter(bus => compareByName(bus, { busName: cursor.name, id: cursor.id }) > 0);
+      buses = buses.slice(0, limit + 1);
+    } else {
+      let query = db.collection('buses')
+        .orderBy('busName')
+        .orderBy(admin.firestore.FieldPath.documentId());
+      if (cursor) query = query.startAfter(cursor.name, cursor.id);
+      const busesSnapshot = await query.limit(limit + 1).get();
+      buses = busesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+    }
+
+    // One extra bus was read to tell whether another page follows
+    const page = buses.slice(0, limit);
+    const last = page[page.length - 1];
 
     res.json({
       success: true,
-      data: buses,
+      data: page,
+      nextCursor: buses.length > limit ? encodeCursor({ name: String(last.busName || ''), id: last.id }) : null,
     });
   } catch (error) {
-    console.error('Error fetching buses:', error);
+    logger.error('Error fetching buses', { error });
     res.status(500).json({ error: 'Failed to fetch buses' });
   }
 });
 
+// Re-link every bus route and timing to registry stop ids (run after adding stops or aliases)
+router.post('/buses/link-stops', async (req: Request, res: Response) => {
+  try {
+    const registry = await getStopRegistry();
+    const busesSnapshot = await db.collection('buses').get();
+    const unresolved = new Set<string>();
+
+    // Firestore batches are limited to 500 writes
+    for (let i = 0; i < busesSnapshot.docs.length; i += 400) {
+      const batch = db.batch();
+      for (const doc of busesSnapshot.docs.slice(i, i + 400)) {
+        const bus = doc.data();
+        const linked = linkRouteToRegistry(
+          registry,
+          Array.isArray(bus.route) ? bus.route : [],
+          Array.isArray(bus.timings) ? bus.timings : []
+        );
+        linked.unresolvedStops.forEach(name => unresolved.add(name));
+        batch.update(doc.ref, {
+          route: linked.route,
+          timings: withServiceDayTimes(registry, { ...bus, route: linked.route, timings: linked.timings }),
+        });
+      }
+      await batch.commit();
+    }
+    refreshIndexAfterWrite();
+
+    res.json({
+      success: true,
+      data: { busesLinked: busesSnapshot.size, unresolvedStops: Array.from(unresolved) },
+      message: 'Buses linked to stop registry',
+    });
+  } catch (error) {
+    logger.error('Error linking buses to stops', { error });
+    res.status(500).json({ error: 'Failed to link buses to stops' });
+  }
+});
+
+// Service calendars: weekday pattern, validity range and holiday exceptions
+router.get('/calendars', async (req: Request, res: Response) => {
+  try {
+    const snapshot = await db.collection('calendars').get();
+    const calendars = snapshot.docs.map(doc => toServiceCalendar(doc.id, doc.data()));
+
+    res.json({
+      success: true,
+      data: calendars,
+    });
+  } catch (error) {
+    logger.error('Error fetching calendars', { error });
+    res.status(500).json({ error: 'Failed to fetch calendars' });
+  }
+});
+
+router.post('/calendars', async (req: Request, res: Response) => {
+  try {
+    const { data, error } = parseCalendarInput(req.body);
+    if (!data) {
+      return res.status(400).json({ error });
+    }
+
+    const docRef = await db.collection('calendars').add({ ...data, createdAt: new Date() });
+    refreshIndexAfterWrite();
+
+    res.status(201).json({
+      success: true,
+      data: { id: docRef.id, ...data },
+      message: 'Calendar added successfully',
+    });
+  } catch (error) {
+    logger.error('Error adding calendar', { error });
+    res.status(500).json({ error: 'Failed to add calendar' });
+  }
+});
+
+router.put('/calendars/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { data, error } = parseCalendarInput(req.body);
+    if (!data) {
+      return res.status(400).json({ error });
+    }
+
+    await db.collection('calendars').doc(id).update(data);
+    refreshIndexAfterWrite();
+
+    res.json({
+      success: true,
+      data: { id, ...data },
+      message: 'Calendar updated successfully',
+    });
+  } catch (error) {
+    logger.error('Error updating calendar', { error });
+    res.status(500).json({ error: 'Failed to update calendar' });
+  }
+});
+
+// A calendar still attached to buses cannot be deleted
+router.delete('/calendars/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const inUse = await db.collection('buses').where('calendarId', '==', id).get();
+    if (!inUse.empty) {
+      return res.status(400).json({ error: `Calendar is used by ${inUse.size} bus(es)` });
+    }
+
+    await db.collection('calendars').doc(id).delete();
+    refreshIndexAfterWrite();
+
+    res.json({
+      success: true,
+      message: 'Calendar deleted successfully',
+    });
+  } catch (error) {
+    logger.error('Error deleting calendar', { error });
+    res.status(500).json({ error: 'Failed to delete calendar' });
+  }
+});
+
+// Service classes: bus types with a badge colour, description and fare table
+router.get('/service-classes', async (req: Request, res: Response) => {
+  try {
+    const snapshot = await db.collection('serviceClasses').get();
+    const classes = snapshot.docs
+      .map(doc => toServiceClass(doc.id, doc.data()))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    res.json({
+      success: true,
+      data: classes,
+    });
+  } catch (error) {
+    logger.error('Error fetching service classes', { error });
+    res.status(500).json({ error: 'Failed to fetch service classes' });
+  }
+});
+
+router.post('/service-classes', async (req: Request, res: Response) => {
+  try {
+    const { data, error } = parseServiceClassInput(req.body);
+    if (!data) {
+      return res.status(400).json({ error });
+    }
+
+    const existing = await db.collection('serviceClasses').where('name', '==', data.name).get();
+    if (!existing.empty) {
+      return res.status(400).json({ error: `A service class named ${data.name} already exists` });
+    }
+
+    const docRef = await db.collection('serviceClasses').add({ ...data, createdAt: new Date() });
+    refreshIndexAfterWrite();
+
+    res.status(201).json({
+      success: true,
+      data: { id: docRef.id, ...data },
+      message: 'Service class added successfully',
+    });
+  } catch (error) {
+    logger.error('Error adding service class', { error });
+    res.status(500).json({ error: 'Failed to add service class' });
+  }
+});
+
+// Save the built-in classes (Ordinary, KSRTC, Private, Fast, Super Fast) that are not stored yet
+router.post('/service-classes/defaults', async (req: Request, res: Response) => {
+  try {
+    const snapshot = await db.collection('serviceClasses').get();
+    const stored = new Set(snapshot.docs.map(doc => doc.data().name));
+    const missing = defaultServiceClasses().filter(c => !stored.has(c.name));
+
+    const batch = db.batch();
+    for (const { id, ...data } of missing) {
+      batch.set(db.collection('serviceClasses').doc(), { ...data, createdAt: new Date() });
+    }
+    await batch.commit();
+    refreshIndexAfterWrite();
+
+    res.json({
+      success: true,
+      data: { added: missing.map(c => c.name) },
+      message: `Added ${missing.length} default service class(es)`,
+    });
+  } catch (error) {
+    logger.error('Error adding default service classes', { error });
+    res.status(500).json({ error: 'Failed to add default service classes' });
+  }
+});
+
+// Renaming a class renames the type on every bus that uses it
+router.put('/service-classes/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { data, error } = parseServiceClassInput(req.body);
+    if (!data) {
+      return res.status(400).json({ error });
+    }
+
+    const ref = db.collection('serviceClasses').doc(id);
+    const current = await ref.get();
+    if (!current.exists) {
+      return res.status(404).json({ error: 'Service class not found' });
+    }
+
+    const oldName = current.data()!.name;
+    let busesRenamed = 0;
+    if (oldName !== data.name) {
+      const clash = await db.collection('serviceClasses').where('name', '==', data.name).get();
+      if (!clash.empty) {
+        return res.status(400).json({ error: `A service class named ${data.name} already exists` });
+      }
+
+      const buses = await db.collection('buses').where('type', '==', oldName).get();
+      // Firestore batches are limited to 500 writes
+      for (let i = 0; i < buses.docs.length; i += 400) {
+        const batch = db.batch();
+        buses.docs.slice(i, i + 400).forEach(doc => batch.update(doc.ref, { type: data.name }));
+        await batch.commit();
+      }
+      busesRenamed = buses.size;
+    }
+
+    await ref.update(data);
+    refreshIndexAfterWrite();
+
+    res.json({
+      success: true,
+      data: { id, ...data },
+      busesRenamed,
+      message: 'Service class updated successfully',
+    });
+  } catch (error) {
+    logger.error('Error updating service class', { error });
+    res.status(500).json({ error: 'Failed to update service class' });
+  }
+});
+
+// A class still used by buses cannot be deleted
+router.delete('/service-classes/:id', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const ref = db.collection('serviceClasses').doc(id);
+    const current = await ref.get();
+    if (current.exists) {
+      const inUse = await db.collection('buses').where('type', '==', current.data()!.name).get();
+      if (!inUse.empty) {
+        return res.status(400).json({ error: `Service class is used by ${inUse.size} bus(es)` });
+      }
+    }
+
+    await ref.delete();
+    refreshIndexAfterWrite();
+
+    res.json({
+      success: true,
+      message: 'Service class deleted successfully',
+    });
+  } catch (error) {
+    logger.error('Error deleting service class', { error });
+    res.status(500).json({ error: 'Failed to delete service class' });
+  }
+});
+
+// GTFS feed import: the zip is the request body. Without `apply=true` nothing is written and
+// the response previews what would be created, updated and left out; applying is admin only.
+router.post('/gtfs/import', raw({ type: ['application/zip', 'application/octet-stream'], limit: '50mb' }), async (req: Request, res: Response) => {
+  try {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'Upload a GTFS zip file as the request body' });
+    }
+    const { files, error } = readGtfsZip(req.body);
+    if (!files) {
+      return res.status(400).json({ error });
+    }
+
+    const [registry, calendarsSnapshot, busesSnapshot, serviceClassesSnapshot] = await Promise.all([
+      getStopRegistry(),
+      db.collection('calendars').get(),
+      db.collection('buses').select('gtfsKey').get(),
+      db.collection('serviceClasses').get(),
+    ]);
+    const serviceClassNames = serviceClassesSnapshot.empty
+      ? defaultServiceClasses().map(c => c.name)
+      : serviceClassesSnapshot.docs.map(doc => String(doc.data().name || ''));
+
+    const plan = planGtfsImport(files, {
+      registry,
+      calendars: calendarsSnapshot.docs.map(doc => ({ id: doc.id, gtfsServiceId: doc.data().gtfsServiceId })),
+      buses: busesSnapshot.docs.map(doc => ({ id: doc.id, gtfsKey: doc.data().gtfsKey })),
+      serviceClassNames,
+    }, collection => db.collection(collection).doc().id);
+    const report = describeGtfsImport(plan);
+
+    if (String(req.query.apply || '').toLowerCase() !== 'true') {
+      return res.json({ success: true, data: { applied: false, ...report } });
+    }
+
+    // Applying writes stops, calendars and buses: admins only
+    if (!(await requireAdmin(req, res, 'import a GTFS feed'))) return;
+    const result = await applyGtfsImport(plan);
+    if (result.written > 0) refreshIndexAfterWrite({ stopsChanged: true });
+    if (result.error) {
+      // Earlier batches are stored; importing the same feed again matches them and finishes the rest
+      logger.error('GTFS import stopped part way', { error: result.error, written: result.written, total: result.total });
+      return res.status(500).json({
+        error: `The import stopped after ${result.written} of ${result.total} writes; import the feed again to finish it`,
+        data: { applied: false, ...report, partial: result.byCollection },
+      });
+    }
+    logger.info('GTFS feed imported', { writes: result.written, ...report.summary });
+
+    res.json({
+      success: true,
+      data: { applied: true, ...report },
+      message: 'GTFS feed imported',
+    });
+  } catch (error) {
+    logger.error('Error importing GTFS feed', { error });
+    res.status(500).json({ error: 'Failed to import GTFS feed' });
+  }
+});
+
+// Whole timetable as a spreadsheet, one row per stop time (`format` = csv or xlsx)
+router.get('/timetable/export', async (req: Request, res: Response) => {
+  try {
+    const format = String(req.query.format || 'csv').toLowerCase();
+    if (format !== 'csv' && format !== 'xlsx') {
+      return res.status(400).json({ error: 'format must be csv or xlsx' });
+    }
+    const [registry, busesSnapshot] = await Promise.all([getStopRegistry(), db.collection('buses').get()]);
+    const buses = busesSnapshot.docs
+      .map(doc => ({ id: doc.id, ...doc.data() } as any))
+      .sort(compareByName);
+    const rows = timetableRows(registry, buses);
+    const filename = `catchmybus-timetable-${agencyNow().date}.${format}`;
+
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    if (format === 'xlsx') {
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      return res.send(toXlsx('Timetable', TIMETABLE_COLUMNS, rows));
+    }
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.send(toCsv(TIMETABLE_COLUMNS, rows));
+  } catch (error) {
+    logger.error('Error exporting timetable', { error });
+    res.status(500).json({ error: 'Failed to export timetable' });
+  }
+});
+
+// Import an edited timetable spreadsheet (CSV or XLSX as the request body). Without
+// `apply=true` only the changes and errors are returned; with it, nothing is written if any
+// row has an error, and otherwise each bus in the file replaces its stored document.
+// `deleteMissing=true` also deletes buses that are not in the file. Writes go in several
+// batches: if one fails, the response lists the buses written and the ones left as they were.
+router.post('/timetable/import', raw({
+  type: ['text/csv', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/octet-stream'],
+  limit: '20mb',
+}), async (req: Request, res: Response) => {
+  try {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'Upload a CSV or XLSX file as the request body' });
+    }
+    // XLSX files are zip archives, which start with "PK"
+    const isXlsx = req.body[0] === 0x50 && req.body[1] === 0x4b;
+    let rows: ReturnType<typeof parseCsv>;
+    try {
+      rows = isXlsx ? parseXlsx(req.body) : parseCsv(req.body.toString('utf8'));
+    } catch (readError) {
+      return res.status(400).json({ error: `Could not read the file: ${readError instanceof Error ? readError.message : 'unknown error'}` });
+    }
+
+    const [registry, busesSnapshot, calendarsSnapshot, serviceClassesSnapshot] = await Promise.all([
+      getStopRegistry(),
+      db.collection('buses').get(),
+      db.collection('calendars').select().get(),
+      db.collection('serviceClasses').get(),
+    ]);
+    const storedBuses = busesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as any));
+    const context = {
+      existingIds: new Set(storedBuses.map(bus => bus.id as string)),
+      calendarIds: new Set(calendarsSnapshot.docs.map(doc => doc.id)),
+      // Types already on stored buses stay valid, so older buses can be exported and imported as they are
+      serviceClassNames: [
+        ...(serviceClassesSnapshot.empty
+          ? defaultServiceClasses().map(c => c.name)
+          : serviceClassesSnapshot.docs.map(doc => String(doc.data().name || ''))),
+        ...storedBuses.map(bus => String(bus.type || '')).filter(Boolean),
+      ],
+    };
+
+    const deleteMissing = String(req.query.deleteMissing || '').toLowerCase() === 'true';
+    const sheet = parseTimetableSheet(rows, context);
+    const { buses, errors } = sheet;
+    const { changes, unchanged } = diffTimetable(registry, sheet, storedBuses, deleteMissing);
+    const summary = {
+      rows: rows.length,
+      create: changes.filter(c => c.action === 'create').length,
+      update: changes.filter(c => c.action === 'update').length,
+      delete: changes.filter(c => c.action === 'delete').length,
+      unchanged,
+      errors: errors.length,
+    };
+    const report = { summary, changes, errors: errors.slice(0, 200) };
+
+    if (String(req.query.apply || '').toLowerCase() !== 'true') {
+      return res.json({ success: true, data: { applied: false, ...report } });
+    }
+    // Applying can replace or delete every bus: admins only
+    if (!(await requireAdmin(req, res, 'import a timetable'))) return;
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Fix the errors in the file before importing', data: { applied: false, ...report } });
+    }
+
+    // Buses are written as POST /buses stores them: linked to the stop registry, service-day times.
+    // The row replaces the whole document, keeping only bookkeeping the sheet does not carry.
+    const stored = new Map(storedBuses.map(bus => [bus.id as string, bus]));
+    const updated = new Set(changes.filter(c => c.action === 'update').map(c => c.busId));
+    const now = new Date();
+    const writes = [
+      ...buses.filter(bus => !bus.id || updated.has(bus.id)).map(bus => {
+        const linked = linkRouteToRegistry(registry, bus.route, bus.timings);
+        const kept = bus.id ? stored.get(bus.id) : null;
+        const data = {
+          ...bus.fields,
+          route: linked.route,
+          timings: withServiceDayTimes(registry, { ...bus.fields, route: linked.route, timings: linked.timings }),
+          ...(kept ? { createdAt: kept.createdAt || now, updatedAt: now } : { createdAt: now }),
+          ...(kept?.gtfsKey ? { gtfsKey: kept.gtfsKey } : {}),
+        };
+        const ref = bus.id ? db.collection('buses').doc(bus.id) : db.collection('buses').doc();
+        return { ref, data, action: bus.id ? 'update' : 'create', busName: bus.fields.busName };
+      }),
+      ...changes.filter(c => c.action === 'delete').map(c => ({
+        ref: db.collection('buses').doc(c.busId!), data: null, action: 'delete', busName: c.busName,
+      })),
+    ];
+    const describeWrite = ({ ref, action, busName }: typeof writes[number]) => ({ busId: ref.id, busName, action });
+
+    // Firestore batches are limited to 500 writes
+    let written = 0;
+    try {
+      for (; written < writes.length; written += 400) {
+        const batch = db.batch();
+        for (const { ref, data } of writes.slice(written, written + 400)) {
+          if (data) batch.set(ref, data);
+          else batch.delete(ref);
+        }
+        await batch.commit();
+      }
+    } catch (writeError) {
+      // Earlier batches are stored; say exactly which buses changed and which did not
+      if (written > 0) refreshIndexAfterWrite();
+      logger.error('Timetable import stopped part way', { error: writeError, written, total: writes.length });
+      return res.status(500).json({
+        error: `The import stopped after ${written} of ${writes.length} changes; the rest were not saved`,
+        data: {
+          applied: false,
+          ...report,
+          partial: { written: writes.slice(0, written).map(describeWrite), notWritten: writes.slice(written).map(describeWrite) },
+        },
+      });
+    }
+    refreshIndexAfterWrite();
+    logger.info('Timetable imported', summary);
+
+    res.json({
+      success: true,
+      data: { applied: true, ...report },
+      message: 'Timetable imported',
+    });
+  } catch (error) {
+    logger.error('Error importing timetable', { error });
+    res.status(500).json({ error: 'Failed to import timetable' });
+  }
+});
+
+// Download a backup of the dataset as JSON (`collections` = comma-separated names; default
+// all but favorites and feedback). Admins only, like every backup route.
+router.get('/backup', async (req: Request, res: Response) => {
+  try {
+    if (!(await requireAdmin(req, res, 'download a backup'))) return;
+    const { data: collections, error } = parseBackupCollections(req.query.collections);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    const archive = await createBackup(collections);
+    logger.info('Backup created', { counts: archive.counts });
+
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="catchmybus-backup-${archive.createdAt.replace(/[:.]/g, '-')}.json"`);
+    res.send(JSON.stringify(archive));
+  } catch (error) {
+    logger.error('Error creating backup', { error });
+    res.status(500).json({ error: 'Failed to create backup' });
+  }
+});
+
+// Restore a backup (the archive as the request body). Each restored collection is made
+// equal to the backup: documents added since are deleted. `collections` restores only
+// those; `dryRun=true` returns the changes without writing them.
+router.post('/backup/restore', raw({ type: ['application/octet-stream'], limit: '200mb' }), async (req: Request, res: Response) => {
+  try {
+    if (!(await requireAdmin(req, res, 'restore a backup'))) return;
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ error: 'Upload a backup file as the request body (Content-Type: application/octet-stream)' });
+    }
+    const { data: collections, error: collectionsError } = parseBackupCollections(req.query.collections);
+    if (collectionsError) {
+      return res.status(400).json({ error: collectionsError });
+    }
+    const { data: archive, error: archiveError } = parseBackup(req.body.toString('utf8'));
+    if (!archive) {
+      return res.status(400).json({ error: archiveError });
+    }
+
+    const dryRun = String(req.query.dryRun || '').toLowerCase() === 'true';
+    const { data, error, writeError } = await restoreBackup(archive, collections || null, { dryRun });
+    if (!data) {
+      return res.status(400).json({ error });
+    }
+    if (!dryRun && data.writes > 0) {
+      refreshIndexAfterWrite({ stopsChanged: data.collections.some(c => c.collection === 'stops') });
+    }
+    if (writeError) {
+      // Earlier batches are stored; restoring the same backup again finishes the rest
+      logger.error('Backup restore stopped part way', { error: writeError, backupCreatedAt: archive.createdAt, writes: data.writes });
+      return res.status(500).json({
+        error: `The restore stopped after ${data.writes} writes; restore the same backup again to finish it`,
+        data: { backupCreatedAt: archive.createdAt, ...data },
+      });
+    }
+    if (!dryRun) logger.info('Backup restored', { backupCreatedAt: archive.createdAt, ...data });
+
+    res.json({
+      success: true,
+      data: { backupCreatedAt: archive.createdAt, ...data },
+      message: dryRun ? 'Dry run: nothing was written' : 'Backup restored',
+    });
+  } catch (error) {
+    logger.error('Error restoring backup', { error });
+    res.status(500).json({ error: 'Failed to restore backup' });
+  }
+});
+
+// Live trip status (delay or cancellation) for one service day, published in /gtfs-rt/trip-updates.
+// Realtime and alert writes go straight into the public feeds, so only the admin may make them.
+router.get('/realtime/trips', (req: Request, res: Response) => {
+  res.json({ success: true, data: currentTripStatuses() });
+});
+
+router.post('/realtime/trips', async (req: Request, res: Response) => {
+  try {
+    if (!(await requireAdmin(req, res, 'report trip status'))) return;
+    const { data, error } = parseTripStatusInput(await getTimetableIndex(), req.body);
+    if (!data) {
+      return res.status(400).json({ error });
+    }
+    reportTripStatus(data);
+    res.status(201).json({ success: true, data, message: data.cancelled ? 'Trip cancelled' : 'Trip delay reported' });
+  } catch (error) {
+    logger.error('Error reporting trip status', { error });
+    res.status(500).json({ error: 'Failed to report trip status' });
+  }
+});
+
+// Back to the timetable: drop the delay or cancellation of a trip on a service day
+router.delete('/realtime/trips/:tripId/:serviceDate', async (req: Request, res: Response) => {
+  try {
+    if (!(await requireAdmin(req, res, 'clear trip status'))) return;
+    if (!clearTripStatus(req.params.tripId, req.params.serviceDate)) {
+      return res.status(404).json({ error: 'No status reported for this trip on this date' });
+    }
+    res.json({ success: true, message: 'Trip status cleared' });
+  } catch (error) {
+    logger.error('Error clearing trip status', { error });
+    res.status(500).json({ error: 'Failed to clear trip status' });
+  }
+});
+
+// Vehicle positions, published in /gtfs-rt/vehicle-positions until they go stale
+router.get('/realtime/vehicles', (req: Request, res: Response) => {
+  res.json({ success: true, data: currentVehicles() });
+});
+
+router.post('/realtime/vehicles', async (req: Request, res: Response) => {
+  try {
+    if (!(await requireAdmin(req, res, 'report vehicle positions'))) return;
+    const { data, error } = parseVehicleInput(await getTimetableIndex(), req.body);
+    if (!data) {
+      return res.status(400).json({ error });
+    }
+    reportVehicle(data);
+    res.status(201).json({ success: true, data });
+  } catch (error) {
+    logger.error('Error reporting vehicle position', { error });
+    res.status(500).json({ error: 'Failed to report vehicle position' });
+  }
+});
+
+// Service alerts (hartals, diversions, road closures), published in /gtfs-rt/alerts
+router.get('/alerts', async (req: Request, res: Response) => {
+  try {
+    res.json({ success: true, data: await loadAlerts() });
+  } catch (error) {
+    logger.error('Error fetching alerts', { error });
+    res.status(500).json({ error: 'Failed to fetch alerts' });
+  }
+});
+
+router.post('/alerts', async (req: Request, res: Response) => {
+  try {
+    if (!(await requireAdmin(req, res, 'publish alerts'))) return;
+    const { data, error } = parseAlertInput(req.body);
+    if (!data) {
+      return res.status(400).json({ error });
+    }
+
+    const docRef = await db.collection('alerts').add({ ...data, createdAt: new Date() });
+    res.status(201).json({
+      success: true,
+      data: { id: docRef.id, ...data },
+      message: 'Alert added successfully',
+    });
+  } catch (error) {
+    logger.error('Error adding alert', { error });
+    res.status(500).json({ error: 'Failed to add alert' });
+  }
+});
+
+router.delete('/alerts/:id', async (req: Request, res: Response) => {
+  try {
+    if (!(await requireAdmin(req, res, 'delete alerts'))) return;
+    await db.collection('alerts').doc(req.params.id).delete();
+    res.json({ success: true, message: 'Alert deleted successfully' });
+  } catch (error) {
+    logger.error('Error deleting alert', { error });
+    res.status(500).json({ error: 'Failed to delete alert' });
+  }
+});
+
 // Debug: list first N buses (id + route) to inspect stored values
 router.get('/debug/buses', async (req: Request, res: Response) => {
   try {
@@ -140,7 +936,7 @@ router.get('/debug/buses', async (req: Request, res: Response) => {
     const items = snapshot.docs.map(doc => ({ id: doc.id, data: doc.data() }));
     res.json({ success: true, count: items.length, data: items });
   } catch (error) {
-    console.error('Error in /admin/debug/buses:', error);
+    logger.error('Error in /admin/debug/buses', { error });
     res.status(500).json({ error: 'Failed to fetch debug buses', details: error instanceof Error ? error.message : error });
   }
 });
@@ -1,12 +1,42 @@
 import { Router, Request, Response } from 'express';
 import { db } from '../config/firebase';
-import { calculateDistance, calculateFare, calculateTime } from '../utils/helpers';
-import { calculateRealDistance } from '../utils/googleMaps';
+import { computeFare, findConcession } from '../utils/fareEngine';
+import { loadServiceClasses, serviceClassFor } from '../utils/serviceClasses';
+import { distanceAlongRoute } from '../utils/routeDistance';
+import { planJourneys, DEFAULT_PLANNER_OPTIONS, PlannerService } from '../utils/journeyPlanner';
+import { minutesToTimeString, minutesToServiceTime, parseTimeToMinutes } from '../utils/timetable';
+import { getStopRegistry, resolveQuery, resolveStops } from '../utils/stopRegistry';
+import { getTimetableIndex, findDirectTrips, tripStopTimes } from '../utils/timetableIndex';
+import { nextDepartures } from '../utils/departureBoard';
+import { findNearbyStops } from '../utils/nearbyStops';
+import { shiftServiceDate, busRunsOn } from '../utils/serviceCalendar';
+import { AGENCY_TIMEZONE, resolveRequestedTime } from '../utils/agencyClock';
+import { parseSearchFilters, busMatchesFilters, matchesResultFilters, hasResultFilters, sortResults, sortValue } from '../utils/searchFilters';
+import { AMENITIES } from '../config/amenities';
+import { CONCESSIONS } from '../config/fares';
+import { decodeCursor, encodeCursor, parseLimit } from '../utils/pagination';
+import { createSearchExplain } from '../utils/searchExplain';
+import { isAdminRequest } from '../utils/adminAuth';
+import { searchCache } from '../utils/searchCache';
+import { logger } from '../utils/logger';
 
 const router = Router();
 
+// A trip can be listed for the requested day and, after midnight, for the day before
+const resultKey = (r: any) => `${r.tripId}@${r.serviceDate}`;
+
+// Where a search page starts: after or before a departure (minutes on the requested day's axis).
+// Direct results also carry the result key to order departures at the same minute, and
+// sorted ones the sort value (null when unknown) since their pages follow the sort.
+interface SearchCursor {
+  dir: 'after' | 'before';
+  m: number;
+  k?: string;
+  s?: number | null;
+}
+
 // Search buses between two stops
-router.get('/search', async (req: Request, res: Response) => {
+router.get('/search', searchCache, async (req: Request, res: Response) => {
   try {
     const { from, to, type } = req.query;
 
@@ -14,228 +44,243 @@ router.get('/search', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'From and to parameters are required' });
     }
 
-    // Normalize helper to improve matching robustness
-    const normalize = (s: string) => (s || '').toLowerCase().replace(/[.,\/#!$%\^&\*;:{}=\-_`~()]/g, '').trim();
-    const qFrom = normalize(from as string);
-    const qTo = normalize(to as string);
-    console.log(`\n=== SEARCH START === Query: from='${from}' (normalized='${qFrom}') to='${to}' (normalized='${qTo}') type='${type}'`);
-
-    // Parse time param (default to current time)
-    const timeParam = (req.query.time as string) || '';
-    const parseTimeToMinutes = (t: string) => {
-      if (!t) return null;
-      t = t.trim();
-      // Accept HH:MM (24h) or HH:MM AM/PM
-      const ampmMatch = t.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
-      if (ampmMatch) {
-        let h = parseInt(ampmMatch[1], 10);
-        const m = parseInt(ampmMatch[2], 10);
-        const ampm = ampmMatch[3].toUpperCase();
-        if (ampm === 'PM' && h !== 12) h += 12;
-        if (ampm === 'AM' && h === 12) h = 0;
-        return h * 60 + m;
-      }
-      const hmMatch = t.match(/^(\d{1,2}):(\d{2})$/);
-      if (hmMatch) {
-        const h = parseInt(hmMatch[1], 10);
-        const m = parseInt(hmMatch[2], 10);
-        return h * 60 + m;
-      }
-      // ISO time fallback
-      const iso = Date.parse(t as string);
-      if (!isNaN(iso)) {
-        const dt = new Date(iso);
-        return dt.getHours() * 60 + dt.getMinutes();
-      }
-      return null;
-    };
+    // explain=true adds a per-trip trace of why each bus was returned or dropped (admins only)
+    const explainRequested = String(req.query.explain || '').toLowerCase() === 'true';
+    if (explainRequested && !(await isAdminRequest(req))) {
+      return res.status(403).json({ error: 'explain=true is only available to admins' });
+    }
 
-    const now = new Date();
-    const defaultMinutes = now.getHours() * 60 + now.getMinutes();
-    const requestedMinutes = parseTimeToMinutes(timeParam) ?? defaultMinutes;
-
-    // Helper to convert minutes-of-day to human-friendly time string
-    const minutesToTimeString = (mins: number) => {
-      const m = ((Math.round(mins) % 1440) + 1440) % 1440;
-      const h = Math.floor(m / 60);
-      const mm = m % 60;
-      const ampm = h >= 12 ? 'PM' : 'AM';
-      const hh = ((h % 12) === 0) ? 12 : (h % 12);
-      return `${hh}:${String(mm).padStart(2, '0')} ${ampm}`;
-    };
+    // Resolve user text through the stop registry (names, spellings, short forms, Malayalam)
+    const index = await getTimetableIndex();
+    const fromQuery = resolveQuery(index.registry, from as string);
+    const toQuery = resolveQuery(index.registry, to as string);
+    logger.info('Search', { from, to, fromStops: [...fromQuery.stopIds], toStops: [...toQuery.stopIds], type, mode: req.query.mode || 'direct' });
+
+    // Service date (YYYY-MM-DD, default today) and time, on the agency clock:
+    // only buses whose calendar operates that day
+    const requested = resolveRequestedTime(req.query);
+    if (requested.error) {
+      return res.status(400).json({ error: requested.error });
+    }
+    const { date: serviceDate, minutes: requestedMinutes } = requested;
+
+    // Concession category (student, senior, ...) applied to quoted fares
+    const concession = (req.query.concession as string) || null;
+    if (concession && !findConcession(concession)) {
+      return res.status(400).json({ error: `Unknown concession: ${concession}` });
+    }
+
+    // Sort order and filters (service classes, amenities, departure window, max duration)
+    const parsedFilters = parseSearchFilters(req.query);
+    if (parsedFilters.error) {
+      return res.status(400).json({ error: parsedFilters.error });
+    }
+    const filters = parsedFilters.filters!;
+
+    // "Later" / "earlier" pages continue from a cursor returned with the previous page
+    const cursor = req.query.cursor ? decodeCursor<SearchCursor>(req.query.cursor) : null;
+    if (req.query.cursor && (!cursor || !['after', 'before'].includes(cursor.dir) || typeof cursor.m !== 'number')) {
+      return res.status(400).json({ error: 'Invalid cursor' });
+    }
+
+    // Arrive-by mode: the requested time is the latest arrival at the destination
+    const arriveBy = String(req.query.arriveBy || '').toLowerCase() === 'true';
+
+    // Echoed on every response so clients can show what "now" was taken to mean
+    const resolved = { timeZone: AGENCY_TIMEZONE, resolvedDate: serviceDate, resolvedTime: minutesToServiceTime(requestedMinutes), arriveBy, sort: filters.sort };
+
+    const matchesType = (bus: any) => busMatchesFilters(bus, filters);
+
+    const explain = explainRequested ? createSearchExplain(index, fromQuery, toQuery) : null;
+    if (explain) {
+      index.trips
+        .filter(trip => !matchesType(trip.bus))
+        .forEach(trip => explain.drop(trip, `Filtered out: type ${trip.bus.type || 'none'} or missing amenities`));
+    }
+    // Every search response goes out through here so explain mode can attach its trace
+    const send = (body: { data: any[]; [key: string]: any }) =>
+      res.json(explain ? { ...body, explain: explain.report(body.data) } : body);
+
+    // Trips of the previous service day still running after midnight are searched too,
+    // with their times moved back a day onto the requested date's axis
+    const previousDate = shiftServiceDate(serviceDate, -1);
+    const runsOn = (date: string) => (bus: any) => matchesType(bus) && busRunsOn(index.calendars, bus, date);
+    const services: PlannerService[] = [
+      { serviceDate, shift: 0, includeBus: runsOn(serviceDate) },
+      { serviceDate: previousDate, shift: -1440, includeBus: runsOn(previousDate) },
+    ];
+
+    // Journey-planning mode: chain up to three buses through shared stops
+    if (String(req.query.mode || '').toLowerCase() === 'journey') {
+      // Journeys are planned and paged in time order; ranking a whole day of them is not offered
+      if (filters.sort) {
+        return res.status(400).json({ error: 'sort is not available with mode=journey' });
+      }
+      const maxTransfers = Math.min(Math.max(parseInt((req.query.maxTransfers as string) || '2', 10) || 0, 0), 2);
+      const minTransfer = parseInt((req.query.minTransfer as string) || '', 10);
+
+      const limit = parseLimit(req.query.limit, String(req.query.showAll || '').toLowerCase() === 'true' ? 20 : DEFAULT_PLANNER_OPTIONS.limit, 20);
+
+      // A later page plans again from just after the last departure shown (still arriving in time
+      // in arrive-by mode); an earlier page plans backwards from just before the first arrival shown
+      const planBackwards = cursor ? cursor.dir === 'before' : arriveBy;
+      const startMinutes = cursor ? cursor.m : requestedMinutes;
+
+      // With a departure window or duration cap, plan a wider set and keep the itineraries that pass
+      const planned = await planJourneys(index, fromQuery, toQuery, startMinutes, {
+        maxLegs: maxTransfers + 1,
+        minTransferMinutes: isNaN(minTransfer) ? DEFAULT_PLANNER_OPTIONS.minTransferMinutes : Math.max(minTransfer, 0),
+        limit: hasResultFilters(filters) || (cursor && arriveBy) ? Math.max(limit, 20) : limit,
+        arriveBy: planBackwards,
+        concession,
+      }, services);
+      const inTime = (it: any) => !arriveBy || planBackwards || parseTimeToMinutes(it.arrivalTime)! <= requestedMinutes;
+      const page = planned.filter(it => inTime(it) && matchesResultFilters(it, filters)).slice(0, limit);
+      // Backward plans come latest first; keep each page in the order of the first one
+      // (time order, or latest departure first in arrive-by mode)
+      if (cursor && (cursor.dir === 'before') !== arriveBy) page.reverse();
+      const itineraries = page;
+
+      const departures = page.map(it => parseTimeToMinutes(it.departureTime)!);
+      const arrivals = page.map(it => parseTimeToMinutes(it.arrivalTime)!);
+      // A full page may have more beyond it in the direction planned; the anchor side always has more
+      const full = page.length === limit;
+      const pageCursors = {
+        nextCursor: page.length > 0 && (planBackwards ? cursor?.dir === 'before' : full)
+          ? encodeCursor({ dir: 'after', m: Math.max(...departures) + 1 })
+          : null,
+        prevCursor: page.length > 0 && (planBackwards ? full : true)
+          ? encodeCursor({ dir: 'before', m: Math.min(...arrivals) - 1 })
+          : null,
+      };
+
+      logger.info('Search results', { mode: 'journey', count: itineraries.length });
+      return send({
+        success: true,
+        mode: 'journey',
+        data: itineraries,
+        count: itineraries.length,
+        ...pageCursors,
+        requestedFrom: (from as string) || '',
+        requestedTo: (to as string) || '',
+        requestedTime: minutesToTimeString(requestedMinutes),
+        requestedDate: serviceDate,
+        ...resolved,
+      });
+    }
 
-    // Fetch all buses
-    const busesSnapshot = await db.collection('buses').get();
-    console.log(`Total buses in DB: ${busesSnapshot.size}`);
     const results: any[] = [];
 
     // We'll collect time-aware candidates so we can pick buses at/after requested time
-    const timeCandidates: Array<{result: any; departMinutes?: number; absDiff?: number}> = [];
+    const timeCandidates: Array<{result: any; departMinutes?: number; arriveMinutes?: number; absDiff?: number}> = [];
     const showAll = String(req.query.showAll || '').toLowerCase() === 'true';
+    const pageSize = parseLimit(req.query.limit, 3, 50);
+
+    // Index lookup: only trips serving both stops in the requested direction
+    const directTrips = findDirectTrips(index, fromQuery, toQuery);
+    logger.debug('Direct trips found', { indexedTrips: index.trips.length, directTrips: directTrips.length });
 
-    for (const doc of busesSnapshot.docs) {
-      const busData = doc.data();
-      const bus: any = { id: doc.id, ...busData };
-      console.log(`\n[Bus: ${doc.id}] busName='${bus.busName}' from='${bus.from}' to='${bus.to}' type='${bus.type}'`);
-      console.log(`  Raw route:`, bus.route);
+    for (const { trip, fromPos, toPos } of directTrips) {
+      const bus = trip.bus;
 
-      // Check if bus type filter is applied
-      if (type && type !== 'all' && bus.type !== type) {
-        console.log(`  ❌ Type mismatch: ${bus.type} !== ${type}`);
+      // Check the service class and amenity filters
+      if (!matchesType(bus)) {
+        logger.debug('Trip skipped', { tripId: trip.id, reason: 'type or amenities filter', type: bus.type, amenities: bus.amenities || [] });
         continue;
       }
 
-      // Build a normalized array of stop strings from bus.route
-      const rawRoute = bus.route;
-      let routeArray: string[] = [];
-      if (Array.isArray(rawRoute)) {
-        routeArray = rawRoute.map((s: any) => {
-          if (typeof s === 'string') return s;
-          if (typeof s === 'object' && s !== null) return s?.name || s?.stopName || s?.stop || '';
-          return String(s);
-        }).filter(Boolean);
-      } else if (typeof rawRoute === 'string') {
-        routeArray = rawRoute.split(/\s*[-–→> ,|]+\s*/).filter(Boolean);
-      }
-      
-      // Include bus.from and bus.to as valid stops if they exist and aren't already in routeArray
-      if (bus.from && !routeArray.some(s => normalize(s) === normalize(bus.from))) {
-        routeArray.unshift(bus.from); // Add to start
-      }
-      if (bus.to && !routeArray.some(s => normalize(s) === normalize(bus.to))) {
-        routeArray.push(bus.to); // Add to end
-      }
-      
-      console.log(`  Processed routeArray: [${routeArray.join(' | ')}]`);
-      const normalizedRoute = routeArray.map(normalize);
-      console.log(`  Normalized route: [${normalizedRoute.join(' | ')}]`);
-
-      // If no route entries, still allow fallback on bus.from/bus.to
-      const hasRoute = routeArray.length > 0;
-
-      // Find indexes by comparing normalized stop names
-      let fromIndex = -1;
-      let toIndex = -1;
-      if (hasRoute) {
-        // If user searched the same stop for from & to (e.g. d -> d), treat it as a single-stop query
-        if (qFrom === qTo) {
-          fromIndex = normalizedRoute.findIndex((nstop) => nstop.includes(qFrom) || qFrom.includes(nstop));
-          toIndex = fromIndex;
-          console.log(`  Same-stop query detected. index=${fromIndex}`);
-        } else {
-          fromIndex = normalizedRoute.findIndex((nstop) => nstop.includes(qFrom) || qFrom.includes(nstop));
-          toIndex = normalizedRoute.findIndex((nstop) => nstop.includes(qTo) || qTo.includes(nstop));
-          console.log(`  Route search: qFrom='${qFrom}' → fromIndex=${fromIndex}, qTo='${qTo}' → toIndex=${toIndex}`);
-        }
-      }
+      const fromStop = trip.stops[fromPos];
+      const toStop = trip.stops[toPos];
+
+      // Sum of the route segments between the two stops (see routeDistance.ts)
+      const { distance, duration: travelTime, source: distanceSource } =
+        await distanceAlongRoute(trip, fromPos, toPos);
+      const estimateFrom = arriveBy ? requestedMinutes - travelTime - 5 : requestedMinutes;
 
-      if (fromIndex !== -1 && toIndex !== -1) {
-        console.log(`  ✅ Route contains both stops`);
-        // Enforce direction: only match if 'from' appears before 'to' in the route
-        if (qFrom === qTo) {
-          // same-stop query is allowed
-          console.log(`  Same-stop query; treating as valid match at index ${fromIndex}`);
-        } else if (fromIndex > toIndex) {
-          // Found both stops but in reverse order -> not a match for this direction
-          console.log(`  ❌ Stops found but in reverse order (fromIndex=${fromIndex} > toIndex=${toIndex}); skipping`);
-          // Do not consider this a match for the user's requested direction
+      for (const service of services) {
+        // A previous-day trip only matters if it reaches the boarding stop after midnight
+        if (service.shift !== 0 && (fromStop.departure === null || fromStop.departure + service.shift < 0)) {
+          explain?.service(trip, { serviceDate: service.serviceDate!, reason: 'Previous day\'s trip does not reach the origin after midnight' });
           continue;
         }
-
-        // At this point 'fromIndex' <= 'toIndex' (or same-stop). Use them as aIndex/bIndex
-        const aIndex = Math.min(fromIndex, toIndex);
-        const bIndex = Math.max(fromIndex, toIndex);
-
-        // Get actual stop names for distance calculation
-        const fromStopName = routeArray[aIndex] || bus.route[aIndex] || '';
-        const toStopName = routeArray[bIndex] || bus.route[bIndex] || '';
-        
-        // Calculate real distance using free geocoding + haversine
-        const realDistance = await calculateRealDistance(fromStopName, toStopName);
-        const distance = realDistance.success ? realDistance.distance : calculateDistance(aIndex, bIndex);
-        const estimatedTime = realDistance.success ? realDistance.duration : calculateTime(distance);
-        const fare = calculateFare(distance, bus.type);
-
-        // Try to use provided timings on the bus document if available
-        let fromTiming: any = null;
-        let toTiming: any = null;
-        let usedProvidedTimings = false;
-        if (Array.isArray(bus.timings)) {
-          // Normalize timings and support legacy `{ stop, time }` entries by
-          // mapping `time` -> `arrivalTime`/`departureTime` when missing.
-          const normalizedTimings = (bus.timings as any[]).map(t => {
-            const stopName = t.stopName || t.stop || '';
-            const arrival = t.arrivalTime || t.time || t.departureTime || '';
-            const departure = t.departureTime || t.time || t.arrivalTime || '';
-            return { ...t, stopName, arrivalTime: arrival, departureTime: departure, _n: normalize(stopName) };
-          });
-          const matchFrom = normalizedTimings.find(t => t._n.includes(qFrom) || qFrom.includes(t._n));
-          const matchTo = normalizedTimings.find(t => t._n.includes(qTo) || qTo.includes(t._n));
-          if (matchFrom) fromTiming = matchFrom;
-          if (matchTo) toTiming = matchTo;
-          if (matchFrom && matchTo) usedProvidedTimings = true;
+        if (!busRunsOn(index.calendars, bus, service.serviceDate!, fromStop.timing)) {
+          logger.debug('Trip skipped', { tripId: trip.id, reason: 'not operating', serviceDate: service.serviceDate });
+          explain?.service(trip, { serviceDate: service.serviceDate!, reason: `Service calendar: not operating on ${service.serviceDate}` });
+          continue;
         }
+        logger.debug('Trip matched', { tripId: trip.id, busName: bus.busName, fromStop: fromStop.name, fromPos, toStop: toStop.name, toPos, serviceDate: service.serviceDate });
+
+        // Times are returned on the requested date's axis: "25:10" is 1:10 AM the next day
+        const timingAt = (stop: typeof fromStop, position: number, arrival: number, departure: number) => ({
+          ...(stop.timing || {}),
+          stopId: stop.stopId || `stop_${position}`,
+          stopName: stop.name,
+          arrivalTime: minutesToServiceTime(arrival + service.shift),
+          departureTime: minutesToServiceTime(departure + service.shift),
+          ...(stop.interpolated ? { interpolated: true } : {}),
+        });
 
-        // Fallback to provided or estimated timings
-        const minutesToTimeString = (mins: number) => {
-          const m = ((Math.round(mins) % 1440) + 1440) % 1440;
-          const h = Math.floor(m / 60);
-          const mm = m % 60;
-          const ampm = h >= 12 ? 'PM' : 'AM';
-          const hh = ((h % 12) === 0) ? 12 : (h % 12);
-          return `${hh}:${String(mm).padStart(2, '0')} ${ampm}`;
-        };
-
-        if (!fromTiming) {
+        // Use provided timings on the bus document if available
+        const usedProvidedTimings = !!fromStop.timing && !!toStop.timing;
+        let fromTiming: any;
+        let departMinutes: number | null;
+        if (fromStop.departure !== null) {
+          fromTiming = timingAt(fromStop, fromPos, fromStop.arrival!, fromStop.departure);
+          departMinutes = fromStop.departure + service.shift;
+        } else if (fromStop.timing) {
+          // Placeholder times like '00', '00:00', '00AM' are missing data: keep the entry but don't rank by it
+          fromTiming = { ...fromStop.timing };
+          departMinutes = null;
+        } else {
           // If no provided timing, estimate using requested time as the from departure
-          const dep = requestedMinutes;
-          fromTiming = {
-            stopId: `stop_${aIndex}`,
-            stopName: fromStopName,
-            arrivalTime: minutesToTimeString(dep),
-            departureTime: minutesToTimeString(dep + 5),
-          };
-        }
-        if (!toTiming) {
-          // Estimate arrival at destination as requested + estimatedTime
-          const arr = requestedMinutes + (typeof estimatedTime === 'number' ? estimatedTime : 0);
-          toTiming = {
-            stopId: `stop_${bIndex}`,
-            stopName: toStopName,
-            arrivalTime: minutesToTimeString(arr),
-            departureTime: minutesToTimeString(arr + 5),
-          };
+          // (in arrive-by mode, early enough to arrive by the requested time)
+          fromTiming = timingAt(fromStop, fromPos, estimateFrom, estimateFrom + 5);
+          departMinutes = estimateFrom + 5;
         }
 
-        // If time filtering is requested, parse the bus departure time at the from stop
-        const parseTimeField = (tstr: string) => parseTimeToMinutes(tstr as string);
+        let toTiming: any;
+        if (toStop.arrival !== null) {
+          toTiming = timingAt(toStop, toPos, toStop.arrival, toStop.departure!);
+        } else if (toStop.timing) {
+          toTiming = { ...toStop.timing };
+        } else {
+          // Estimate arrival at destination from the departure and the travel time
+          const arr = (fromStop.departure ?? estimateFrom) + travelTime;
+          toTiming = timingAt(toStop, toPos, arr, arr + 5);
+        }
 
-        // Treat placeholder times like '00', '00:00', '00AM' as missing data and do NOT consider them
-        const rawDepartStr = String(fromTiming.departureTime || fromTiming.arrivalTime || fromTiming.time || '').trim();
-        const isPlaceholderTime = (s: string) => {
-          if (!s) return true;
-          const norm = s.replace(/\s+/g, '').toLowerCase();
-          // matches '00', '0:00', '00:00', optionally with am/pm like '00am'
-          return /^0{1,2}(:0{2})?(am|pm)?$/.test(norm);
-        };
+        // Scheduled times share one service-day axis, so durations across midnight stay positive
+        const estimatedTime = fromStop.departure !== null && toStop.arrival !== null && toStop.arrival >= fromStop.departure
+          ? toStop.arrival - fromStop.departure
+          : travelTime;
 
-        const departMinutes = !isPlaceholderTime(rawDepartStr)
-          ? (parseTimeField(fromTiming.departureTime) ?? parseTimeField(fromTiming.arrivalTime) ?? parseTimeField(fromTiming.time) ?? null)
-          : null;
+        // Fare stages from the distance; the night surcharge depends on when the bus is boarded
+        const fareBreakdown = computeFare(distance, serviceClassFor(index.serviceClasses, bus.type), {
+          departureMinutes: departMinutes,
+          concession,
+        });
 
-        const timingSource = usedProvidedTimings ? 'provided' : 'estimated';
+        const timingSource = fromStop.interpolated || toStop.interpolated
+          ? 'interpolated'
+          : usedProvidedTimings ? 'provided' : 'estimated';
         const resultObj = {
           bus,
+          tripId: trip.id,
+          serviceDate: service.serviceDate,
+          stopTimes: tripStopTimes(trip),
           fromTiming,
           toTiming,
           distance,
+          distanceSource,
           estimatedTime,
-          fare,
+          fare: fareBreakdown.total,
+          fareBreakdown,
           timingSource,
           // Echo the user's query so frontend can display what was searched
           requestedFrom: (from as string) || '',
           requestedTo: (to as string) || '',
           requestedTime: minutesToTimeString(requestedMinutes),
+          requestedDate: serviceDate,
         };
 
         // Ensure we always have a textual departure/arrival time on the result (avoid TBD in UI)
@@ -246,95 +291,141 @@ router.get('/search', async (req: Request, res: Response) => {
           toTiming.arrivalTime = toTiming.departureTime;
         }
 
+        const traced = {
+          serviceDate: service.serviceDate!,
+          timingSource,
+          departureTime: fromTiming.departureTime,
+          arrivalTime: toTiming.arrivalTime,
+        };
+        if (!matchesResultFilters(resultObj, filters)) {
+          logger.debug('Trip skipped', { tripId: trip.id, reason: 'departure window or duration limit', serviceDate: service.serviceDate });
+          explain?.service(trip, { ...traced, reason: 'Outside the departure window or duration limit' });
+          continue;
+        }
+
         if (departMinutes !== null) {
           const diff = departMinutes - requestedMinutes; // positive => after requested
-          timeCandidates.push({ result: resultObj, departMinutes, absDiff: Math.abs(diff) });
-        } else {
+          const arriveMinutes = toStop.arrival !== null ? toStop.arrival + service.shift : departMinutes + estimatedTime;
+          timeCandidates.push({ result: resultObj, departMinutes, arriveMinutes, absDiff: Math.abs(diff) });
+          explain?.service(trip, {
+            ...traced,
+            reason: arriveBy && arriveMinutes > requestedMinutes
+              ? `Arrives at ${minutesToServiceTime(arriveMinutes)}, after the requested ${minutesToServiceTime(requestedMinutes)}`
+              : null,
+          });
+        } else if (service.shift === 0) {
           // No concrete timing for this bus (or placeholder like '00'); still push to results as fallback
           results.push(resultObj);
+          explain?.service(trip, { ...traced, reason: null });
         }
-        continue; // matched by route, continue to next bus
-      }
-      // If we reach here, route match failed for this bus (or didn't satisfy direction)
-      // For strict two-stop searches (both 'from' and 'to' provided) we do NOT return partial matches.
-      // If you want partial matches in the future, consider adding a `partial=true` query param.
-      console.log(`  No valid directional route match for this bus; skipping partial matches for strict from->to search.`);
-
-      // Fallback: match using bus.from and bus.to fields (useful when route array is not representative)
-      // BUT: first try using the first and last stops from the route if available
-      let fallbackFrom = bus.from || '';
-      let fallbackTo = bus.to || '';
-      if (hasRoute && routeArray.length >= 2) {
-        fallbackFrom = routeArray[0];
-        fallbackTo = routeArray[routeArray.length - 1];
       }
-      const busFromField = normalize(fallbackFrom);
-      const busToField = normalize(fallbackTo);
-      console.log(`  Route match failed. Trying fallback: fallbackFrom='${fallbackFrom}' (normalized='${busFromField}') fallbackTo='${fallbackTo}' (normalized='${busToField}')`);
-      const isSameQuery = qFrom === qTo;
-      if ((isSameQuery && (busFromField.includes(qFrom) || busToField.includes(qFrom))) || (!isSameQuery && busFromField.includes(qFrom) && busToField.includes(qTo))) {
-        console.log(`  ✅ Fallback match found!`);
-        // Create fall-back timings using start/end
-        const fromTiming = {
-          stopId: `from_field`,
-          stopName: fallbackFrom,
-          arrivalTime: '08:00 AM',
-          departureTime: '08:05 AM',
-        };
-        const toTiming = {
-          stopId: `to_field`,
-          stopName: fallbackTo,
-          arrivalTime: '10:30 AM',
-          departureTime: '10:35 AM',
-        };
+    }
 
-        const distance = calculateDistance(0, 1);
-        const estimatedTime = calculateTime(distance);
-        const fare = calculateFare(distance, bus.type);
+    logger.debug('Direct candidates', { timed: timeCandidates.length, untimed: results.length });
+
+    // Timed candidates in departure order: the sequence "earlier" and "later" pages step through
+    const pool = timeCandidates
+      .filter(tc => !arriveBy || tc.arriveMinutes! <= requestedMinutes)
+      .map(tc => ({ ...tc, m: tc.departMinutes!, k: resultKey(tc.result) }))
+      .sort((a, b) => a.m - b.m || a.k.localeCompare(b.k));
+    const compare = (a: { m: number; k: string }, b: { m: number; k: string }) => a.m - b.m || a.k.localeCompare(b.k);
+
+    // Cursors around the timed results on a page, when the pool has more on that side
+    const pageCursors = (page: any[]) => {
+      const keys = new Set(page.map(resultKey));
+      const shown = pool.filter(p => keys.has(p.k));
+      if (shown.length === 0) return { nextCursor: null, prevCursor: null };
+      const first = shown[0];
+      const last = shown[shown.length - 1];
+      return {
+        nextCursor: pool.some(p => compare(p, last) > 0) ? encodeCursor({ dir: 'after', m: last.m, k: last.k }) : null,
+        prevCursor: pool.some(p => compare(p, first) < 0) ? encodeCursor({ dir: 'before', m: first.m, k: first.k }) : null,
+      };
+    };
 
-        results.push({
-          bus,
-          fromTiming,
-          toTiming,
-          distance,
-          estimatedTime,
-          fare,
-          requestedFrom: (from as string) || '',
-          requestedTo: (to as string) || '',
-          requestedTime: minutesToTimeString(requestedMinutes),
-        });
-        continue;
-      }
-      console.log(`  ❌ No match for this bus`);
+    // A sort ranks every upcoming trip (every one arriving in time, in arrive-by mode) before
+    // paging, and its cursors step through that ranking
+    if (filters.sort && pool.length > 0) {
+      const sort = filters.sort;
+      const upcoming = arriveBy ? pool : pool.filter(p => p.m >= requestedMinutes);
+      const ranked = (upcoming.length > 0 ? upcoming : pool).map(p => ({ ...p, s: sortValue(p.result, sort) }));
+      const rank = (a: { s: number; m: number; k: string }, b: { s: number; m: number; k: string }) =>
+        a.s - b.s || compare(a, b);
+      ranked.sort(rank);
+
+      const anchor = cursor ? { s: cursor.s ?? Infinity, m: cursor.m, k: cursor.k || '' } : null;
+      const page = !anchor ? (showAll ? ranked : ranked.slice(0, pageSize))
+        : cursor!.dir === 'after' ? ranked.filter(p => rank(p, anchor) > 0).slice(0, pageSize)
+        : ranked.filter(p => rank(p, anchor) < 0).slice(-pageSize);
+      const toCursor = (dir: SearchCursor['dir'], p: typeof ranked[number]) =>
+        encodeCursor({ dir, m: p.m, k: p.k, s: Number.isFinite(p.s) ? p.s : null });
+      const first = page[0];
+      const last = page[page.length - 1];
+      // Trips without a timing cannot be ranked; the full list still shows them, last
+      const data = [...page.map(p => p.result), ...(showAll && !cursor ? results : [])];
+      logger.info('Search results', { mode: 'direct', selection: `sorted by ${sort}`, count: data.length });
+      return send({
+        success: true,
+        data,
+        count: data.length,
+        nextCursor: last && ranked.some(p => rank(p, last) > 0) ? toCursor('after', last) : null,
+        prevCursor: first && ranked.some(p => rank(p, first) < 0) ? toCursor('before', first) : null,
+        ...resolved,
+      });
     }
 
-    console.log(`\n=== SEARCH END === Found ${results.length} result(s)\n`);
+    if (cursor) {
+      const anchor = { m: cursor.m, k: cursor.k || '' };
+      const page = cursor.dir === 'after'
+        ? pool.filter(p => compare(p, anchor) > 0).slice(0, pageSize)
+        : pool.filter(p => compare(p, anchor) < 0).slice(-pageSize);
+      // Arrive-by lists run latest departure first
+      const data = (arriveBy ? page.reverse() : page).map(p => p.result);
+      logger.info('Search results', { mode: 'direct', selection: `page ${cursor.dir} ${minutesToServiceTime(cursor.m)}`, count: data.length });
+      return send({ success: true, data: data, count: data.length, ...pageCursors(data), ...resolved });
+    }
 
     // If we collected time candidates, prefer exact-time matches when the user supplied a time;
-    // otherwise fall back to closest-by-time or the previous top-3 behavior when no time param
+    // otherwise fall back to closest-by-time or the first page at/after now when no time param
     if (timeCandidates.length > 0) {
+      if (arriveBy) {
+        // Trips reaching the destination at or before the requested time, latest departure first
+        const arriving = timeCandidates
+          .filter(tc => tc.arriveMinutes! <= requestedMinutes)
+          .sort((a, b) => (b.departMinutes! - a.departMinutes!))
+          .map(tc => tc.result);
+        const merged = showAll ? [...arriving, ...results] : arriving.slice(0, pageSize);
+        const seen = new Set();
+        const deduped = merged.filter(r => {
+          const id = resultKey(r);
+          if (seen.has(id)) return false;
+          seen.add(id);
+          return true;
+        });
+        logger.info('Search results', { mode: 'direct', selection: 'arrive-by', count: deduped.length });
+        return send({ success: true, data: deduped, count: deduped.length, ...pageCursors(deduped), ...resolved });
+      }
+
       if (showAll) {
         // Return all directional matches sorted by departure time (earliest first)
         const withDepart = timeCandidates
           .filter(tc => typeof tc.departMinutes === 'number')
           .sort((a, b) => (a.departMinutes! - b.departMinutes!))
           .map(tc => tc.result);
-        // Append any non-timed results afterwards, dedup by bus id
+        // Append any non-timed results afterwards, dedup by trip and service day
         const allResults = [...withDepart, ...results];
         const seen = new Set();
         const deduped = allResults.filter(r => {
-          const id = r.bus?.id || JSON.stringify(r.bus);
+          const id = resultKey(r);
           if (seen.has(id)) return false;
           seen.add(id);
           return true;
         });
-        console.log(`\n=== SEARCH END === Returning ${deduped.length} time-filtered (showAll) result(s)\n`);
-        return res.json({ success: true, data: deduped, count: deduped.length });
+        logger.info('Search results', { mode: 'direct', selection: 'show-all', count: deduped.length });
+        return send({ success: true, data: deduped, count: deduped.length, ...pageCursors(deduped), ...resolved });
       }
 
-      const timeParamProvided = !!timeParam && timeParam.trim() !== '';
-
-      if (timeParamProvided) {
+      if (requested.timeProvided) {
         // First try to return all buses that depart exactly at the requested time
         const exact = timeCandidates
           .filter(tc => typeof tc.departMinutes === 'number' && tc.departMinutes === requestedMinutes)
@@ -345,31 +436,33 @@ router.get('/search', async (req: Request, res: Response) => {
           const merged = [...exact, ...results];
           const seen = new Set();
           const deduped = merged.filter(r => {
-            const id = r.bus?.id || JSON.stringify(r.bus);
+            const id = resultKey(r);
             if (seen.has(id)) return false;
             seen.add(id);
             return true;
           });
-          console.log(`\n=== SEARCH END === Returning ${deduped.length} exact-time result(s)\n`);
-          return res.json({ success: true, data: deduped, count: deduped.length });
+          logger.info('Search results', { mode: 'direct', selection: 'exact-time', count: deduped.length });
+          return send({ success: true, data: deduped, count: deduped.length, ...pageCursors(deduped), ...resolved });
         }
 
-        // No exact matches — return all buses sorted by closeness to requested time
+        // No exact matches — return the buses closest to the requested time, in departure order
         const sortedByCloseness = timeCandidates
           .slice()
           .sort((a, b) => (a.absDiff! - b.absDiff!))
+          .slice(0, pageSize)
+          .sort((a, b) => (a.departMinutes! - b.departMinutes!))
           .map(tc => tc.result);
 
         const merged = [...sortedByCloseness, ...results];
         const seen = new Set();
         const deduped = merged.filter(r => {
-          const id = r.bus?.id || JSON.stringify(r.bus);
+          const id = resultKey(r);
           if (seen.has(id)) return false;
           seen.add(id);
           return true;
         });
-        console.log(`\n=== SEARCH END === No exact matches — returning ${deduped.length} closest-by-time result(s)\n`);
-        return res.json({ success: true, data: deduped, count: deduped.length });
+        logger.info('Search results', { mode: 'direct', selection: 'closest-to-time', count: deduped.length });
+        return send({ success: true, data: deduped, count: deduped.length, ...pageCursors(deduped), ...resolved });
       }
 
       // No explicit time requested — keep previous top-3 behavior (prefer at-or-after, else nearest)
@@ -380,41 +473,40 @@ router.get('/search', async (req: Request, res: Response) => {
       const atOrAfter = annotated.filter(a => a.diff >= 0).sort((x, y) => x.diff - y.diff);
       let chosen: any[] = [];
       if (atOrAfter.length > 0) {
-        chosen = atOrAfter.map(a => a.result).slice(0, 3);
+        chosen = atOrAfter.map(a => a.result).slice(0, pageSize);
       } else {
         // No future buses — pick nearest by absolute diff
-        const nearest = annotated.sort((x, y) => x.absDiff! - y.absDiff!).slice(0, 3);
+        const nearest = annotated.sort((x, y) => x.absDiff! - y.absDiff!).slice(0, pageSize);
         chosen = nearest.map(n => n.result);
       }
 
       // Merge chosen with any fallback results we added earlier (no timing), keeping chosen first
       const merged = [...chosen, ...results];
-      // Deduplicate by bus id
+      // Deduplicate by trip and service day
       const seen = new Set();
       const deduped = merged.filter(r => {
-        const id = r.bus?.id || JSON.stringify(r.bus);
+        const id = resultKey(r);
         if (seen.has(id)) return false;
         seen.add(id);
         return true;
-      }).slice(0, 3); // return top-3 overall
-
-      console.log(`\n=== SEARCH END === Returning ${deduped.length} time-filtered (top-3) result(s)\n`);
-      // Detailed debug: print chosen buses and their departure minutes (if available)
-      for (const r of deduped) {
-        const id = r.bus?.id || JSON.stringify(r.bus);
-        const candidate = timeCandidates.find(tc => (tc.result.bus?.id || JSON.stringify(tc.result.bus)) === id);
-        const departMin = candidate?.departMinutes;
-        console.log(`  -> Bus: ${r.bus?.busName || id} id=${id} departMinutes=${departMin ?? 'N/A'} departTime=${departMin != null ? minutesToTimeString(departMin) : 'N/A'}`);
-      }
-      return res.json({ success: true, data: deduped, count: deduped.length });
+      }).slice(0, pageSize); // first page only
+
+      logger.info('Search results', {
+        mode: 'direct',
+        selection: 'first-page',
+        count: deduped.length,
+        departures: deduped.map(r => ({ key: resultKey(r), departureTime: r.fromTiming?.departureTime || null })),
+      });
+      return send({ success: true, data: deduped, count: deduped.length, ...pageCursors(deduped), ...resolved });
     }
 
     // Fallback: no time-aware candidates, sort by departureTime string if available
     results.sort((a, b) => (a.fromTiming?.departureTime || '').localeCompare(b.fromTiming?.departureTime || ''));
 
-    res.json({ success: true, data: results, count: results.length });
+    logger.info('Search results', { mode: 'direct', selection: 'untimed', count: results.length });
+    send({ success: true, data: sortResults(results, filters.sort), count: results.length, nextCursor: null, prevCursor: null, ...resolved });
   } catch (error) {
-    console.error('Error searching buses:', error);
+    logger.error('Error searching buses', { error });
     res.status(500).json({ error: 'Failed to search buses' });
   }
 });
@@ -433,33 +525,114 @@ router.get('/stops', async (req: Request, res: Response) => {
       data: stops,
     });
   } catch (error) {
-    console.error('Error fetching stops:', error);
+    logger.error('Error fetching stops', { error });
     res.status(500).json({ error: 'Failed to fetch stops' });
   }
 });
 
-// Get nearby stops (mock implementation)
+// Service classes (bus types) with colours and fare tables, for dropdowns and badges
+router.get('/service-classes', async (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: await loadServiceClasses(),
+    });
+  } catch (error) {
+    logger.error('Error fetching service classes', { error });
+    res.status(500).json({ error: 'Failed to fetch service classes' });
+  }
+});
+
+// Amenities buses can be tagged with, for the search filters
+router.get('/amenities', (req: Request, res: Response) => {
+  res.json({ success: true, data: AMENITIES });
+});
+
+// Concession categories riders can ask fares for (`concession` on a search)
+router.get('/concessions', (req: Request, res: Response) => {
+  res.json({ success: true, data: CONCESSIONS.map(({ id, label }) => ({ id, label })) });
+});
+
+// Resolve free text (official name, alternate spelling, short form or Malayalam) to registry stops
+router.get('/stops/resolve', async (req: Request, res: Response) => {
+  try {
+    const q = (req.query.q as string) || '';
+    if (!q.trim()) {
+      return res.status(400).json({ error: 'Query parameter q is required' });
+    }
+
+    const registry = await getStopRegistry();
+    res.json({
+      success: true,
+      data: resolveStops(registry, q),
+    });
+  } catch (error) {
+    logger.error('Error resolving stop', { error });
+    res.status(500).json({ error: 'Failed to resolve stop' });
+  }
+});
+
+// Departure board: the next departures from a registry stop to anywhere
+router.get('/stops/:id/departures', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const requested = resolveRequestedTime(req.query);
+    if (requested.error) {
+      return res.status(400).json({ error: requested.error });
+    }
+
+    const index = await getTimetableIndex();
+    const stop = index.registry.byId.get(id);
+    if (!stop) {
+      return res.status(404).json({ error: 'Stop not found' });
+    }
+
+    const limit = Math.min(Math.max(parseInt((req.query.limit as string) || '10', 10) || 10, 1), 50);
+    const windowMinutes = Math.min(Math.max(parseInt((req.query.window as string) || '60', 10) || 60, 1), 24 * 60);
+    const departures = nextDepartures(index, id, {
+      date: requested.date,
+      fromMinutes: requested.minutes,
+      windowMinutes,
+      limit,
+    });
+
+    res.json({
+      success: true,
+      data: departures,
+      count: departures.length,
+      stop: { id: stop.id, name: stop.name, district: stop.district || '' },
+      timeZone: AGENCY_TIMEZONE,
+      resolvedDate: requested.date,
+      resolvedTime: minutesToServiceTime(requested.minutes),
+      windowMinutes,
+    });
+  } catch (error) {
+    logger.error('Error fetching departures', { error });
+    res.status(500).json({ error: 'Failed to fetch departures' });
+  }
+});
+
+// Get stops near a point, nearest first (radius in km, capped at 50)
 router.get('/stops/nearby', async (req: Request, res: Response) => {
   try {
-    const { lat, lng, radius = 5 } = req.query;
+    const lat = parseFloat(req.query.lat as string);
+    const lng = parseFloat(req.query.lng as string);
 
-    if (!lat || !lng) {
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
       return res.status(400).json({ error: 'Latitude and longitude are required' });
     }
 
-    // In production, implement geospatial queries
-    const stopsSnapshot = await db.collection('stops').limit(10).get();
-    const stops = stopsSnapshot.docs.map(doc => ({
-      id: doc.id,
-      ...doc.data(),
-    }));
+    const radius = Math.min(Math.max(parseFloat((req.query.radius as string) || '5') || 5, 0.1), 50);
+    const limit = Math.min(Math.max(parseInt((req.query.limit as string) || '10', 10) || 10, 1), 50);
 
+    const registry = await getStopRegistry();
     res.json({
       success: true,
-      data: stops,
+      data: findNearbyStops(registry, lat, lng, radius, limit),
+      radius,
     });
   } catch (error) {
-    console.error('Error fetching nearby stops:', error);
+    logger.error('Error fetching nearby stops', { error });
     res.status(500).json({ error: 'Failed to fetch nearby stops' });
   }
 });
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
 
 const router = Router();
 
@@ -18,7 +19,7 @@ router.get('/', async (req: Request, res: Response) => {
       data: favorites,
     });
   } catch (error) {
-    console.error('Error fetching favorites:', error);
+    logger.error('Error fetching favorites', { error });
     res.status(500).json({ error: 'Failed to fetch favorites' });
   }
 });
@@ -47,7 +48,7 @@ router.post('/', async (req: Request, res: Response) => {
       message: 'Favorite added successfully',
     });
   } catch (error) {
-    console.error('Error adding favorite:', error);
+    logger.error('Error adding favorite', { error });
     res.status(500).json({ error: 'Failed to add favorite' });
   }
 });
@@ -64,7 +65,7 @@ router.delete('/:id', async (req: Request, res: Response) => {
       message: 'Favorite removed successfully',
     });
   } catch (error) {
-    console.error('Error deleting favorite:', error);
+    logger.error('Error deleting favorite', { error });
     res.status(500).json({ error: 'Failed to delete favorite' });
   }
 });
@@ -1,5 +1,6 @@
 import { Router, Request, Response } from 'express';
 import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
 
 const router = Router();
 
@@ -29,7 +30,7 @@ router.post('/', async (req: Request, res: Response) => {
       message: 'Feedback submitted successfully',
     });
   } catch (error) {
-    console.error('Error submitting feedback:', error);
+    logger.error('Error submitting feedback', { error });
     res.status(500).json({ error: 'Failed to submit feedback' });
   }
 });
@@ -48,7 +49,7 @@ router.get('/', async (req: Request, res: Response) => {
       data: feedback,
     });
   } catch (error) {
-    console.error('Error fetching feedback:', error);
+    logger.error('Error fetching feedback', { error });
     res.status(500).json({ error: 'Failed to fetch feedback' });
   }
 });
@@ -66,7 +67,7 @@ router.put('/:id', async (req: Request, res: Response) => {
       message: 'Feedback status updated successfully',
     });
   } catch (error) {
-    console.error('Error updating feedback:', error);
+    logger.error('Error updating feedback', { error });
     res.status(500).json({ error: 'Failed to update feedback' });
   }
 });
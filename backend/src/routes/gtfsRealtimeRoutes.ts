@@ -0,0 +1,52 @@
+import { Router, Request, Response } from 'express';
+import { getTimetableIndex } from '../utils/timetableIndex';
+import { loadAlerts } from '../utils/realtimeState';
+import {
+  FeedMessage,
+  buildAlertsFeed,
+  buildTripUpdatesFeed,
+  buildVehiclePositionsFeed,
+  encodeFeedMessage,
+} from '../utils/gtfsRealtime';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// Protobuf by default, as GTFS-Realtime consumers expect; `format=json` for reading it by eye
+const sendFeed = (req: Request, res: Response, feed: FeedMessage) => {
+  if (String(req.query.format || '').toLowerCase() === 'json') return res.json(feed);
+  res.setHeader('Content-Type', 'application/x-protobuf');
+  res.send(encodeFeedMessage(feed));
+};
+
+// Delays and cancellations of today's (and last night's) trips
+router.get('/trip-updates', async (req: Request, res: Response) => {
+  try {
+    sendFeed(req, res, buildTripUpdatesFeed(await getTimetableIndex()));
+  } catch (error) {
+    logger.error('Error building trip updates feed', { error });
+    res.status(500).json({ error: 'Failed to build trip updates feed' });
+  }
+});
+
+// Vehicles that reported their position in the last few minutes
+router.get('/vehicle-positions', async (req: Request, res: Response) => {
+  try {
+    sendFeed(req, res, buildVehiclePositionsFeed(await getTimetableIndex()));
+  } catch (error) {
+    logger.error('Error building vehicle positions feed', { error });
+    res.status(500).json({ error: 'Failed to build vehicle positions feed' });
+  }
+});
+
+// Service alerts that have not ended yet
+router.get('/alerts', async (req: Request, res: Response) => {
+  try {
+    sendFeed(req, res, buildAlertsFeed(await loadAlerts()));
+  } catch (error) {
+    logger.error('Error building alerts feed', { error });
+    res.status(500).json({ error: 'Failed to build alerts feed' });
+  }
+});
+
+export default router;
@@ -0,0 +1,50 @@
+import { Router, Request, Response } from 'express';
+import { getTimetableIndex, TimetableIndex } from '../utils/timetableIndex';
+import { GtfsExport, buildGtfsFeed, createGtfsZip } from '../utils/gtfsExport';
+import { agencyNow } from '../utils/agencyClock';
+import { logger } from '../utils/logger';
+
+const router = Router();
+
+// The feed for the current index; rebuilt after admin writes (new index) or at midnight
+let cached: { index: TimetableIndex; date: string; feed: GtfsExport; zip: Buffer } | null = null;
+
+const currentFeed = async () => {
+  const index = await getTimetableIndex();
+  const date = agencyNow().date;
+  if (!cached || cached.index !== index || cached.date !== date) {
+    const feed = buildGtfsFeed(index, date);
+    cached = { index, date, feed, zip: createGtfsZip(feed) };
+    logger.info('GTFS feed built', { counts: feed.counts, warnings: feed.warnings.length });
+  }
+  return cached;
+};
+
+// GTFS static feed of every bus and stop, for other trip planners
+router.get('/feed.zip', async (req: Request, res: Response) => {
+  try {
+    const { zip, date } = await currentFeed();
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="catchmybus-gtfs-${date}.zip"`);
+    res.send(zip);
+  } catch (error) {
+    logger.error('Error exporting GTFS feed', { error });
+    res.status(500).json({ error: 'Failed to export GTFS feed' });
+  }
+});
+
+// Rows per file and what was left out of the feed (untimed trips, stops without coordinates)
+router.get('/feed/report', async (req: Request, res: Response) => {
+  try {
+    const { feed, date } = await currentFeed();
+    res.json({
+      success: true,
+      data: { generatedOn: date, counts: feed.counts, warnings: feed.warnings },
+    });
+  } catch (error) {
+    logger.error('Error exporting GTFS feed', { error });
+    res.status(500).json({ error: 'Failed to export GTFS feed' });
+  }
+});
+
+export default router;
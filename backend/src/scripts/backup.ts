@@ -0,0 +1,48 @@
+import { readFileSync, writeFileSync } from 'fs';
+import { createBackup, parseBackup, parseBackupCollections, restoreBackup } from '../utils/backup';
+import { logger } from '../utils/logger';
+
+// Back up the dataset to a JSON file, or restore one:
+//   npm run backup -- create [backup.json] [--collections=buses,stops,favorites]
+//   npm run backup -- restore backup.json [--collections=buses] [--dry-run]
+// A running server does not see a restore until it is restarted or an admin edit rebuilds its index.
+const main = async () => {
+  const [command, file, ...rest] = process.argv.slice(2);
+  const options = [file, ...rest].filter(arg => arg && arg.startsWith('--'));
+  const path = file && !file.startsWith('--') ? file : undefined;
+  const collectionsOption = options.find(arg => arg.startsWith('--collections='));
+  const { data: collections, error } = parseBackupCollections(collectionsOption?.slice('--collections='.length));
+  if (error) throw new Error(error);
+
+  if (command === 'create') {
+    const archive = await createBackup(collections);
+    const output = path || `catchmybus-backup-${archive.createdAt.replace(/[:.]/g, '-')}.json`;
+    writeFileSync(output, JSON.stringify(archive));
+    logger.info('Backup written', { output, counts: archive.counts });
+    return;
+  }
+
+  if (command === 'restore' && path) {
+    const { data: archive, error: archiveError } = parseBackup(readFileSync(path, 'utf8'));
+    if (!archive) throw new Error(archiveError);
+    const dryRun = options.includes('--dry-run');
+    const { data, error: restoreError, writeError } = await restoreBackup(archive, collections || null, { dryRun });
+    if (!data) throw new Error(restoreError);
+    if (writeError) {
+      logger.error('Restore stopped part way; run it again to finish', { writes: data.writes, ...data.partial });
+      throw writeError;
+    }
+    for (const collection of data.collections) logger.info(dryRun ? 'Would restore' : 'Restored', collection);
+    logger.info(dryRun ? 'Dry run: nothing was written' : 'Backup restored', { file: path, backupCreatedAt: archive.createdAt, writes: data.writes });
+    return;
+  }
+
+  throw new Error('Usage: backup create [file] [--collections=a,b] | backup restore <file> [--collections=a,b] [--dry-run]');
+};
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    logger.error('Backup command failed', { error });
+    process.exit(1);
+  });
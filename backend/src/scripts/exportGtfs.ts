@@ -0,0 +1,22 @@
+import { writeFileSync } from 'fs';
+import { refreshTimetableIndex } from '../utils/timetableIndex';
+import { buildGtfsFeed, createGtfsZip } from '../utils/gtfsExport';
+import { logger } from '../utils/logger';
+
+// Write the GTFS static feed to a zip file:
+//   npm run gtfs:export -- [output.zip]
+const main = async () => {
+  const output = process.argv[2] || 'catchmybus-gtfs.zip';
+  const feed = buildGtfsFeed(await refreshTimetableIndex());
+  writeFileSync(output, createGtfsZip(feed));
+
+  for (const warning of feed.warnings) logger.warn(warning);
+  logger.info('GTFS feed written', { output, counts: feed.counts, warnings: feed.warnings.length });
+};
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    logger.error('GTFS export failed', { error });
+    process.exit(1);
+  });
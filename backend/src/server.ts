@@ -5,6 +5,10 @@ import busRoutes from './routes/busRoutes';
 import adminRoutes from './routes/adminRoutes';
 import favoriteRoutes from './routes/favoriteRoutes';
 import feedbackRoutes from './routes/feedbackRoutes';
+import gtfsRoutes from './routes/gtfsRoutes';
+import gtfsRealtimeRoutes from './routes/gtfsRealtimeRoutes';
+import { refreshTimetableIndex } from './utils/timetableIndex';
+import { logger, requestLogger, REQUEST_ID_HEADER } from './utils/logger';
 
 dotenv.config();
 
@@ -16,7 +20,7 @@ const frontendEnv = process.env.FRONTEND_URL || 'http://localhost:5173';
 const frontendOrigins = frontendEnv.split(',').map((s) => s.trim().replace(/\/$/, '')).filter(Boolean);
 const devOrigins = ['http://localhost:3000'];
 const allowedOrigins = Array.from(new Set([...frontendOrigins, ...devOrigins]));
-console.log('CORS allowed origins:', allowedOrigins);
+logger.info('CORS allowed origins', { allowedOrigins });
 
 // CORS options (use a callback to allow requests with no origin)
 const corsOptions = {
@@ -25,16 +29,19 @@ const corsOptions = {
     const normalizedOrigin = origin.replace(/\/$/, ''); // remove trailing slash
     if (allowedOrigins.includes(normalizedOrigin)) return callback(null, true);
     
-    console.log('CORS blocked origin:', origin, 'Normalized:', normalizedOrigin);
-    console.log('Allowed origins:', allowedOrigins);
+    logger.warn('CORS blocked origin', { origin, normalizedOrigin });
     return callback(new Error('Not allowed by CORS'));
   },
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  allowedHeaders: ['Content-Type', 'Authorization', REQUEST_ID_HEADER],
+  exposedHeaders: [REQUEST_ID_HEADER, 'X-Cache', 'Age'],
   credentials: true,
   optionsSuccessStatus: 200,
 };
 
+// Before CORS, so requests it rejects are logged with an id too
+app.use(requestLogger);
+
 app.use(cors(corsOptions));
 
 // Handle preflight requests for all routes
@@ -44,19 +51,13 @@ app.options('*', cors(corsOptions));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
-// Request logging
-app.use((req: Request, res: Response, next: NextFunction) => {
-  console.log(`${new Date().toISOString()} - ${req.method} ${req.path}`);
-  console.log('Origin:', req.headers.origin);
-  console.log('FRONTEND_URL env:', process.env.FRONTEND_URL);
-  next();
-});
-
 // Routes
 app.use('/api/buses', busRoutes);
 app.use('/api/admin', adminRoutes);
 app.use('/api/favorites', favoriteRoutes);
 app.use('/api/feedback', feedbackRoutes);
+app.use('/api/gtfs', gtfsRoutes);
+app.use('/gtfs-rt', gtfsRealtimeRoutes);
 
 // Health check
 app.get('/health', (req: Request, res: Response) => {
@@ -70,16 +71,18 @@ app.use((req: Request, res: Response) => {
 
 // Error handler
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
-  console.error(err.stack);
+  logger.error('Unhandled error', { error: err, method: req.method, path: req.path });
   res.status(500).json({ error: 'Internal server error' });
 });
 
 // Start server
 app.listen(PORT, () => {
-  console.log(`\n🚌 CatchMyBus Backend Server`);
-  console.log(`✅ Server running on port ${PORT}`);
-  console.log(`🌐 http://localhost:${PORT}`);
-  console.log(`📝 Environment: ${process.env.NODE_ENV || 'development'}\n`);
+  logger.info('CatchMyBus backend listening', { port: PORT, environment: process.env.NODE_ENV || 'development' });
+
+  // Build the timetable index up front so the first search does not pay for it
+  refreshTimetableIndex().catch(() => {
+    // Logged by refreshTimetableIndex; the next search retries the build
+  });
 });
 
 export default app;
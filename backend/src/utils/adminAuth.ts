@@ -0,0 +1,38 @@
+import { Request, Response } from 'express';
+import { admin } from '../config/firebase';
+import { logger } from './logger';
+
+// The account the frontend treats as admin (see frontend AuthContext)
+export const ADMIN_EMAIL = process.env.ADMIN_EMAIL || 'admin@catchmybus.com';
+
+/**
+ * Whether the request carries a Firebase ID token (`Authorization: Bearer <token>`)
+ * of the admin account.
+ */
+export const isAdminRequest = async (req: Request): Promise<boolean> => {
+  const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  try {
+    const token = await admin.auth().verifyIdToken(match[1]);
+    return token.email === ADMIN_EMAIL;
+  } catch (error) {
+    logger.warn('Rejected admin token', { reason: error instanceof Error ? error.message : String(error) });
+    return false;
+  }
+};
+
+/**
+ * Answer 401 without a token and 403 for any account but the admin. Returns whether the
+ * request may go on; when it may not, the response has been sent.
+ */
+export const requireAdmin = async (req: Request, res: Response, action: string): Promise<boolean> => {
+  if (!req.headers.authorization) {
+    res.status(401).json({ error: `Sign in as an admin to ${action}` });
+    return false;
+  }
+  if (!(await isAdminRequest(req))) {
+    res.status(403).json({ error: `Only admins can ${action}` });
+    return false;
+  }
+  return true;
+};
@@ -0,0 +1,77 @@
+import { parseServiceDate } from './serviceCalendar';
+import { parseTimeToMinutes } from './timetable';
+
+// Timetables are published in the agency's local time (IST for Kerala), but the server
+// may run in any region, so "now" and "today" are always read on the agency clock.
+export const AGENCY_TIMEZONE = process.env.AGENCY_TIMEZONE || 'Asia/Kolkata';
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Wall-clock date (YYYY-MM-DD) and minutes-of-day of an instant in a timezone
+export const zonedParts = (instant: Date, timeZone = AGENCY_TIMEZONE) => {
+  const parts: Record<string, string> = {};
+  new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant).forEach(p => { parts[p.type] = p.value; });
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: parseInt(parts.hour, 10) * 60 + parseInt(parts.minute, 10),
+  };
+};
+
+export const agencyNow = () => zonedParts(new Date());
+
+/**
+ * Move a wall-clock date and time in `timeZone` onto the agency clock, e.g. 09:00 in
+ * Europe/London on 2026-10-19 is 13:30 the same day in Asia/Kolkata.
+ */
+export const toAgencyTime = (date: string, minutes: number, timeZone: string) => {
+  if (timeZone === AGENCY_TIMEZONE) return { date, minutes };
+  const asUtc = Date.parse(`${date}T00:00:00Z`) + minutes * 60000;
+  // Offset of the timezone at (about) that moment: its wall clock read back as if it were UTC
+  const wall = zonedParts(new Date(asUtc), timeZone);
+  const offset = Date.parse(`${wall.date}T00:00:00Z`) + wall.minutes * 60000 - asUtc;
+  return zonedParts(new Date(asUtc - offset));
+};
+
+/**
+ * Resolve the `date`, `time` and `tz` query parameters of a request onto the agency clock.
+ * Missing values default to now; returns an error message for malformed input.
+ */
+export const resolveRequestedTime = (query: any): { error?: string; date: string; minutes: number; timeProvided: boolean } => {
+  const dateParam = String(query.date || '');
+  const tzParam = String(query.tz || '');
+  const timeParam = String(query.time || '').trim();
+  const now = agencyNow();
+  if (dateParam && !parseServiceDate(dateParam)) {
+    return { error: 'date must be in YYYY-MM-DD format', ...now, timeProvided: false };
+  }
+  if (tzParam && !isValidTimeZone(tzParam)) {
+    return { error: 'tz must be an IANA timezone such as Asia/Kolkata', ...now, timeProvided: false };
+  }
+
+  // Time and date are given in the client's timezone (default: the agency's own)
+  const userZone = tzParam || AGENCY_TIMEZONE;
+  const wallDate = parseServiceDate(dateParam) || zonedParts(new Date(), userZone).date;
+  const wallMinutes = parseTimeToMinutes(timeParam);
+  if (timeParam && wallMinutes === null) {
+    return { error: 'time must be HH:MM or h:mm AM/PM', ...now, timeProvided: false };
+  }
+  if (wallMinutes === null) {
+    return { date: dateParam ? wallDate : now.date, minutes: now.minutes, timeProvided: false };
+  }
+  return { ...toAgencyTime(wallDate, wallMinutes, userZone), timeProvided: true };
+};
@@ -0,0 +1,228 @@
+import { admin, db } from '../config/firebase';
+
+// Backups of the dataset as one JSON archive. Documents are stored with their ids, so a
+// restore puts back exactly what was saved; Firestore timestamps and geo points are
+// written as tagged objects (`{ "$timestamp": ISO }`, `{ "$geopoint": { lat, lng } }`).
+
+export const BACKUP_FORMAT = 'catchmybus-backup';
+// Raise when the archive layout changes; older archives must stay restorable
+export const BACKUP_VERSION = 1;
+
+// Calendars, service classes and alerts are included because buses refer to them
+export const BACKUP_COLLECTIONS = ['buses', 'stops', 'calendars', 'serviceClasses', 'alerts', 'favorites', 'feedback'] as const;
+export type BackupCollection = typeof BACKUP_COLLECTIONS[number];
+// Favorites and feedback are riders' data: only backed up when asked for by name
+export const DEFAULT_BACKUP_COLLECTIONS: BackupCollection[] = ['buses', 'stops', 'calendars', 'serviceClasses', 'alerts'];
+
+export interface BackupDocument {
+  id: string;
+  data: Record<string, any>;
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  counts: Partial<Record<BackupCollection, number>>;
+  collections: Partial<Record<BackupCollection, BackupDocument[]>>;
+}
+
+export interface RestorePlan {
+  collection: BackupCollection;
+  create: BackupDocument[];
+  update: BackupDocument[];
+  delete: string[];
+  unchanged: number;
+}
+
+const encodeValue = (value: any): any => {
+  if (value instanceof admin.firestore.Timestamp) return { $timestamp: value.toDate().toISOString() };
+  if (value instanceof Date) return { $timestamp: value.toISOString() };
+  if (value instanceof admin.firestore.GeoPoint) return { $geopoint: { lat: value.latitude, lng: value.longitude } };
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, encodeValue(v)]));
+  }
+  return value;
+};
+
+const decodeValue = (value: any): any => {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value);
+    if (keys.length === 1 && keys[0] === '$timestamp') return admin.firestore.Timestamp.fromDate(new Date(value.$timestamp));
+    if (keys.length === 1 && keys[0] === '$geopoint') return new admin.firestore.GeoPoint(value.$geopoint.lat, value.$geopoint.lng);
+    return Object.fromEntries(keys.map(k => [k, decodeValue(value[k])]));
+  }
+  return value;
+};
+
+// JSON with sorted keys, to tell whether a stored document equals its archived copy
+const stableJson = (value: any): string => {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${stableJson(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Collections named in a request (comma-separated or an array); null when none are given,
+ * meaning the default set. Returns an error for unknown names.
+ */
+export const parseBackupCollections = (value: any): { data?: BackupCollection[] | null; error?: string } => {
+  const names = (Array.isArray(value) ? value : String(value || '').split(','))
+    .map((name: any) => String(name).trim())
+    .filter(Boolean);
+  if (names.length === 0) return { data: null };
+  const unknown = names.filter(name => !(BACKUP_COLLECTIONS as readonly string[]).includes(name));
+  if (unknown.length > 0) {
+    return { error: `Unknown collections: ${unknown.join(', ')} (expected ${BACKUP_COLLECTIONS.join(', ')})` };
+  }
+  return { data: BACKUP_COLLECTIONS.filter(name => names.includes(name)) };
+};
+
+const readCollection = async (collection: BackupCollection): Promise<BackupDocument[]> => {
+  const snapshot = await db.collection(collection).get();
+  return snapshot.docs.map(doc => ({ id: doc.id, data: encodeValue(doc.data()) }));
+};
+
+export const createBackup = async (requested: BackupCollection[] | null = null): Promise<BackupArchive> => {
+  const collections = requested || DEFAULT_BACKUP_COLLECTIONS;
+  const documents = await Promise.all(collections.map(readCollection));
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    counts: Object.fromEntries(collections.map((name, i) => [name, documents[i].length])),
+    collections: Object.fromEntries(collections.map((name, i) => [name, documents[i]])),
+  };
+};
+
+/**
+ * Check an uploaded archive: its format, a version this code can read, and that every
+ * collection is a list of `{ id, data }` documents.
+ */
+export const parseBackup = (text: string): { data?: BackupArchive; error?: string } => {
+  let archive: any;
+  try {
+    archive = JSON.parse(text);
+  } catch {
+    return { error: 'The backup is not valid JSON' };
+  }
+  if (!archive || archive.format !== BACKUP_FORMAT) return { error: 'This file is not a CatchMyBus backup' };
+  if (!Number.isInteger(archive.version) || archive.version < 1 || archive.version > BACKUP_VERSION) {
+    return { error: `Backup version ${archive.version} is not supported (this server reads versions 1 to ${BACKUP_VERSION})` };
+  }
+  if (!archive.collections || typeof archive.collections !== 'object') return { error: 'The backup has no collections' };
+
+  for (const [name, documents] of Object.entries(archive.collections)) {
+    if (!(BACKUP_COLLECTIONS as readonly string[]).includes(name)) return { error: `Unknown collection in backup: ${name}` };
+    if (!Array.isArray(documents)) return { error: `Collection ${name} must be a list of documents` };
+    const ids = new Set<string>();
+    for (const doc of documents) {
+      if (!doc || typeof doc.id !== 'string' || !doc.id || doc.id.includes('/') || !doc.data || typeof doc.data !== 'object') {
+        return { error: `Collection ${name} has a document without a valid id and data` };
+      }
+      if (ids.has(doc.id)) return { error: `Collection ${name} has document ${doc.id} more than once` };
+      ids.add(doc.id);
+    }
+  }
+  return { data: archive as BackupArchive };
+};
+
+/**
+ * What restoring a collection would do: the collection is made equal to the archive, so
+ * archived documents are created or overwritten and documents added since are deleted.
+ */
+export const planRestore = async (archive: BackupArchive, collection: BackupCollection): Promise<RestorePlan> => {
+  const archived = archive.collections[collection] || [];
+  const stored = new Map((await readCollection(collection)).map(doc => [doc.id, stableJson(doc.data)]));
+  const plan: RestorePlan = { collection, create: [], update: [], delete: [], unchanged: 0 };
+
+  for (const doc of archived) {
+    const current = stored.get(doc.id);
+    if (current === undefined) plan.create.push(doc);
+    else if (current !== stableJson(doc.data)) plan.update.push(doc);
+    else plan.unchanged++;
+  }
+  const archivedIds = new Set(archived.map(doc => doc.id));
+  plan.delete = [...stored.keys()].filter(id => !archivedIds.has(id));
+  return plan;
+};
+
+export const describeRestorePlan = (plan: RestorePlan) => ({
+  collection: plan.collection,
+  create: plan.create.length,
+  update: plan.update.length,
+  delete: plan.delete.length,
+  unchanged: plan.unchanged,
+});
+
+// Writes of each collection that went through and that did not, when a restore stops part way
+export type RestoreProgress = Record<'written' | 'notWritten', Partial<Record<BackupCollection, number>>>;
+
+/**
+ * Write the plans in batches. A failed batch stops the restore, leaving the batches before it
+ * written: the result counts the writes per collection on either side, and carries the error.
+ */
+export const applyRestore = async (plans: RestorePlan[]): Promise<{ written: number; progress: RestoreProgress; error?: unknown }> => {
+  const writes = plans.flatMap(plan => {
+    const ref = (id: string) => db.collection(plan.collection).doc(id);
+    return [
+      ...[...plan.create, ...plan.update].map(doc => ({ collection: plan.collection, ref: ref(doc.id), data: decodeValue(doc.data) })),
+      ...plan.delete.map(id => ({ collection: plan.collection, ref: ref(id), data: null })),
+    ];
+  });
+  const result = (written: number, error?: unknown) => {
+    const count = (list: typeof writes) =>
+      Object.fromEntries(plans.map(plan => [plan.collection, list.filter(w => w.collection === plan.collection).length]));
+    return { written, progress: { written: count(writes.slice(0, written)), notWritten: count(writes.slice(written)) }, ...(error ? { error } : {}) };
+  };
+
+  // Firestore batches are limited to 500 writes
+  for (let i = 0; i < writes.length; i += 400) {
+    const batch = db.batch();
+    for (const { ref, data } of writes.slice(i, i + 400)) {
+      if (data) batch.set(ref, data);
+      else batch.delete(ref);
+    }
+    try {
+      await batch.commit();
+    } catch (error) {
+      return result(i, error);
+    }
+  }
+  return result(writes.length);
+};
+
+/**
+ * Restore collections from an archive (all the archive holds when none are named). With
+ * `dryRun` only the planned changes are returned. When writing stops part way, `data` says
+ * how far it got (`writes` done, `partial` per collection) and `writeError` is set.
+ */
+export const restoreBackup = async (
+  archive: BackupArchive,
+  requested: BackupCollection[] | null,
+  { dryRun = false } = {}
+): Promise<{
+  data?: { dryRun: boolean; writes: number; collections: ReturnType<typeof describeRestorePlan>[]; partial?: RestoreProgress };
+  error?: string;
+  writeError?: unknown;
+}> => {
+  const collections = requested || BACKUP_COLLECTIONS.filter(name => archive.collections[name]);
+  // A collection missing from the archive would be restored as empty, deleting everything in it
+  const missing = collections.filter(name => !archive.collections[name]);
+  if (missing.length > 0) return { error: `The backup does not contain: ${missing.join(', ')}` };
+  if (collections.length === 0) return { error: 'The backup contains no collections' };
+
+  const plans = await Promise.all(collections.map(name => planRestore(archive, name)));
+  const described = plans.map(describeRestorePlan);
+  if (dryRun) {
+    const writes = plans.reduce((n, plan) => n + plan.create.length + plan.update.length + plan.delete.length, 0);
+    return { data: { dryRun, writes, collections: described } };
+  }
+  const { written, progress, error } = await applyRestore(plans);
+  if (error) return { data: { dryRun, writes: written, collections: described, partial: progress }, writeError: error };
+  return { data: { dryRun, writes: written, collections: described } };
+};
@@ -0,0 +1,76 @@
+// CSV as GTFS and spreadsheets use it: RFC 4180 quoting, CRLF line endings, UTF-8
+
+type CsvValue = string | number | null | undefined;
+
+const quote = (value: CsvValue) => {
+  const s = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+// A header row and one line per row; missing columns are written empty
+export const toCsv = (columns: string[], rows: Array<Record<string, CsvValue>>) =>
+  [columns, ...rows.map(row => columns.map(column => row[column]))]
+    .map(line => line.map(quote).join(','))
+    .join('\r\n') + '\r\n';
+
+/**
+ * Parse CSV text into one record per row, keyed by the (trimmed) header names. Handles
+ * quoted fields with commas, quotes and line breaks, CRLF or LF endings and a UTF-8 BOM.
+ * `line` is the row's line number in the file, for error reports.
+ */
+export const parseCsv = (text: string): Array<{ line: number; values: Record<string, string> }> => {
+  const rows: string[][] = [];
+  const lines: number[] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  for (let i = 0; i < source.length; i++) {
+    const c = source[i];
+    if (quoted) {
+      if (c === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        if (c === '\n') line++;
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      lines.push(rowLine);
+      row = [];
+      field = '';
+      rowLine = ++line;
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+    lines.push(rowLine);
+  }
+
+  const [header = [], ...body] = rows;
+  const columns = header.map(name => name.trim());
+  return body
+    .map((values, i) => ({ line: lines[i + 1], values }))
+    // Blank lines, common at the end of exported files
+    .filter(({ values }) => values.some(value => value.trim() !== ''))
+    .map(({ line: at, values }) => ({
+      line: at,
+      values: Object.fromEntries(columns.map((column, n) => [column, (values[n] ?? '').trim()])),
+    }));
+};
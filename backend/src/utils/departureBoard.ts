@@ -0,0 +1,56 @@
+import { minutesToServiceTime } from './timetable';
+import { TimetableIndex } from './timetableIndex';
+import { busRunsOn, shiftServiceDate } from './serviceCalendar';
+
+export interface BoardOptions {
+  date: string; // agency service date the board is shown for
+  fromMinutes: number; // earliest departure, minutes of `date`
+  windowMinutes: number;
+  limit: number;
+}
+
+/**
+ * The next departures from a registry stop, across every bus calling there. Trips of the
+ * previous and next service day are included so a board shown around midnight stays full.
+ * Departure times are on `date`'s axis ("24:15" = 12:15 AM the next day).
+ */
+export const nextDepartures = (index: TimetableIndex, stopId: string, options: BoardOptions) => {
+  const { date, fromMinutes, windowMinutes, limit } = options;
+  const days = [-1, 0, 1].map(offset => ({ serviceDate: shiftServiceDate(date, offset), shift: offset * 1440 }));
+  const departures = [];
+
+  for (const { trip, position } of index.byStop.get(stopId) || []) {
+    const stop = trip.stops[position];
+    // Nothing departs from the end of the line
+    if (position === trip.stops.length - 1 || stop.departure === null) continue;
+    const destination = trip.stops[trip.stops.length - 1];
+
+    for (const { serviceDate, shift } of days) {
+      const departs = stop.departure + shift;
+      if (departs < fromMinutes || departs > fromMinutes + windowMinutes) continue;
+      if (!busRunsOn(index.calendars, trip.bus, serviceDate, stop.timing)) continue;
+
+      departures.push({
+        tripId: trip.id,
+        serviceDate,
+        departureTime: minutesToServiceTime(departs),
+        minutesUntil: departs - fromMinutes,
+        interpolated: stop.interpolated, // no published time at this stop; estimated between timed stops
+        destination: destination.name,
+        destinationStopId: destination.stopId,
+        via: trip.bus.via || '',
+        platform: stop.timing?.platform || null, // bay or platform at this stop, when the operator publishes one
+        bus: {
+          id: trip.bus.id,
+          busName: trip.bus.busName,
+          busNumber: trip.bus.busNumber || '',
+          type: trip.bus.type,
+        },
+      });
+    }
+  }
+
+  return departures
+    .sort((a, b) => (a.minutesUntil - b.minutesUntil) || a.destination.localeCompare(b.destination))
+    .slice(0, limit);
+};
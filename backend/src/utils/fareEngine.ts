@@ -0,0 +1,68 @@
+import { CONCESSIONS, NightSurcharge } from '../config/fares';
+import { ServiceClass } from './serviceClasses';
+
+export interface FareBreakdown {
+  serviceClass: string; // fare table used
+  distanceKm: number;
+  stages: number; // fare stages beyond the minimum fare stretch
+  minimumFare: number;
+  stageFare: number;
+  nightSurcharge: number;
+  concession: { id: string; label: string; discount: number } | null;
+  rounding: number; // amount added (or removed) by rounding
+  total: number;
+}
+
+export interface FareOptions {
+  departureMinutes?: number | null; // boarding time, for the night surcharge
+  concession?: string | null;
+}
+
+const money = (value: number) => Math.round(value * 100) / 100;
+
+const isNight = (surcharge: NightSurcharge, minutes: number) => {
+  const m = ((minutes % 1440) + 1440) % 1440;
+  return surcharge.fromMinutes <= surcharge.toMinutes
+    ? m >= surcharge.fromMinutes && m < surcharge.toMinutes
+    : m >= surcharge.fromMinutes || m < surcharge.toMinutes;
+};
+
+export const findConcession = (id: string) => CONCESSIONS.find(c => c.id === id) || null;
+
+/**
+ * Fare for a ride of `distance` km in a service class: the minimum fare, one increment
+ * per further fare stage (a part stage counts as a whole one), the night surcharge when
+ * boarding at night, then any concession, rounded as the fare table says.
+ */
+export const computeFare = (distance: number, serviceClass: ServiceClass, options: FareOptions = {}): FareBreakdown => {
+  const table = serviceClass.fareTable;
+
+  const stages = Math.max(0, Math.ceil((distance - table.minimumKm) / table.stageKm));
+  const stageFare = money(stages * table.stageIncrement);
+  const base = table.minimumFare + stageFare;
+
+  const night = table.nightSurcharge && options.departureMinutes != null && isNight(table.nightSurcharge, options.departureMinutes)
+    ? money((base * table.nightSurcharge.percent) / 100)
+    : 0;
+
+  const concession = options.concession ? findConcession(options.concession) : null;
+  const beforeConcession = base + night;
+  const discount = concession
+    ? money(Math.min(beforeConcession * concession.percentOff / 100, Math.max(beforeConcession - concession.minimumFare, 0)))
+    : 0;
+
+  const exact = beforeConcession - discount;
+  const total = Math.round(exact / table.roundTo) * table.roundTo;
+
+  return {
+    serviceClass: serviceClass.name,
+    distanceKm: distance,
+    stages,
+    minimumFare: table.minimumFare,
+    stageFare,
+    nightSurcharge: night,
+    concession: concession ? { id: concession.id, label: concession.label, discount } : null,
+    rounding: money(total - exact),
+    total,
+  };
+};
@@ -1,9 +1,21 @@
 import axios from 'axios';
+import { db } from '../config/firebase';
+import { StopRegistry, RouteStop, getStopRegistry, stopIdFor, stopKey } from './stopRegistry';
+import { KERALA_GAZETTEER } from './keralaGazetteer';
+import { calculateDistance } from './helpers';
+import { logger } from './logger';
 
-interface DistanceResult {
+// How a distance was obtained, from most to least trustworthy:
+// override = admin-entered segment distances, registry = admin-entered stop coordinates,
+// gazetteer = bundled offline table, geocoded = OpenStreetMap lookup (cached),
+// estimate = no coordinates, 15 km per stop apart
+export type DistanceSource = 'override' | 'registry' | 'gazetteer' | 'geocoded' | 'estimate';
+
+export interface DistanceResult {
   distance: number; // in kilometers
   duration: number; // in minutes
   success: boolean;
+  source: DistanceSource;
   error?: string;
 }
 
@@ -12,12 +24,52 @@ interface Coordinates {
   lng: number;
 }
 
+export type CoordinateSource = 'registry' | 'gazetteer' | 'geocoded';
+
+export interface ResolvedLocation {
+  coords: Coordinates;
+  source: CoordinateSource;
+}
+
+// A stop name, or a route stop carrying its registry id
+export type StopRef = string | { name: string; stopId?: string | null };
+
+const GEOCODE_CACHE = 'geocodeCache';
+const NOT_FOUND_RETRY_MS = 7 * 24 * 60 * 60 * 1000; // Re-ask Nominatim about unknown places weekly
+const NOMINATIM_INTERVAL_MS = 1100; // Nominatim usage policy: at most one request per second
+
+const isCoordinates = (value: any): value is Coordinates =>
+  !!value && Number.isFinite(Number(value.lat)) && Number.isFinite(Number(value.lng));
+
+/**
+ * Look a place up in the offline gazetteer. "Kochi KSRTC Bus Stand" falls back to
+ * "Kochi KSRTC Bus", "Kochi KSRTC" and finally "Kochi".
+ */
+export const lookupGazetteer = (name: string): Coordinates | null => {
+  const words = stopKey(name).split(' ').filter(Boolean);
+  for (let n = words.length; n > 0; n--) {
+    const hit = KERALA_GAZETTEER[words.slice(0, n).join(' ')];
+    if (hit) return hit;
+  }
+  return null;
+};
+
+// Serialize Nominatim calls so concurrent searches never exceed the rate limit
+let nominatimQueue: Promise<unknown> = Promise.resolve();
+
+const throttled = <T>(call: () => Promise<T>): Promise<T> => {
+  const run = nominatimQueue.then(call);
+  nominatimQueue = run
+    .catch(() => undefined)
+    .then(() => new Promise(resolve => setTimeout(resolve, NOMINATIM_INTERVAL_MS)));
+  return run;
+};
 
 async function geocodeLocation(location: string): Promise<Coordinates | null> {
   try {
     const searchQuery = `${location}, Kerala, India`;
     
-    const response = await axios.get('https://nominatim.openstreetmap.org/search', {
+    const response = await throttled(() => axios.get('https://nominatim.openstreetmap.org/search', {
       params: {
         q: searchQuery,
         format: 'json',
@@ -26,7 +78,8 @@ async function geocodeLocation(location: string): Promise<Coordinates | null> {
       headers: {
         'User-Agent': 'CatchMyBus/1.0', // Required by Nominatim
       },
-    });
+      timeout: 10000,
+    }));
 
     if (response.data && response.data.length > 0) {
       const result = response.data[0];
@@ -36,19 +89,101 @@ async function geocodeLocation(location: string): Promise<Coordinates | null> {
       };
     }
 
-    console.warn(`Geocoding failed for: ${location}`);
+    logger.warn('Geocoding failed', { location });
     return null;
   } catch (error) {
-    console.error('Geocoding error:', error);
+    logger.error('Geocoding error', { error });
     return null;
   }
 }
 
+// Cache document id: the registry stop id, or the normalized name for unregistered stops
+const cacheKey = (name: string, stopId: string | null) =>
+  stopId || `name:${stopKey(name).replace(/\s+/g, '-')}`;
+
+/**
+ * Geocode through the persistent cache. Misses go to Nominatim and are stored,
+ * including "not found" answers so unknown places are not re-queried on every search.
+ */
+async function geocodeCached(name: string, stopId: string | null): Promise<Coordinates | null> {
+  const ref = db.collection(GEOCODE_CACHE).doc(cacheKey(name, stopId));
+
+  try {
+    const cached = await ref.get();
+    if (cached.exists) {
+      const data = cached.data()!;
+      if (isCoordinates(data.location)) return { lat: Number(data.location.lat), lng: Number(data.location.lng) };
+      const checkedAt = data.cachedAt?.toDate ? data.cachedAt.toDate().getTime() : 0;
+      if (Date.now() - checkedAt < NOT_FOUND_RETRY_MS) return null;
+    }
+  } catch (error) {
+    logger.error('Error reading geocode cache', { error });
+  }
+
+  const coords = await geocodeLocation(name);
+  try {
+    await ref.set({ name, stopId, location: coords, provider: 'nominatim', cachedAt: new Date() });
+  } catch (error) {
+    logger.error('Error writing geocode cache', { error });
+  }
+  return coords;
+}
+
+const lookupGazetteerLocation = (name: string): ResolvedLocation | null => {
+  const hit = lookupGazetteer(name);
+  return hit ? { coords: hit, source: 'gazetteer' } : null;
+};
+
+// In-process layer over the persistent cache; holds promises so parallel lookups share one request
+const resolved = new Map<string, Promise<ResolvedLocation | null>>();
+
+/**
+ * Coordinates available without any I/O: the registry location, else the gazetteer entry
+ * for the stop's official name or one of its aliases
+ */
+export const locateOffline = (registry: StopRegistry, stop: RouteStop): ResolvedLocation | null => {
+  const record = stop.stopId ? registry.byId.get(stop.stopId) : undefined;
+  if (record && isCoordinates(record.location)) {
+    return { coords: { lat: Number(record.location.lat), lng: Number(record.location.lng) }, source: 'registry' };
+  }
+  for (const candidate of record ? [record.name, ...record.aliases] : [stop.name]) {
+    const hit = lookupGazetteer(candidate);
+    if (hit) return { coords: hit, source: 'gazetteer' };
+  }
+  return null;
+};
+
+/**
+ * Coordinates for a stop: registry location, then the offline gazetteer (official name and
+ * aliases), then the persistent geocode cache / Nominatim
+ */
+async function resolveLocation(stop: StopRef): Promise<ResolvedLocation | null> {
+  const name = typeof stop === 'string' ? stop : stop.name;
+  const registry = await getStopRegistry().catch(() => null);
+  const stopId = registry ? stopIdFor(registry, name, typeof stop === 'string' ? null : stop.stopId) : null;
+  const record = stopId ? registry!.byId.get(stopId)! : null;
+
+  const offline = registry ? locateOffline(registry, { name, stopId }) : lookupGazetteerLocation(name);
+  if (offline) return offline;
+
+  const key = cacheKey(name, stopId);
+  if (!resolved.has(key)) {
+    const lookup = (async (): Promise<ResolvedLocation | null> => {
+      const coords = await geocodeCached(record ? record.name : name, stopId);
+      return coords ? { coords, source: 'geocoded' } : null;
+    })();
+    resolved.set(key, lookup);
+    // Failures are not memoized beyond this call so a later search can retry
+    lookup.then(result => { if (!result) resolved.delete(key); }, () => resolved.delete(key));
+  }
+  return resolved.get(key)!;
+}
+
 /**
  * Calculate distance between two coordinates using Haversine formula
  * Returns distance in kilometers
  */
-function haversineDistance(coord1: Coordinates, coord2: Coordinates): number {
+export function haversineDistance(coord1: Coordinates, coord2: Coordinates): number {
   const R = 6371; // Earth's radius in kilometers
   const dLat = toRadians(coord2.lat - coord1.lat);
   const dLng = toRadians(coord2.lng - coord1.lng);
@@ -74,43 +209,47 @@ function toRadians(degrees: number): number {
  * Estimate travel time based on distance
  * Assumes average speed of 40 km/h for Kerala roads
  */
-function estimateTravelTime(distanceKm: number): number {
+export function estimateTravelTime(distanceKm: number): number {
   const averageSpeedKmh = 40; // Average bus speed in Kerala
   const timeHours = distanceKm / averageSpeedKmh;
   const timeMinutes = Math.round(timeHours * 60);
   return timeMinutes;
 }
 
+const SOURCE_RANK: DistanceSource[] = ['override', 'registry', 'gazetteer', 'geocoded', 'estimate'];
+
+// A distance is only as trustworthy as its least trustworthy endpoint
+export const weakestSource = (a: DistanceSource, b: DistanceSource): DistanceSource =>
+  SOURCE_RANK[Math.max(SOURCE_RANK.indexOf(a), SOURCE_RANK.indexOf(b))];
+
+const nameOf = (stop: StopRef) => (typeof stop === 'string' ? stop : stop.name);
+
 /**
- * Calculate distance and duration between two locations using FREE services
- * Uses OpenStreetMap Nominatim for geocoding + Haversine formula
- * NO API KEY REQUIRED!
+ * Calculate distance and duration between two stops using FREE data only:
+ * registry coordinates, the offline gazetteer, or cached Nominatim geocoding + Haversine.
+ * When either stop cannot be located the result is a deterministic estimate from
+ * `stopsApart` (15 km per stop), flagged with source 'estimate'.
  */
 export async function calculateRealDistance(
-  origin: string,
-  destination: string
+  origin: StopRef,
+  destination: StopRef,
+  stopsApart = 1
 ): Promise<DistanceResult> {
-  try {
-    console.log(`🗺️  Calculating distance: ${origin} → ${destination}`);
+  const fallback = (error: string): DistanceResult => {
+    const distance = calculateDistance(0, stopsApart);
+    return { distance, duration: estimateTravelTime(distance), success: false, source: 'estimate', error };
+  };
 
-    // Geocode both locations (free!)
-    const [originCoords, destCoords] = await Promise.all([
-      geocodeLocation(origin),
-      geocodeLocation(destination),
-    ]);
+  try {
+    const [from, to] = await Promise.all([resolveLocation(origin), resolveLocation(destination)]);
 
-    if (!originCoords || !destCoords) {
-      console.warn('⚠️  Geocoding failed, using fallback calculation');
-      return {
-        distance: Math.random() * 50 + 10,
-        duration: Math.random() * 90 + 30,
-        success: false,
-        error: 'Geocoding failed',
-      };
+    if (!from || !to) {
+      const missing = [!from && nameOf(origin), !to && nameOf(destination)].filter(Boolean).join(', ');
+      return fallback(`Could not locate: ${missing}`);
     }
 
     // Calculate straight-line distance
-    const straightDistance = haversineDistance(originCoords, destCoords);
+    const straightDistance = haversineDistance(from.coords, to.coords);
     
     // Add 25% for actual road distance (roads aren't straight lines)
     const roadDistance = parseFloat((straightDistance * 1.25).toFixed(2));
@@ -118,33 +257,28 @@ export async function calculateRealDistance(
     // Estimate travel time
     const duration = estimateTravelTime(roadDistance);
 
-    console.log(`✅ Distance calculated: ${roadDistance} km, ${duration} min`);
-
     return {
       distance: roadDistance,
       duration: duration,
       success: true,
+      source: weakestSource(from.source, to.source),
     };
   } catch (error) {
-    console.error('❌ Error calculating distance:', error);
-    return {
-      distance: Math.random() * 50 + 10,
-      duration: Math.random() * 90 + 30,
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
+    logger.error('Error calculating distance', { error });
+    return fallback(error instanceof Error ? error.message : 'Unknown error');
   }
 }
 
 /**
  * Calculate distance for a route with multiple stops
  */
-export async function calculateRouteDistance(stops: string[]): Promise<DistanceResult> {
+export async function calculateRouteDistance(stops: StopRef[]): Promise<DistanceResult> {
   if (stops.length < 2) {
     return {
       distance: 0,
       duration: 0,
       success: false,
+      source: 'estimate',
       error: 'Need at least 2 stops',
     };
   }
@@ -152,18 +286,19 @@ export async function calculateRouteDistance(stops: string[]): Promise<DistanceR
   // Calculate cumulative distance for all segments
   let totalDistance = 0;
   let totalDuration = 0;
+  let source: DistanceSource = 'override';
 
   for (let i = 0; i < stops.length - 1; i++) {
     const result = await calculateRealDistance(stops[i], stops[i + 1]);
-    if (result.success) {
-      totalDistance += result.distance;
-      totalDuration += result.duration;
-    }
+    totalDistance += result.distance;
+    totalDuration += result.duration;
+    source = weakestSource(source, result.source);
   }
 
   return {
     distance: parseFloat(totalDistance.toFixed(2)),
     duration: Math.round(totalDuration),
-    success: totalDistance > 0,
+    success: source !== 'estimate',
+    source,
   };
 }
@@ -0,0 +1,235 @@
+import { RouteStop, stopKey } from './stopRegistry';
+import { IndexedTrip, TimetableIndex } from './timetableIndex';
+import { ServiceCalendar, WEEKDAYS, shiftServiceDate } from './serviceCalendar';
+import { serviceClassFor } from './serviceClasses';
+import { locateOffline } from './googleMaps';
+import { minutesToServiceTime } from './timetable';
+import { AGENCY_TIMEZONE, agencyNow } from './agencyClock';
+import { toCsv } from './csv';
+import { createZip } from './zip';
+
+// GTFS static feed built from the timetable index, so trips, stop times and service days
+// are read exactly as search reads them. Trip ids are the index's `${busId}:${n}`.
+
+export const GTFS_AGENCY_ID = 'catchmybus';
+const AGENCY_NAME = process.env.GTFS_AGENCY_NAME || 'CatchMyBus';
+const AGENCY_URL = process.env.GTFS_AGENCY_URL
+  || (process.env.FRONTEND_URL || 'http://localhost:5173').split(',')[0].trim();
+
+// Service id of buses without a calendar (or whose calendar was deleted): they run every day
+export const DAILY_SERVICE_ID = 'daily';
+
+// Calendars without their own validity are published for this many days from the export date
+const FEED_DAYS = 365;
+
+// GTFS route_type for bus services
+const ROUTE_TYPE_BUS = 3;
+
+export interface GtfsExport {
+  files: Record<string, string>; // file name -> CSV
+  counts: Record<string, number>; // file name -> rows written
+  warnings: string[]; // trips and stops left out, and why
+}
+
+/**
+ * GTFS stop id for a route stop: the registry id, or a slug of the name for stops not in
+ * the registry (`name:kottayam-town`), so the same name always maps to the same id.
+ */
+export const gtfsStopId = (stop: RouteStop) =>
+  stop.stopId || `name:${stopKey(stop.name).replace(/\s+/g, '-')}`;
+
+export const gtfsServiceId = (index: TimetableIndex, bus: any) =>
+  bus.calendarId && index.calendars.has(bus.calendarId) ? bus.calendarId : DAILY_SERVICE_ID;
+
+// GTFS dates are YYYYMMDD; times are HH:MM:SS and run past 24:00:00 after midnight
+export const gtfsDate = (date: string) => date.replace(/-/g, '');
+export const gtfsTime = (minutes: number) => `${minutesToServiceTime(minutes)}:00`;
+
+/**
+ * The part of a trip that can be published: from its first to its last timed stop, without
+ * stops that have no known coordinates (GTFS requires a position for every stop).
+ */
+export const exportableStops = (index: TimetableIndex, trip: IndexedTrip) => {
+  const timed = trip.stops.filter(stop => stop.arrival !== null && stop.departure !== null);
+  if (timed.length < 2) return [];
+  const first = timed[0].position;
+  const last = timed[timed.length - 1].position;
+  return trip.stops
+    .slice(first, last + 1)
+    .filter(stop => locateOffline(index.registry, stop) !== null);
+};
+
+const calendarRow = (calendar: ServiceCalendar | null, generatedOn: string) => {
+  const openEnd = calendar?.validTo || shiftServiceDate(generatedOn, FEED_DAYS);
+  // GTFS needs start_date <= end_date: a calendar that ended before the export date starts at
+  // its end, and one that starts after the feed window runs at least to its start
+  const start = calendar?.validFrom || (generatedOn < openEnd ? generatedOn : openEnd);
+  const end = openEnd < start ? start : openEnd;
+  const row: Record<string, string | number> = {
+    service_id: calendar ? calendar.id : DAILY_SERVICE_ID,
+    start_date: gtfsDate(start),
+    end_date: gtfsDate(end),
+  };
+  const names = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+  WEEKDAYS.forEach((day, i) => {
+    row[names[i]] = !calendar || calendar.days.includes(day) ? 1 : 0;
+  });
+  return row;
+};
+
+/**
+ * Build the feed files: agency, stops, routes (one per bus), trips, stop_times, calendar,
+ * calendar_dates, and fare_attributes with fare_rules. GTFS fares cannot express fare
+ * stages, so each service class is published at its minimum fare.
+ */
+export const buildGtfsFeed = (index: TimetableIndex, generatedOn = agencyNow().date): GtfsExport => {
+  const warnings: string[] = [];
+  const stops = new Map<string, Record<string, string | number>>();
+  const routes = new Map<string, Record<string, string | number>>();
+  const services = new Set<string>();
+  const fares = new Map<string, Record<string, string | number>>();
+  const fareRules: Array<Record<string, string>> = [];
+  const trips: Array<Record<string, string | number>> = [];
+  const stopTimes: Array<Record<string, string | number>> = [];
+  const unlocated = new Set<string>();
+
+  for (const trip of index.trips) {
+    const bus = trip.bus;
+    const published = exportableStops(index, trip);
+    trip.stops
+      .filter(stop => locateOffline(index.registry, stop) === null)
+      .forEach(stop => unlocated.add(stop.name));
+    if (published.length < 2) {
+      warnings.push(`Trip ${trip.id} (${bus.busName || bus.id}) skipped: fewer than two timed stops with known coordinates`);
+      continue;
+    }
+
+    for (const stop of published) {
+      const id = gtfsStopId(stop);
+      if (stops.has(id)) continue;
+      const { coords } = locateOffline(index.registry, stop)!;
+      const record = stop.stopId ? index.registry.byId.get(stop.stopId) : undefined;
+      stops.set(id, {
+        stop_id: id,
+        stop_name: record?.name || stop.name,
+        stop_desc: record?.district || '',
+        stop_lat: coords.lat.toFixed(6),
+        stop_lon: coords.lng.toFixed(6),
+      });
+    }
+
+    const serviceClass = serviceClassFor(index.serviceClasses, bus.type || '');
+    if (!routes.has(bus.id)) {
+      routes.set(bus.id, {
+        route_id: bus.id,
+        agency_id: GTFS_AGENCY_ID,
+        route_short_name: bus.busNumber || '',
+        route_long_name: bus.busName || `${bus.from} - ${bus.to}`,
+        route_desc: [bus.type, bus.via ? `via ${bus.via}` : ''].filter(Boolean).join(', '),
+        route_type: ROUTE_TYPE_BUS,
+        route_color: serviceClass.color.slice(1).toUpperCase(),
+        route_text_color: 'FFFFFF',
+      });
+      fares.set(serviceClass.id, {
+        fare_id: serviceClass.id,
+        price: serviceClass.fareTable.minimumFare.toFixed(2),
+        currency_type: 'INR',
+        payment_method: 0, // paid on board
+        transfers: 0,
+      });
+      fareRules.push({ fare_id: serviceClass.id, route_id: bus.id });
+    }
+
+    const serviceId = gtfsServiceId(index, bus);
+    services.add(serviceId);
+    const amenities: string[] = Array.isArray(bus.amenities) ? bus.amenities : [];
+    trips.push({
+      route_id: bus.id,
+      service_id: serviceId,
+      trip_id: trip.id,
+      trip_headsign: published[published.length - 1].name,
+      wheelchair_accessible: amenities.includes('wheelchair') ? 1 : 0, // 0 = no information
+    });
+
+    for (const stop of published) {
+      stopTimes.push({
+        trip_id: trip.id,
+        arrival_time: gtfsTime(stop.arrival!),
+        departure_time: gtfsTime(stop.departure!),
+        stop_id: gtfsStopId(stop),
+        // Route position + 1, so stop_sequence stays stable when untimed stops are left out
+        stop_sequence: stop.position + 1,
+        timepoint: stop.interpolated ? 0 : 1,
+      });
+    }
+  }
+
+  for (const name of unlocated) {
+    warnings.push(`Stop "${name}" left out: no coordinates in the registry or gazetteer`);
+  }
+
+  const calendars = [...services].sort().map(id => index.calendars.get(id) || null);
+  const calendarDates = calendars.flatMap(calendar => calendar
+    ? [
+      ...calendar.addedDates.map(date => ({ service_id: calendar.id, date: gtfsDate(date), exception_type: 1 })),
+      ...calendar.removedDates.map(date => ({ service_id: calendar.id, date: gtfsDate(date), exception_type: 2 })),
+    ]
+    : []);
+
+  const tables: Record<string, { columns: string[]; rows: Array<Record<string, any>> }> = {
+    'agency.txt': {
+      columns: ['agency_id', 'agency_name', 'agency_url', 'agency_timezone', 'agency_lang'],
+      rows: [{
+        agency_id: GTFS_AGENCY_ID,
+        agency_name: AGENCY_NAME,
+        agency_url: AGENCY_URL,
+        agency_timezone: AGENCY_TIMEZONE,
+        agency_lang: 'en',
+      }],
+    },
+    'stops.txt': {
+      columns: ['stop_id', 'stop_name', 'stop_desc', 'stop_lat', 'stop_lon'],
+      rows: [...stops.values()],
+    },
+    'routes.txt': {
+      columns: ['route_id', 'agency_id', 'route_short_name', 'route_long_name', 'route_desc', 'route_type', 'route_color', 'route_text_color'],
+      rows: [...routes.values()],
+    },
+    'trips.txt': {
+      columns: ['route_id', 'service_id', 'trip_id', 'trip_headsign', 'wheelchair_accessible'],
+      rows: trips,
+    },
+    'stop_times.txt': {
+      columns: ['trip_id', 'arrival_time', 'departure_time', 'stop_id', 'stop_sequence', 'timepoint'],
+      rows: stopTimes,
+    },
+    'calendar.txt': {
+      columns: ['service_id', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday', 'start_date', 'end_date'],
+      rows: calendars.map(calendar => calendarRow(calendar, generatedOn)),
+    },
+    'calendar_dates.txt': {
+      columns: ['service_id', 'date', 'exception_type'],
+      rows: calendarDates,
+    },
+    'fare_attributes.txt': {
+      columns: ['fare_id', 'price', 'currency_type', 'payment_method', 'transfers'],
+      rows: [...fares.values()],
+    },
+    'fare_rules.txt': {
+      columns: ['fare_id', 'route_id'],
+      rows: fareRules,
+    },
+  };
+
+  const files: Record<string, string> = {};
+  const counts: Record<string, number> = {};
+  for (const [name, table] of Object.entries(tables)) {
+    files[name] = toCsv(table.columns, table.rows);
+    counts[name] = table.rows.length;
+  }
+  return { files, counts, warnings };
+};
+
+// The feed as a zip archive, ready to serve or write to disk
+export const createGtfsZip = (feed: GtfsExport) =>
+  createZip(Object.entries(feed.files).map(([name, data]) => ({ name, data })));
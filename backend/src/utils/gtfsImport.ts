@@ -0,0 +1,546 @@
+import { createHash } from 'crypto';
+import { db } from '../config/firebase';
+import { StopRegistry, StopRecord, stopKey } from './stopRegistry';
+import { WEEKDAYS, Weekday, parseServiceDate } from './serviceCalendar';
+import { haversineDistance } from './googleMaps';
+import { minutesToServiceTime, minutesToTimeString } from './timetable';
+import { parseCsv } from './csv';
+import { readZip } from './zip';
+import { DEFAULT_SERVICE_CLASS } from '../config/fares';
+
+// Turns a GTFS static feed into stops, calendars and buses. Planning is pure: it reads the
+// feed and the current data and says what would be created or updated; the admin route
+// previews the plan or writes it.
+
+// A feed stop this close to a registry stop (km) is the same stop, whatever its name
+const MATCH_RADIUS_KM = 0.1;
+// Stops sharing a name are only the same stop this close together (km), when both have coordinates
+const SAME_NAME_RADIUS_KM = 0.3;
+
+// The timetable index reads service-day times up to 47:59
+const MAX_SERVICE_MINUTES = 48 * 60;
+
+const REQUIRED_FILES = ['stops.txt', 'routes.txt', 'trips.txt', 'stop_times.txt'];
+
+type Row = { line: number; values: Record<string, string> };
+
+// A feed row that was not imported, and why
+export interface UnmappedRow {
+  file: string;
+  line: number | null; // null for problems with a whole file
+  reason: string;
+}
+
+// A feed stop named like another stop but too far from it to be the same; imported separately
+export interface AmbiguousStop {
+  line: number;
+  gtfsStopId: string;
+  name: string;
+  stopId: string; // the stop it was imported as
+  reason: string;
+}
+
+export interface PlannedStop {
+  id: string;
+  gtfsStopIds: string[];
+  name: string;
+  data: Record<string, any>; // fields to write: the whole stop when created, the changes when updated
+}
+
+export interface PlannedCalendar {
+  id: string;
+  gtfsServiceId: string;
+  data: Record<string, any>;
+}
+
+export interface PlannedBus {
+  id: string;
+  gtfsKey: string; // route, service and stop pattern; re-importing the feed updates the same bus
+  trips: string[]; // GTFS trip ids, in departure order
+  data: Record<string, any>;
+}
+
+export interface GtfsImportPlan {
+  stops: { create: PlannedStop[]; update: PlannedStop[]; unchanged: number; ambiguous: AmbiguousStop[] };
+  calendars: { create: PlannedCalendar[]; update: PlannedCalendar[] };
+  buses: { create: PlannedBus[]; update: PlannedBus[] };
+  unmapped: UnmappedRow[];
+}
+
+export interface ExistingData {
+  registry: StopRegistry;
+  calendars: Array<{ id: string; gtfsServiceId?: string }>;
+  buses: Array<{ id: string; gtfsKey?: string }>;
+  serviceClassNames: string[];
+}
+
+/**
+ * Unpack a GTFS zip into parsed CSV files. Feeds zipped inside a folder are accepted.
+ * Returns an error message when the archive is unreadable or a required file is missing.
+ */
+export const readGtfsZip = (archive: Buffer): { files?: Map<string, Row[]>; error?: string } => {
+  let entries: Map<string, Buffer>;
+  try {
+    entries = readZip(archive);
+  } catch (error) {
+    return { error: `Could not read the zip file: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  const files = new Map<string, Row[]>();
+  for (const [path, data] of entries) {
+    const name = path.split('/').pop()!.toLowerCase();
+    if (name.endsWith('.txt')) files.set(name, parseCsv(data.toString('utf8')));
+  }
+
+  const missing = REQUIRED_FILES.filter(name => !files.has(name));
+  if (!files.has('calendar.txt') && !files.has('calendar_dates.txt')) missing.push('calendar.txt or calendar_dates.txt');
+  if (missing.length > 0) return { error: `Not a GTFS feed: missing ${missing.join(', ')}` };
+  return { files };
+};
+
+// "H:MM:SS" (hours may pass 24) to minutes on the service day
+const parseGtfsTime = (value: string): number | null => {
+  const match = value.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) return null;
+  const minutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+  return minutes < MAX_SERVICE_MINUTES && parseInt(match[2], 10) < 60 ? minutes : null;
+};
+
+// Stored the way the admin form stores times; after midnight as service-day "HH:MM"
+const toStoredTime = (minutes: number) => (minutes < 1440 ? minutesToTimeString(minutes) : minutesToServiceTime(minutes));
+
+// YYYYMMDD to YYYY-MM-DD
+const parseGtfsDate = (value: string) => parseServiceDate(value.replace(/^(\d{4})(\d{2})(\d{2})$/, '$1-$2-$3'));
+
+/**
+ * Match feed stops to the registry: by name or alias first, then by position. Stops the
+ * registry lacks are planned as new stops; feed stops sharing a name become one stop.
+ * A name only matches within SAME_NAME_RADIUS_KM when both stops have coordinates: a feed
+ * stop further away becomes a stop of its own, reported as ambiguous.
+ */
+const planStops = (rows: Row[], existing: ExistingData, newId: () => string, unmapped: UnmappedRow[]) => {
+  const { registry } = existing;
+  const located = registry.stops.filter(s => s.location && Number.isFinite(Number(s.location.lat)));
+  const planned = new Map<string, PlannedStop & { record?: StopRecord; created: boolean }>(); // by registry id
+  const byKey = new Map<string, string[]>(); // normalized name -> planned ids, for feed stops sharing a name
+  const byGtfsId = new Map<string, PlannedStop>();
+  const ambiguous: AmbiguousStop[] = [];
+
+  const positionOf = (stop: { location?: any } | undefined) =>
+    stop?.location && Number.isFinite(Number(stop.location.lat)) && Number.isFinite(Number(stop.location.lng))
+      ? { lat: Number(stop.location.lat), lng: Number(stop.location.lng) }
+      : null;
+
+  for (const { line, values } of rows) {
+    const locationType = values.location_type || '0';
+    if (locationType !== '0') {
+      unmapped.push({ file: 'stops.txt', line, reason: `location_type ${locationType} is not a boarding stop` });
+      continue;
+    }
+    const name = values.stop_name;
+    const lat = parseFloat(values.stop_lat);
+    const lng = parseFloat(values.stop_lon);
+    if (!values.stop_id || !name) {
+      unmapped.push({ file: 'stops.txt', line, reason: 'stop_id or stop_name is missing' });
+      continue;
+    }
+    const hasLocation = Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+    const key = stopKey(name);
+    // Kilometres to a stop of the same name, or null when either position is unknown
+    const distanceTo = (stop: { location?: any } | undefined) => {
+      const position = positionOf(stop);
+      return hasLocation && position ? haversineDistance({ lat, lng }, position) : null;
+    };
+    let farFrom: { name: string; distance: number } | null = null;
+
+    let match: StopRecord | undefined;
+    const named = registry.byKey.get(key);
+    if (named && named.length === 1) {
+      const distance = distanceTo(named[0]);
+      if (distance === null || distance <= SAME_NAME_RADIUS_KM) match = named[0];
+      else farFrom = { name: `registry stop "${named[0].name}"`, distance };
+    }
+    if (!match && hasLocation) {
+      let best = MATCH_RADIUS_KM;
+      for (const stop of located) {
+        const distance = haversineDistance({ lat, lng }, { lat: Number(stop.location!.lat), lng: Number(stop.location!.lng) });
+        if (distance <= best) {
+          best = distance;
+          match = stop;
+        }
+      }
+    }
+
+    let entry = match ? planned.get(match.id) : undefined;
+    if (!match) {
+      // The nearest earlier feed stop of this name, if close enough (or either lacks a position)
+      let nearest = Infinity;
+      for (const id of byKey.get(key) || []) {
+        const candidate = planned.get(id)!;
+        const distance = distanceTo({ location: candidate.data.location || candidate.record?.location });
+        if (distance === null || distance <= SAME_NAME_RADIUS_KM) {
+          if ((distance ?? 0) < nearest) {
+            nearest = distance ?? 0;
+            entry = candidate;
+          }
+        } else if (!farFrom || distance < farFrom.distance) {
+          farFrom = { name: `feed stop "${candidate.name}" (${candidate.gtfsStopIds.join(', ')})`, distance };
+        }
+      }
+    }
+    if (!entry && match) {
+      entry = { id: match.id, gtfsStopIds: [], name: match.name, data: {}, record: match, created: false };
+      planned.set(match.id, entry);
+    }
+    if (!entry) {
+      if (!hasLocation) {
+        unmapped.push({ file: 'stops.txt', line, reason: `"${name}" is not in the registry and has no coordinates` });
+        continue;
+      }
+      entry = { id: newId(), gtfsStopIds: [], name, data: { name, location: { lat, lng }, aliases: [] }, created: true };
+      planned.set(entry.id, entry);
+      if (farFrom) {
+        ambiguous.push({
+          line,
+          gtfsStopId: values.stop_id,
+          name,
+          stopId: entry.id,
+          reason: `Named like ${farFrom.name} but ${farFrom.distance.toFixed(1)} km away; imported as a separate stop`,
+        });
+      }
+    }
+    if (!(byKey.get(key) || []).includes(entry.id)) byKey.set(key, [...(byKey.get(key) || []), entry.id]);
+    entry.gtfsStopIds.push(values.stop_id);
+    byGtfsId.set(values.stop_id, entry);
+
+    // Existing stops learn the feed's name as an alias, and a position if they had none
+    if (entry.record) {
+      const known = new Set([entry.record.name, ...entry.record.aliases, ...(entry.data.aliases || [])].map(stopKey));
+      if (!known.has(key)) entry.data.aliases = [...(entry.data.aliases || entry.record.aliases), name];
+      if (!entry.record.location && !entry.data.location && hasLocation) entry.data.location = { lat, lng };
+    }
+  }
+
+  const all = [...planned.values()].map(({ record, created, ...stop }) => ({ stop, created }));
+  return {
+    byGtfsId,
+    create: all.filter(s => s.created).map(s => s.stop),
+    update: all.filter(s => !s.created && Object.keys(s.stop.data).length > 0).map(s => s.stop),
+    unchanged: all.filter(s => !s.created && Object.keys(s.stop.data).length === 0).length,
+    ambiguous,
+  };
+};
+
+/**
+ * One calendar per GTFS service: weekdays and validity from calendar.txt, exceptions from
+ * calendar_dates.txt. Calendars imported before (same gtfsServiceId) are updated.
+ */
+const planCalendars = (files: Map<string, Row[]>, existing: ExistingData, newId: () => string, unmapped: UnmappedRow[]) => {
+  const services = new Map<string, { days: Weekday[]; validFrom: string | null; validTo: string | null; addedDates: string[]; removedDates: string[] }>();
+  const service = (id: string) => {
+    if (!services.has(id)) services.set(id, { days: [], validFrom: null, validTo: null, addedDates: [], removedDates: [] });
+    return services.get(id)!;
+  };
+  const dayColumns = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+  for (const { line, values } of files.get('calendar.txt') || []) {
+    const validFrom = parseGtfsDate(values.start_date || '');
+    const validTo = parseGtfsDate(values.end_date || '');
+    if (!values.service_id || !validFrom || !validTo) {
+      unmapped.push({ file: 'calendar.txt', line, reason: 'service_id, start_date or end_date is missing or invalid' });
+      continue;
+    }
+    Object.assign(service(values.service_id), {
+      days: WEEKDAYS.filter((_, i) => values[dayColumns[i]] === '1'),
+      validFrom,
+      validTo,
+    });
+  }
+
+  for (const { line, values } of files.get('calendar_dates.txt') || []) {
+    const date = parseGtfsDate(values.date || '');
+    if (!values.service_id || !date || !['1', '2'].includes(values.exception_type)) {
+      unmapped.push({ file: 'calendar_dates.txt', line, reason: 'service_id, date or exception_type is missing or invalid' });
+      continue;
+    }
+    const s = service(values.service_id);
+    (values.exception_type === '1' ? s.addedDates : s.removedDates).push(date);
+  }
+
+  const known = new Map(existing.calendars.filter(c => c.gtfsServiceId).map(c => [c.gtfsServiceId!, c.id]));
+  const planned = new Map<string, PlannedCalendar & { existing: boolean }>();
+  for (const [gtfsServiceId, s] of services) {
+    if (s.days.length === 0 && s.addedDates.length === 0) {
+      unmapped.push({ file: 'calendar.txt', line: null, reason: `Service "${gtfsServiceId}" never runs (no weekdays or added dates)` });
+      continue;
+    }
+    const data = {
+      name: `GTFS ${gtfsServiceId}`,
+      gtfsServiceId,
+      ...s,
+      addedDates: [...new Set(s.addedDates)].sort(),
+      removedDates: [...new Set(s.removedDates)].sort(),
+    };
+    const id = known.get(gtfsServiceId);
+    planned.set(gtfsServiceId, { id: id || newId(), gtfsServiceId, data, existing: Boolean(id) });
+  }
+  return planned;
+};
+
+/**
+ * Group trips into buses. Trips of one route and service that call at the same stops, with
+ * times at the same stops, become the departures of one bus: a bus stores the k-th time at
+ * each stop as its k-th trip, so its trips must share their timed stops.
+ */
+const planBuses = (
+  files: Map<string, Row[]>,
+  existing: ExistingData,
+  stops: Map<string, PlannedStop>,
+  calendars: Map<string, PlannedCalendar>,
+  newId: () => string,
+  unmapped: UnmappedRow[]
+) => {
+  const routes = new Map((files.get('routes.txt') || []).map(row => [row.values.route_id, row]));
+
+  const stopTimes = new Map<string, Array<{ line: number; sequence: number; stop: PlannedStop; arrival: number | null; departure: number | null }>>();
+  for (const { line, values } of files.get('stop_times.txt') || []) {
+    const stop = stops.get(values.stop_id);
+    if (!stop) {
+      unmapped.push({ file: 'stop_times.txt', line, reason: `Stop "${values.stop_id}" was not imported` });
+      continue;
+    }
+    const arrival = values.arrival_time ? parseGtfsTime(values.arrival_time) : null;
+    const departure = values.departure_time ? parseGtfsTime(values.departure_time) : null;
+    if ((values.arrival_time && arrival === null) || (values.departure_time && departure === null)) {
+      unmapped.push({ file: 'stop_times.txt', line, reason: 'arrival_time or departure_time is not a time before 48:00:00' });
+      continue;
+    }
+    const list = stopTimes.get(values.trip_id) || [];
+    list.push({ line, sequence: parseInt(values.stop_sequence, 10) || 0, stop, arrival: arrival ?? departure, departure: departure ?? arrival });
+    stopTimes.set(values.trip_id, list);
+  }
+
+  const groups = new Map<string, { route: Row; serviceId: string; trips: Array<{ id: string; times: NonNullable<ReturnType<typeof stopTimes.get>> }> }>();
+  for (const { line, values } of files.get('trips.txt') || []) {
+    const route = routes.get(values.route_id);
+    // Consecutive calls at feed stops merged into one registry stop (platforms) are one call
+    const times = (stopTimes.get(values.trip_id) || [])
+      .sort((a, b) => a.sequence - b.sequence)
+      .reduce<NonNullable<ReturnType<typeof stopTimes.get>>>((calls, call) => {
+        const previous = calls[calls.length - 1];
+        if (previous?.stop.id !== call.stop.id) return [...calls, call];
+        previous.arrival = previous.arrival ?? call.arrival;
+        previous.departure = call.departure ?? previous.departure;
+        return calls;
+      }, []);
+    // A bus keeps one list of times per stop, so a trip calling at a stop twice cannot be stored
+    const loops = new Set(times.map(t => t.stop.id)).size < times.length;
+    const reason = !route ? `Route "${values.route_id}" is not in routes.txt`
+      : !calendars.has(values.service_id) ? `Service "${values.service_id}" is not in calendar.txt or calendar_dates.txt`
+        : times.filter(t => t.departure !== null).length < 2 ? 'Fewer than two timed stops'
+          : loops ? 'Calls at the same stop twice (loop routes are not supported)'
+            : null;
+    if (reason) {
+      unmapped.push({ file: 'trips.txt', line, reason });
+      continue;
+    }
+
+    const pattern = times.map(t => `${t.stop.id}${t.departure === null ? '' : '*'}`).join('>');
+    const key = `${values.route_id}|${values.service_id}|${pattern}`;
+    const group = groups.get(key) || { route: route!, serviceId: values.service_id, trips: [] };
+    group.trips.push({ id: values.trip_id, times });
+    groups.set(key, group);
+  }
+
+  const wheelchairTrips = new Set((files.get('trips.txt') || [])
+    .filter(row => row.values.wheelchair_accessible === '1')
+    .map(row => row.values.trip_id));
+  const known = new Map(existing.buses.filter(b => b.gtfsKey).map(b => [b.gtfsKey!, b.id]));
+  const classes = new Map(existing.serviceClassNames.map(name => [name.toLowerCase(), name]));
+  const create: PlannedBus[] = [];
+  const update: PlannedBus[] = [];
+
+  for (const [key, group] of groups) {
+    // Firestore indexes only the first 1500 bytes of a string, so the pattern is hashed
+    const gtfsKey = `${group.route.values.route_id}:${group.serviceId}:${createHash('sha1').update(key).digest('hex').slice(0, 12)}`;
+    const trips = group.trips.sort((a, b) => a.times.find(t => t.departure !== null)!.departure! - b.times.find(t => t.departure !== null)!.departure!);
+    const pattern = trips[0].times;
+    const r = group.route.values;
+    const from = pattern[0].stop.name;
+    const to = pattern[pattern.length - 1].stop.name;
+    // Our own export writes the bus type first in route_desc
+    const type = classes.get((r.route_desc || '').split(',')[0].trim().toLowerCase()) || DEFAULT_SERVICE_CLASS;
+
+    const timings = pattern.flatMap((entry, position) => entry.departure === null
+      ? []
+      : trips.map(trip => ({
+        stopName: entry.stop.name,
+        stopId: entry.stop.id,
+        arrivalTime: toStoredTime(trip.times[position].arrival!),
+        departureTime: toStoredTime(trip.times[position].departure!),
+      })));
+
+    const id = known.get(gtfsKey);
+    const bus: PlannedBus = {
+      id: id || newId(),
+      gtfsKey,
+      trips: trips.map(trip => trip.id),
+      data: {
+        busName: r.route_long_name || r.route_short_name || `${from} - ${to}`,
+        busNumber: r.route_short_name || '',
+        from,
+        via: '',
+        to,
+        type,
+        route: pattern.map(entry => ({ stopId: entry.stop.id, name: entry.stop.name })),
+        timings,
+        calendarId: calendars.get(group.serviceId)!.id,
+        amenities: trips.every(trip => wheelchairTrips.has(trip.id)) ? ['wheelchair'] : [],
+        gtfsKey,
+      },
+    };
+    (id ? update : create).push(bus);
+  }
+  return { create, update };
+};
+
+/**
+ * Plan an import of a parsed GTFS feed. `newId` allocates ids for new documents, so the
+ * plan can reference stops and calendars before they exist.
+ */
+export const planGtfsImport = (files: Map<string, Row[]>, existing: ExistingData, newId: (collection: string) => string): GtfsImportPlan => {
+  const unmapped: UnmappedRow[] = [];
+  if (files.has('frequencies.txt')) {
+    unmapped.push({ file: 'frequencies.txt', line: null, reason: 'Frequency-based service is not supported; trips keep their scheduled times only' });
+  }
+
+  const stops = planStops(files.get('stops.txt') || [], existing, () => newId('stops'), unmapped);
+  const calendars = planCalendars(files, existing, () => newId('calendars'), unmapped);
+  const buses = planBuses(files, existing, stops.byGtfsId, calendars, () => newId('buses'), unmapped);
+
+  // Only services some imported bus runs on become calendars
+  const used = new Set([...buses.create, ...buses.update].map(bus => bus.data.calendarId));
+  const plannedCalendars = [...calendars.values()]
+    .filter(calendar => used.has(calendar.id))
+    .map(({ existing: found, ...calendar }) => ({ calendar, found }));
+  return {
+    stops: { create: stops.create, update: stops.update, unchanged: stops.unchanged, ambiguous: stops.ambiguous },
+    calendars: {
+      create: plannedCalendars.filter(c => !c.found).map(c => c.calendar),
+      update: plannedCalendars.filter(c => c.found).map(c => c.calendar),
+    },
+    buses,
+    unmapped,
+  };
+};
+
+// Longest list of each kind returned in a preview
+const PREVIEW_LIMIT = 200;
+
+/**
+ * What an import creates and updates, for the admin preview: totals, and the first
+ * PREVIEW_LIMIT stops, calendars, buses and unmapped rows.
+ */
+export const describeGtfsImport = (plan: GtfsImportPlan) => {
+  const describeBus = (bus: PlannedBus) => ({
+    id: bus.id,
+    busName: bus.data.busName,
+    busNumber: bus.data.busNumber,
+    from: bus.data.from,
+    to: bus.data.to,
+    stops: bus.data.route.length,
+    trips: bus.trips.length,
+    calendarId: bus.data.calendarId,
+  });
+  const describeCalendar = (calendar: PlannedCalendar) => ({
+    id: calendar.id,
+    gtfsServiceId: calendar.gtfsServiceId,
+    days: calendar.data.days,
+    validFrom: calendar.data.validFrom,
+    validTo: calendar.data.validTo,
+  });
+
+  return {
+    summary: {
+      stopsCreated: plan.stops.create.length,
+      stopsUpdated: plan.stops.update.length,
+      stopsMatched: plan.stops.unchanged,
+      stopsAmbiguous: plan.stops.ambiguous.length,
+      calendarsCreated: plan.calendars.create.length,
+      calendarsUpdated: plan.calendars.update.length,
+      busesCreated: plan.buses.create.length,
+      busesUpdated: plan.buses.update.length,
+      trips: [...plan.buses.create, ...plan.buses.update].reduce((sum, bus) => sum + bus.trips.length, 0),
+      unmappedRows: plan.unmapped.length,
+    },
+    stops: {
+      create: plan.stops.create.slice(0, PREVIEW_LIMIT).map(({ id, name, gtfsStopIds, data }) => ({ id, name, gtfsStopIds, location: data.location })),
+      update: plan.stops.update.slice(0, PREVIEW_LIMIT).map(({ id, name, gtfsStopIds, data }) => ({ id, name, gtfsStopIds, changes: data })),
+      ambiguous: plan.stops.ambiguous.slice(0, PREVIEW_LIMIT),
+    },
+    calendars: {
+      create: plan.calendars.create.slice(0, PREVIEW_LIMIT).map(describeCalendar),
+      update: plan.calendars.update.slice(0, PREVIEW_LIMIT).map(describeCalendar),
+    },
+    buses: {
+      create: plan.buses.create.slice(0, PREVIEW_LIMIT).map(describeBus),
+      update: plan.buses.update.slice(0, PREVIEW_LIMIT).map(describeBus),
+    },
+    unmapped: plan.unmapped.slice(0, PREVIEW_LIMIT),
+  };
+};
+
+// How far writing a plan got: writes per collection done and not done, and the error that
+// stopped it, if one did
+export interface GtfsWriteResult {
+  total: number;
+  written: number;
+  byCollection: Record<'written' | 'notWritten', Record<string, number>>;
+  error?: unknown;
+}
+
+/**
+ * Write a plan to Firestore: stops and calendars first, then buses, in batches of 400
+ * (Firestore allows 500 writes per batch). A failed batch stops the import; the batches
+ * before it stay written and the result says what they held.
+ */
+export const applyGtfsImport = async (plan: GtfsImportPlan): Promise<GtfsWriteResult> => {
+  const now = new Date();
+  type Write = { collection: 'stops' | 'calendars' | 'buses'; write: (batch: FirebaseFirestore.WriteBatch) => void };
+  const writes: Write[] = [
+    ...plan.stops.create.map((stop): Write => ({ collection: 'stops', write: batch =>
+      batch.set(db.collection('stops').doc(stop.id), { ...stop.data, createdAt: now }) })),
+    ...plan.stops.update.map((stop): Write => ({ collection: 'stops', write: batch =>
+      batch.update(db.collection('stops').doc(stop.id), stop.data) })),
+    ...plan.calendars.create.map((calendar): Write => ({ collection: 'calendars', write: batch =>
+      batch.set(db.collection('calendars').doc(calendar.id), { ...calendar.data, createdAt: now }) })),
+    ...plan.calendars.update.map((calendar): Write => ({ collection: 'calendars', write: batch =>
+      batch.update(db.collection('calendars').doc(calendar.id), calendar.data) })),
+    ...plan.buses.create.map((bus): Write => ({ collection: 'buses', write: batch =>
+      batch.set(db.collection('buses').doc(bus.id), { ...bus.data, createdAt: now }) })),
+    ...plan.buses.update.map((bus): Write => ({ collection: 'buses', write: batch =>
+      batch.update(db.collection('buses').doc(bus.id), { ...bus.data, updatedAt: now }) })),
+  ];
+
+  const result = (written: number, error?: unknown): GtfsWriteResult => {
+    const count = (list: Write[]) => Object.fromEntries(
+      ['stops', 'calendars', 'buses'].map(collection => [collection, list.filter(w => w.collection === collection).length]));
+    return {
+      total: writes.length,
+      written,
+      byCollection: { written: count(writes.slice(0, written)), notWritten: count(writes.slice(written)) },
+      ...(error ? { error } : {}),
+    };
+  };
+
+  for (let i = 0; i < writes.length; i += 400) {
+    const batch = db.batch();
+    writes.slice(i, i + 400).forEach(({ write }) => write(batch));
+    try {
+      await batch.commit();
+    } catch (error) {
+      return result(i, error);
+    }
+  }
+  return result(writes.length);
+};
@@ -0,0 +1,206 @@
+import { TimetableIndex, IndexedTrip } from './timetableIndex';
+import { GTFS_AGENCY_ID, exportableStops, gtfsDate, gtfsStopId, gtfsTime } from './gtfsExport';
+import {
+  ALERT_CAUSES,
+  ALERT_EFFECTS,
+  ServiceAlert,
+  TripStatus,
+  VehicleReport,
+  currentTripStatuses,
+  currentVehicles,
+} from './realtimeState';
+import { doubleField, floatField, intField, messageField, stringField } from './protobuf';
+
+// GTFS-Realtime feeds built from the realtime state. Each feed is first built as the JSON
+// form of the FeedMessage (field names as in gtfs-realtime.proto, served with format=json)
+// and that same object is encoded to protobuf, so both forms always agree.
+// Trip, route and stop ids are those of the GTFS static feed.
+
+type FeedEntity = Record<string, any>;
+
+export interface FeedMessage {
+  header: { gtfs_realtime_version: string; incrementality: 'FULL_DATASET'; timestamp: number };
+  entity: FeedEntity[];
+}
+
+const unixTime = (date: Date | string) => Math.floor(new Date(date).getTime() / 1000);
+
+const feedMessage = (entity: FeedEntity[]): FeedMessage => ({
+  header: { gtfs_realtime_version: '2.0', incrementality: 'FULL_DATASET', timestamp: unixTime(new Date()) },
+  entity,
+});
+
+// The trip as the static feed publishes it; null when the trip is gone (bus edited or deleted)
+const publishedTrip = (index: TimetableIndex, tripId: string) => {
+  const trip = index.trips.find(t => t.id === tripId);
+  const stops = trip ? exportableStops(index, trip) : [];
+  return trip && stops.length >= 2 ? { trip, stops } : null;
+};
+
+const tripDescriptor = (trip: IndexedTrip, stops: IndexedTrip['stops'], serviceDate: string, cancelled = false) => ({
+  trip_id: trip.id,
+  route_id: trip.bus.id,
+  start_time: gtfsTime(stops[0].departure!),
+  start_date: gtfsDate(serviceDate),
+  schedule_relationship: cancelled ? 'CANCELED' : 'SCHEDULED',
+});
+
+export const buildTripUpdatesFeed = (index: TimetableIndex, statuses: TripStatus[] = currentTripStatuses()): FeedMessage =>
+  feedMessage(statuses.flatMap(status => {
+    const published = publishedTrip(index, status.tripId);
+    if (!published) return [];
+    const { trip, stops } = published;
+    // A delay given at one stop carries on to the later stops, as GTFS-Realtime consumers expect
+    const from = stops.find(s => s.position + 1 === status.fromStopSequence) || stops[0];
+    return [{
+      id: `${status.tripId}@${status.serviceDate}`,
+      trip_update: {
+        trip: tripDescriptor(trip, stops, status.serviceDate, status.cancelled),
+        ...(status.cancelled ? {} : {
+          stop_time_update: [{
+            stop_sequence: from.position + 1,
+            stop_id: gtfsStopId(from),
+            arrival: { delay: status.delaySeconds },
+            departure: { delay: status.delaySeconds },
+            schedule_relationship: 'SCHEDULED',
+          }],
+          delay: status.delaySeconds,
+        }),
+        timestamp: unixTime(status.reportedAt),
+      },
+    }];
+  }));
+
+export const buildVehiclePositionsFeed = (index: TimetableIndex, reports: VehicleReport[] = currentVehicles()): FeedMessage =>
+  feedMessage(reports.flatMap(report => {
+    const published = publishedTrip(index, report.tripId);
+    if (!published) return [];
+    const { trip, stops } = published;
+    const stop = stops.find(s => s.position + 1 === report.stopSequence);
+    return [{
+      id: report.vehicleId,
+      vehicle: {
+        trip: tripDescriptor(trip, stops, report.serviceDate),
+        vehicle: { id: report.vehicleId, label: report.label || undefined },
+        position: {
+          latitude: report.lat,
+          longitude: report.lng,
+          bearing: report.bearing ?? undefined,
+          speed: report.speed ?? undefined,
+        },
+        ...(stop ? { current_stop_sequence: stop.position + 1, stop_id: gtfsStopId(stop) } : {}),
+        timestamp: unixTime(report.reportedAt),
+      },
+    }];
+  }));
+
+const translated = (text: string) => ({ translation: [{ text, language: 'en' }] });
+
+export const buildAlertsFeed = (alerts: ServiceAlert[]): FeedMessage => {
+  const now = new Date().toISOString();
+  return feedMessage(alerts
+    .filter(alert => !alert.activeTo || alert.activeTo > now)
+    .map(alert => {
+      const informed = [
+        ...alert.busIds.map(id => ({ route_id: id })),
+        ...alert.tripIds.map(id => ({ trip: { trip_id: id } })),
+        ...alert.stopIds.map(id => ({ stop_id: id })),
+      ];
+      return {
+        id: alert.id,
+        alert: {
+          active_period: alert.activeFrom || alert.activeTo
+            ? [{
+              start: alert.activeFrom ? unixTime(alert.activeFrom) : undefined,
+              end: alert.activeTo ? unixTime(alert.activeTo) : undefined,
+            }]
+            : [],
+          // An alert naming no bus, trip or stop is about the whole network
+          informed_entity: informed.length > 0 ? informed : [{ agency_id: GTFS_AGENCY_ID }],
+          cause: alert.cause,
+          effect: alert.effect,
+          ...(alert.url ? { url: translated(alert.url) } : {}),
+          header_text: translated(alert.headerText),
+          ...(alert.descriptionText ? { description_text: translated(alert.descriptionText) } : {}),
+        },
+      };
+    }));
+};
+
+// Enum values of gtfs-realtime.proto
+const TRIP_SCHEDULE = { SCHEDULED: 0, ADDED: 1, UNSCHEDULED: 2, CANCELED: 3 } as Record<string, number>;
+const STOP_SCHEDULE = { SCHEDULED: 0, SKIPPED: 1, NO_DATA: 2 } as Record<string, number>;
+// Causes and effects are numbered from 1 in the order listed
+const enumValue = (values: readonly string[], name: string) => values.indexOf(name) + 1;
+
+// Field numbers below are those of gtfs-realtime.proto
+const encodeTranslated = (field: number, value: any) => value
+  ? [messageField(field, value.translation.map((t: any) =>
+    messageField(1, [stringField(1, t.text), stringField(2, t.language)])))]
+  : [];
+
+const encodeTrip = (field: number, trip: any) => messageField(field, [
+  stringField(1, trip.trip_id),
+  stringField(2, trip.start_time),
+  stringField(3, trip.start_date),
+  intField(4, trip.schedule_relationship !== undefined ? TRIP_SCHEDULE[trip.schedule_relationship] : undefined),
+  stringField(5, trip.route_id),
+]);
+
+const encodeTripUpdate = (update: any) => [
+  encodeTrip(1, update.trip),
+  ...(update.stop_time_update || []).map((s: any) => messageField(2, [
+    intField(1, s.stop_sequence),
+    ...(s.arrival ? [messageField(2, [intField(1, s.arrival.delay)])] : []),
+    ...(s.departure ? [messageField(3, [intField(1, s.departure.delay)])] : []),
+    stringField(4, s.stop_id),
+    intField(5, STOP_SCHEDULE[s.schedule_relationship]),
+  ])),
+  intField(4, update.timestamp),
+  intField(5, update.delay),
+];
+
+const encodeVehicle = (vehicle: any) => [
+  encodeTrip(1, vehicle.trip),
+  messageField(2, [
+    floatField(1, vehicle.position.latitude),
+    floatField(2, vehicle.position.longitude),
+    floatField(3, vehicle.position.bearing),
+    doubleField(4, vehicle.position.odometer),
+    floatField(5, vehicle.position.speed),
+  ]),
+  intField(3, vehicle.current_stop_sequence),
+  intField(5, vehicle.timestamp),
+  stringField(7, vehicle.stop_id),
+  messageField(8, [stringField(1, vehicle.vehicle.id), stringField(2, vehicle.vehicle.label)]),
+];
+
+const encodeAlert = (alert: any) => [
+  ...alert.active_period.map((p: any) => messageField(1, [intField(1, p.start), intField(2, p.end)])),
+  ...alert.informed_entity.map((e: any) => messageField(5, [
+    stringField(1, e.agency_id),
+    stringField(2, e.route_id),
+    ...(e.trip ? [encodeTrip(4, e.trip)] : []),
+    stringField(5, e.stop_id),
+  ])),
+  intField(6, enumValue(ALERT_CAUSES, alert.cause)),
+  intField(7, enumValue(ALERT_EFFECTS, alert.effect)),
+  ...encodeTranslated(8, alert.url),
+  ...encodeTranslated(10, alert.header_text),
+  ...encodeTranslated(11, alert.description_text),
+];
+
+// The FeedMessage in the protobuf wire format
+export const encodeFeedMessage = (feed: FeedMessage): Buffer => Buffer.concat([
+  messageField(1, [
+    stringField(1, feed.header.gtfs_realtime_version),
+    intField(2, 0), // FULL_DATASET
+    intField(3, feed.header.timestamp),
+  ]),
+  ...feed.entity.map(entity => messageField(2, [
+    stringField(1, entity.id),
+    ...(entity.trip_update ? [messageField(3, encodeTripUpdate(entity.trip_update))] : []),
+    ...(entity.vehicle ? [messageField(4, encodeVehicle(entity.vehicle))] : []),
+    ...(entity.alert ? [messageField(5, encodeAlert(entity.alert))] : []),
+  ])),
+]);
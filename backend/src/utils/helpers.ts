@@ -12,33 +12,6 @@ export const calculateTime = (distance: number): number => {
   return Math.round((distance / avgSpeed) * 60);
 };
 
-// Calculate fare based on distance and bus type
-export const calculateFare = (distance: number, busType: string): number => {
-  let baseRate = 1.5; // Base rate per km
-
-  // Adjust based on bus type
-  switch (busType) {
-    case 'KSRTC':
-      baseRate = 1.2;
-      break;
-    case 'Private':
-      baseRate = 1.5;
-      break;
-    case 'Fast':
-      baseRate = 1.8;
-      break;
-    case 'Super Fast':
-      baseRate = 2.2;
-      break;
-    case 'Ordinary':
-      baseRate = 1.0;
-      break;
-  }
-
-  const fare = distance * baseRate;
-  return Math.round(fare);
-};
-
 // Format date to readable string
 export const formatDate = (date: Date): string => {
   return new Intl.DateTimeFormat('en-IN', {
@@ -0,0 +1,312 @@
+import { computeFare } from './fareEngine';
+import { serviceClassFor } from './serviceClasses';
+import { distanceAlongRoute } from './routeDistance';
+import { minutesToServiceTime } from './timetable';
+import { ResolvedQuery, stopMatches } from './stopRegistry';
+import { TimetableIndex, IndexedTrip, IndexedStop, lookupVisits } from './timetableIndex';
+
+// A stop the planner can board or alight at: one with a concrete timing
+interface TripStop extends IndexedStop {
+  arrival: number;
+  departure: number;
+}
+
+interface Trip {
+  bus: any;
+  stops: TripStop[]; // only stops with a usable timing, in route order, on the search day's axis
+  indexed: IndexedTrip; // full trip, for distances along the route
+  serviceDate?: string;
+}
+
+/**
+ * A service day the planner may draw trips from. `shift` moves its times onto the search
+ * day's axis: -1440 for the previous day's trips still running after midnight.
+ */
+export interface PlannerService {
+  serviceDate?: string;
+  shift: number;
+  includeBus: (bus: any) => boolean;
+}
+
+interface RawLeg {
+  trip: Trip;
+  board: TripStop;
+  alight: TripStop;
+}
+
+export interface PlannerOptions {
+  maxLegs: number; // 1 = direct only, 3 = up to two transfers
+  minTransferMinutes: number; // minimum gap between arriving and boarding the next bus
+  limit: number;
+  windowMinutes?: number; // departures from the origin this long after the start (before it, arrive-by) are tried first
+  arriveBy?: boolean; // treat the start time as the latest arrival instead of the earliest departure
+  concession?: string | null; // concession category applied to every leg's fare
+}
+
+export const DEFAULT_PLANNER_OPTIONS: PlannerOptions = {
+  maxLegs: 3,
+  minTransferMinutes: 10,
+  limit: 5,
+  windowMinutes: 12 * 60,
+};
+
+/**
+ * Keep only the timed stops of each trip, once per service day it runs on.
+ * Stops without a concrete timing are skipped since we cannot chain a transfer through them.
+ */
+const toTimedTrips = (trips: IndexedTrip[], services: PlannerService[]) => {
+  const timed = new Map<string, Trip[]>();
+  for (const trip of trips) {
+    const variants: Trip[] = [];
+    for (const { serviceDate, shift, includeBus } of services) {
+      if (!includeBus(trip.bus)) continue;
+      const stops = trip.stops
+        .filter((s): s is TripStop => s.arrival !== null && s.departure !== null)
+        .map(s => ({ ...s, arrival: s.arrival + shift, departure: s.departure + shift }));
+      if (stops.length >= 2) variants.push({ bus: trip.bus, stops, indexed: trip, serviceDate });
+    }
+    if (variants.length > 0) timed.set(trip.id, variants);
+  }
+  return timed;
+};
+
+// Earliest arrival at a stop within some number of legs, and how it was reached
+interface Label {
+  arrival: number;
+  leg: RawLeg | null; // null at the origin
+  parent: Label | null;
+}
+
+const legsOf = (label: Label): RawLeg[] => {
+  const legs: RawLeg[] = [];
+  for (let l: Label | null = label; l && l.leg; l = l.parent) legs.unshift(l.leg);
+  return legs;
+};
+
+/**
+ * Round-based search (RAPTOR): round k finds the earliest arrival at every stop using k
+ * buses, boarding only from stops whose arrival improved in round k - 1. It runs once per
+ * departure from the origin within the window, latest first, keeping arrivals between
+ * runs, so an earlier departure only yields a journey when it arrives strictly earlier.
+ * An empty window is widened to the whole service day.
+ */
+const findRawJourneys = (
+  index: TimetableIndex,
+  trips: Map<string, Trip[]>,
+  from: ResolvedQuery,
+  to: ResolvedQuery,
+  startMinutes: number,
+  options: PlannerOptions
+): RawLeg[][] => {
+  const window = options.windowMinutes ?? DEFAULT_PLANNER_OPTIONS.windowMinutes!;
+  // Depart-after: leave within the window from the start; arrive-by: leave within the window before the deadline
+  const earliest = options.arriveBy ? startMinutes - window : startMinutes;
+  const latest = options.arriveBy ? startMinutes : startMinutes + window;
+
+  const isTarget = new Map<string, boolean>();
+  const reachesTarget = (stop: TripStop) => {
+    if (!isTarget.has(stop.key)) isTarget.set(stop.key, stopMatches(to, stop));
+    return isTarget.get(stop.key)!;
+  };
+
+  // Boarding points of each trip, by route position
+  const positions = new Map<Trip, Map<number, number>>();
+  const stopIndex = (trip: Trip, position: number) => {
+    if (!positions.has(trip)) positions.set(trip, new Map(trip.stops.map((s, i) => [s.position, i])));
+    return positions.get(trip)!.get(position);
+  };
+
+  // Trips leaving the origin within the window, by departure time
+  const departures = new Map<number, Array<{ trip: Trip; at: number }>>();
+  const originKeys = new Set<string>();
+  for (const visit of lookupVisits(index, from)) {
+    for (const trip of trips.get(visit.trip.id) || []) {
+      const at = stopIndex(trip, visit.position);
+      if (at === undefined) continue;
+      const { departure, key } = trip.stops[at];
+      originKeys.add(key);
+      if (departure >= earliest && departure <= latest) departures.set(departure, [...(departures.get(departure) || []), { trip, at }]);
+    }
+  }
+
+  // Trips calling at a stop, grouped by bus and sorted by departure there. Trips of one bus
+  // follow the same route, so only the first one that can still be caught is worth boarding.
+  const callsAt = new Map<string, Map<string, Array<{ trip: Trip; at: number }>>>();
+  const busesAt = (key: string) => {
+    if (!callsAt.has(key)) {
+      const byBus = new Map<string, Array<{ trip: Trip; at: number }>>();
+      for (const visit of index.byStop.get(key) || []) {
+        for (const trip of trips.get(visit.trip.id) || []) {
+          const at = stopIndex(trip, visit.position);
+          if (at !== undefined) byBus.set(trip.bus.id, [...(byBus.get(trip.bus.id) || []), { trip, at }]);
+        }
+      }
+      for (const calls of byBus.values()) calls.sort((a, b) => a.trip.stops[a.at].departure - b.trip.stops[b.at].departure);
+      callsAt.set(key, byBus);
+    }
+    return callsAt.get(key)!;
+  };
+
+  // Earliest arrival at each stop, and at the destination, by number of legs. Kept per round
+  // so a journey with fewer buses is not dropped for one with more that arrives as early.
+  const best = Array.from({ length: options.maxLegs + 1 }, () => new Map<string, number>());
+  // Riding back to the origin never helps
+  for (const key of originKeys) best[0].set(key, -Infinity);
+  // Arrive-by: nothing arriving after the deadline
+  const bestAtTarget: number[] = Array(options.maxLegs + 1).fill(options.arriveBy ? startMinutes + 1 : Infinity);
+  const upTo = (k: number, arrival: (round: number) => number) => {
+    let min = Infinity;
+    for (let round = 0; round <= k; round++) min = Math.min(min, arrival(round));
+    return min;
+  };
+  const found: RawLeg[][] = [];
+
+  for (const departure of [...departures.keys()].sort((a, b) => b - a)) {
+    const origin: Label = { arrival: departure, leg: null, parent: null };
+    let marked = new Map<string, Label>();
+
+    for (let k = 1; k <= options.maxLegs && (k === 1 || marked.size > 0); k++) {
+      // Earliest boarding point on each trip reachable from a stop improved last round. The
+      // first bus is one leaving now: later ones were tried in the runs for their own departures.
+      const boardings = new Map<Trip, { at: number; from: Label }>(
+        k === 1 ? departures.get(departure)!.map(({ trip, at }) => [trip, { at, from: origin }]) : []
+      );
+      for (const [key, label] of marked) {
+        const ready = label.arrival + options.minTransferMinutes;
+        const usedBuses = legsOf(label).map(l => l.trip.bus.id);
+        for (const [busId, calls] of busesAt(key)) {
+          // Never ride the same bus twice in one itinerary
+          if (usedBuses.includes(busId)) continue;
+          const next = calls.find(({ trip, at }) => trip.stops[at].departure >= ready);
+          if (!next) continue;
+          const current = boardings.get(next.trip);
+          if (!current || next.at < current.at) boardings.set(next.trip, { at: next.at, from: label });
+        }
+      }
+
+      const improved = new Map<string, Label>();
+      for (const [trip, { at, from: parent }] of boardings) {
+        const board = trip.stops[at];
+        for (let j = at + 1; j < trip.stops.length; j++) {
+          const alight = trip.stops[j];
+          // Timings that go backwards are bad data; stop following this bus
+          if (alight.arrival < board.departure) break;
+          // Later stops of this trip cannot beat the best arrival at the destination either
+          if (alight.arrival >= upTo(k, round => bestAtTarget[round])) break;
+          // Only an arrival earlier than any known one at this stop is worth exploring from
+          if (alight.arrival >= upTo(k, round => best[round].get(alight.key) ?? Infinity)) continue;
+
+          const label: Label = { arrival: alight.arrival, leg: { trip, board, alight }, parent };
+          best[k].set(alight.key, alight.arrival);
+          if (reachesTarget(alight)) {
+            bestAtTarget[k] = alight.arrival;
+            found.push(legsOf(label));
+          } else {
+            improved.set(alight.key, label);
+          }
+        }
+      }
+      marked = improved;
+    }
+
+    // Latest departures come first, and arrive-by searches rank by departure: the rest rank lower
+    if (options.arriveBy && found.length >= options.limit) break;
+  }
+
+  // Nothing within the window: try every other departure of the service day before giving up
+  if (found.length === 0 && Number.isFinite(window)) {
+    return findRawJourneys(index, trips, from, to, startMinutes, { ...options, windowMinutes: Infinity });
+  }
+  return found;
+};
+
+// Drop itineraries that another one beats on every count (leaves no earlier, arrives no later, fewer or equal legs)
+const paretoFilter = (journeys: RawLeg[][]) => {
+  const summary = journeys.map(legs => ({
+    legs,
+    departure: legs[0].board.departure,
+    arrival: legs[legs.length - 1].alight.arrival,
+  }));
+
+  return summary.filter(a => !summary.some(b =>
+    b !== a &&
+    b.departure >= a.departure &&
+    b.arrival <= a.arrival &&
+    b.legs.length <= a.legs.length &&
+    (b.departure > a.departure || b.arrival < a.arrival || b.legs.length < a.legs.length)
+  ));
+};
+
+const toTiming = (stop: TripStop) => ({
+  stopId: stop.stopId || `stop_${stop.position}`,
+  stopName: stop.name,
+  arrivalTime: minutesToServiceTime(stop.arrival),
+  departureTime: minutesToServiceTime(stop.departure),
+  ...(stop.interpolated ? { interpolated: true } : {}),
+});
+
+/**
+ * Plan journeys between two registry-resolved queries departing at or after `startMinutes`
+ * (or, with `options.arriveBy`, arriving at or before it, latest departure first),
+ * chaining up to `options.maxLegs` buses through shared stops. Times in the result are on
+ * the search day's axis ("25:10" = 1:10 AM the next day).
+ * `services` lists the service days to draw trips from, each restricting which buses may be
+ * used (e.g. a bus type filter and the service calendar).
+ */
+export async function planJourneys(
+  index: TimetableIndex,
+  from: ResolvedQuery,
+  to: ResolvedQuery,
+  startMinutes: number,
+  options: PlannerOptions = DEFAULT_PLANNER_OPTIONS,
+  services: PlannerService[] = [{ shift: 0, includeBus: () => true }]
+) {
+  const trips = toTimedTrips(index.trips, services);
+  const candidates = paretoFilter(findRawJourneys(index, trips, from, to, startMinutes, options))
+    .sort((a, b) => options.arriveBy
+      ? (b.departure - a.departure) || (a.legs.length - b.legs.length) || (a.arrival - b.arrival)
+      : (a.arrival - b.arrival) || (a.legs.length - b.legs.length) || (b.departure - a.departure))
+    .slice(0, options.limit);
+
+  const itineraries = [];
+  for (const candidate of candidates) {
+    const legs = [];
+    let previousArrival: number | null = null;
+
+    for (const raw of candidate.legs) {
+      const { distance, source: distanceSource } =
+        await distanceAlongRoute(raw.trip.indexed, raw.board.position, raw.alight.position);
+      const fareBreakdown = computeFare(distance, serviceClassFor(index.serviceClasses, raw.trip.bus.type), {
+        departureMinutes: raw.board.departure,
+        concession: options.concession,
+      });
+      legs.push({
+        bus: raw.trip.bus,
+        tripId: raw.trip.indexed.id,
+        serviceDate: raw.trip.serviceDate,
+        fromTiming: toTiming(raw.board),
+        toTiming: toTiming(raw.alight),
+        distance,
+        distanceSource,
+        estimatedTime: raw.alight.arrival - raw.board.departure,
+        fare: fareBreakdown.total,
+        fareBreakdown,
+        waitMinutes: previousArrival === null ? 0 : raw.board.departure - previousArrival,
+      });
+      previousArrival = raw.alight.arrival;
+    }
+
+    itineraries.push({
+      legs,
+      transfers: legs.length - 1,
+      departureTime: minutesToServiceTime(candidate.departure),
+      arrivalTime: minutesToServiceTime(candidate.arrival),
+      totalDuration: candidate.arrival - candidate.departure,
+      totalWaitMinutes: legs.reduce((sum, l) => sum + l.waitMinutes, 0),
+      totalDistance: parseFloat(legs.reduce((sum, l) => sum + l.distance, 0).toFixed(2)),
+      totalFare: legs.reduce((sum, l) => sum + l.fare, 0),
+    });
+  }
+
+  return itineraries;
+}
@@ -0,0 +1,134 @@
+// Offline gazetteer of Kerala towns and bus hubs (coordinates from OpenStreetMap).
+// Consulted before any network geocoding; keys are lowercase and unpunctuated.
+
+const thiruvananthapuram = { lat: 8.5241, lng: 76.9366 };
+const kollam = { lat: 8.8932, lng: 76.6141 };
+const alappuzha = { lat: 9.4981, lng: 76.3388 };
+const kochi = { lat: 9.9312, lng: 76.2673 };
+const thrissur = { lat: 10.5276, lng: 76.2144 };
+const palakkad = { lat: 10.7867, lng: 76.6548 };
+const kozhikode = { lat: 11.2588, lng: 75.7804 };
+const kannur = { lat: 11.8745, lng: 75.3704 };
+const thalassery = { lat: 11.7489, lng: 75.4899 };
+const kalpetta = { lat: 11.6085, lng: 76.083 };
+const sulthanBathery = { lat: 11.665, lng: 76.262 };
+const thiruvalla = { lat: 9.3833, lng: 76.5745 };
+
+export const KERALA_GAZETTEER: Record<string, { lat: number; lng: number }> = {
+  // Thiruvananthapuram district
+  thiruvananthapuram,
+  trivandrum: thiruvananthapuram,
+  tvm: thiruvananthapuram,
+  thampanoor: thiruvananthapuram,
+  kovalam: { lat: 8.4004, lng: 76.9787 },
+  neyyattinkara: { lat: 8.4001, lng: 77.0882 },
+  attingal: { lat: 8.6958, lng: 76.8164 },
+  varkala: { lat: 8.7379, lng: 76.7163 },
+  nedumangad: { lat: 8.603, lng: 77.002 },
+
+  // Kollam district
+  kollam,
+  quilon: kollam,
+  karunagappally: { lat: 9.06, lng: 76.535 },
+  kottarakkara: { lat: 9.0004, lng: 76.7729 },
+  punalur: { lat: 9.017, lng: 76.926 },
+
+  // Pathanamthitta district
+  pathanamthitta: { lat: 9.2648, lng: 76.787 },
+  adoor: { lat: 9.1526, lng: 76.7356 },
+  thiruvalla,
+  tiruvalla: thiruvalla,
+  ranni: { lat: 9.386, lng: 76.785 },
+
+  // Alappuzha district
+  alappuzha,
+  alleppey: alappuzha,
+  cherthala: { lat: 9.684, lng: 76.336 },
+  kayamkulam: { lat: 9.1748, lng: 76.5013 },
+  haripad: { lat: 9.281, lng: 76.456 },
+  chengannur: { lat: 9.318, lng: 76.611 },
+  mavelikkara: { lat: 9.25, lng: 76.55 },
+
+  // Kottayam district
+  kottayam: { lat: 9.5916, lng: 76.5222 },
+  changanassery: { lat: 9.4461, lng: 76.5458 },
+  pala: { lat: 9.7074, lng: 76.6817 },
+  ettumanoor: { lat: 9.6705, lng: 76.5603 },
+  erattupetta: { lat: 9.6878, lng: 76.7783 },
+  vaikom: { lat: 9.749, lng: 76.393 },
+  ponkunnam: { lat: 9.5656, lng: 76.77 },
+  kanjirappally: { lat: 9.558, lng: 76.789 },
+
+  // Idukki district
+  thodupuzha: { lat: 9.8959, lng: 76.7184 },
+  munnar: { lat: 10.0889, lng: 77.0595 },
+  kattappana: { lat: 9.75, lng: 77.117 },
+  kumily: { lat: 9.606, lng: 77.169 },
+
+  // Ernakulam district
+  kochi,
+  cochin: kochi,
+  ernakulam: { lat: 9.9816, lng: 76.2999 },
+  ekm: { lat: 9.9816, lng: 76.2999 },
+  vyttila: { lat: 9.9672, lng: 76.3205 },
+  'fort kochi': { lat: 9.9658, lng: 76.2421 },
+  kakkanad: { lat: 10.0159, lng: 76.3419 },
+  tripunithura: { lat: 9.9437, lng: 76.3486 },
+  aluva: { lat: 10.1081, lng: 76.3528 },
+  angamaly: { lat: 10.1914, lng: 76.3878 },
+  perumbavoor: { lat: 10.1167, lng: 76.4833 },
+  muvattupuzha: { lat: 9.9797, lng: 76.5772 },
+  kothamangalam: { lat: 10.0572, lng: 76.6358 },
+
+  // Thrissur district
+  thrissur,
+  trichur: thrissur,
+  chalakudy: { lat: 10.307, lng: 76.333 },
+  guruvayur: { lat: 10.5946, lng: 76.041 },
+  kodungallur: { lat: 10.227, lng: 76.196 },
+  irinjalakuda: { lat: 10.342, lng: 76.211 },
+  kunnamkulam: { lat: 10.65, lng: 76.068 },
+
+  // Palakkad district
+  palakkad,
+  palghat: palakkad,
+  ottapalam: { lat: 10.77, lng: 76.377 },
+  mannarkkad: { lat: 10.992, lng: 76.46 },
+  chittur: { lat: 10.7, lng: 76.746 },
+  shoranur: { lat: 10.76, lng: 76.27 },
+
+  // Malappuram district
+  malappuram: { lat: 11.051, lng: 76.0711 },
+  manjeri: { lat: 11.1203, lng: 76.1199 },
+  perinthalmanna: { lat: 10.976, lng: 76.225 },
+  tirur: { lat: 10.915, lng: 75.922 },
+  nilambur: { lat: 11.276, lng: 76.226 },
+  kottakkal: { lat: 10.999, lng: 76.0 },
+
+  // Kozhikode district
+  kozhikode,
+  calicut: kozhikode,
+  vadakara: { lat: 11.608, lng: 75.591 },
+  koyilandy: { lat: 11.44, lng: 75.695 },
+  thamarassery: { lat: 11.412, lng: 75.936 },
+
+  // Wayanad district
+  wayanad: kalpetta,
+  kalpetta,
+  'sulthan bathery': sulthanBathery,
+  sulthan: sulthanBathery,
+  mananthavady: { lat: 11.8014, lng: 76.0044 },
+
+  // Kannur district
+  kannur,
+  cannanore: kannur,
+  thalassery,
+  tellicherry: thalassery,
+  payyanur: { lat: 12.1, lng: 75.2 },
+  taliparamba: { lat: 12.0368, lng: 75.36 },
+  iritty: { lat: 11.98, lng: 75.67 },
+
+  // Kasaragod district
+  kasaragod: { lat: 12.4996, lng: 74.9869 },
+  kanhangad: { lat: 12.308, lng: 75.09 },
+};
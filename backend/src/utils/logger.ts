@@ -0,0 +1,79 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+
+// One JSON object per line, so Render (or any log drain) can filter by level and request id.
+// LOG_LEVEL picks the lowest level written: debug, info (default in production), warn or error.
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const configuredLevel = (): LogLevel => {
+  const level = (process.env.LOG_LEVEL || '').toLowerCase();
+  if (level in LEVELS) return level as LogLevel;
+  return process.env.NODE_ENV === 'production' ? 'info' : 'debug';
+};
+
+const minimumLevel = LEVELS[configuredLevel()];
+
+// The request being handled, so every log line written while serving it carries its id
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+export const currentRequestId = () => requestContext.getStore()?.requestId;
+
+// Errors do not serialize to JSON on their own
+const toLoggable = (value: unknown): unknown =>
+  value instanceof Error ? { name: value.name, message: value.message, stack: value.stack } : value;
+
+const write = (level: LogLevel, msg: string, fields: Record<string, unknown> = {}) => {
+  if (LEVELS[level] < minimumLevel) return;
+  const entry: Record<string, unknown> = { time: new Date().toISOString(), level, msg };
+  const requestId = currentRequestId();
+  if (requestId) entry.requestId = requestId;
+  for (const [key, value] of Object.entries(fields)) entry[key] = toLoggable(value);
+
+  const line = JSON.stringify(entry);
+  if (LEVELS[level] >= LEVELS.warn) process.stderr.write(`${line}\n`);
+  else process.stdout.write(`${line}\n`);
+};
+
+export const logger = {
+  debug: (msg: string, fields?: Record<string, unknown>) => write('debug', msg, fields),
+  info: (msg: string, fields?: Record<string, unknown>) => write('info', msg, fields),
+  warn: (msg: string, fields?: Record<string, unknown>) => write('warn', msg, fields),
+  error: (msg: string, fields?: Record<string, unknown>) => write('error', msg, fields),
+};
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Ids a caller may pass through: short, printable, no whitespace
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,100}$/;
+
+/**
+ * Give each request a correlation id (the caller's X-Request-Id if it sent a usable one),
+ * return it in the X-Request-Id response header, and log the request once it finishes.
+ */
+export const requestLogger = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get(REQUEST_ID_HEADER);
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+
+  const startedAt = process.hrtime.bigint();
+  requestContext.run({ requestId }, () => {
+    res.on('finish', () => {
+      // 'finish' may fire outside the request's async context, so the id is passed explicitly
+      const fields = {
+        requestId,
+        method: req.method,
+        path: req.path,
+        status: res.statusCode,
+        durationMs: Math.round(Number(process.hrtime.bigint() - startedAt) / 1e6),
+        origin: req.headers.origin,
+      };
+      if (res.statusCode >= 500) logger.error('request failed', fields);
+      else logger.info('request', fields);
+    });
+    next();
+  });
+};
@@ -0,0 +1,70 @@
+import { haversineDistance } from './googleMaps';
+import { StopRecord, StopRegistry } from './stopRegistry';
+
+// Grid cells of 0.05° (about 5.5 km north-south) keep a lookup to the few cells around the point
+const CELL_DEGREES = 0.05;
+const KM_PER_DEGREE_LAT = 111.32;
+// Walking routes are longer than the straight line; 4.8 km/h is a typical walking pace
+const WALKING_DETOUR = 1.3;
+const WALKING_KMPH = 4.8;
+
+export interface StopGrid {
+  cells: Map<string, StopRecord[]>;
+}
+
+const cellOf = (lat: number, lng: number) => [Math.floor(lat / CELL_DEGREES), Math.floor(lng / CELL_DEGREES)];
+
+const hasLocation = (stop: StopRecord) =>
+  !!stop.location && Number.isFinite(stop.location.lat) && Number.isFinite(stop.location.lng);
+
+export const buildStopGrid = (stops: StopRecord[]): StopGrid => {
+  const cells = new Map<string, StopRecord[]>();
+  for (const stop of stops.filter(hasLocation)) {
+    const key = cellOf(stop.location!.lat, stop.location!.lng).join(':');
+    cells.set(key, [...(cells.get(key) || []), stop]);
+  }
+  return { cells };
+};
+
+// One grid per registry; a new registry (after an admin edit) gets a fresh grid
+const grids = new WeakMap<StopRegistry, StopGrid>();
+
+const gridFor = (registry: StopRegistry) => {
+  let grid = grids.get(registry);
+  if (!grid) {
+    grid = buildStopGrid(registry.stops);
+    grids.set(registry, grid);
+  }
+  return grid;
+};
+
+/**
+ * Registry stops within `radiusKm` of a point, nearest first, with the straight-line
+ * distance and an estimated walking distance and time.
+ */
+export const findNearbyStops = (registry: StopRegistry, lat: number, lng: number, radiusKm: number, limit: number) => {
+  const grid = gridFor(registry);
+  const [row, col] = cellOf(lat, lng);
+  // Cells to scan in each direction; longitude degrees shrink towards the poles
+  const rowSpan = Math.ceil(radiusKm / (KM_PER_DEGREE_LAT * CELL_DEGREES));
+  const colSpan = Math.ceil(radiusKm / (KM_PER_DEGREE_LAT * Math.max(Math.cos((lat * Math.PI) / 180), 0.01) * CELL_DEGREES));
+
+  const found = [];
+  for (let r = row - rowSpan; r <= row + rowSpan; r++) {
+    for (let c = col - colSpan; c <= col + colSpan; c++) {
+      for (const stop of grid.cells.get(`${r}:${c}`) || []) {
+        const distanceKm = haversineDistance({ lat, lng }, stop.location!);
+        if (distanceKm > radiusKm) continue;
+        const walkingDistanceKm = distanceKm * WALKING_DETOUR;
+        found.push({
+          ...stop,
+          distanceKm: parseFloat(distanceKm.toFixed(3)),
+          walkingDistanceKm: parseFloat(walkingDistanceKm.toFixed(2)),
+          walkingMinutes: Math.ceil((walkingDistanceKm / WALKING_KMPH) * 60),
+        });
+      }
+    }
+  }
+
+  return found.sort((a, b) => a.distanceKm - b.distanceKm).slice(0, limit);
+};
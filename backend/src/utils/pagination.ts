@@ -0,0 +1,20 @@
+// Opaque cursors for paged endpoints: the position of the last (or first) item seen,
+// so a page stays stable when items are added or removed before it.
+
+export const encodeCursor = (position: Record<string, any>) =>
+  Buffer.from(JSON.stringify(position)).toString('base64url');
+
+// The position a cursor points at, or null when it is missing or not one of ours
+export const decodeCursor = <T extends Record<string, any>>(cursor: any): T | null => {
+  if (!cursor || typeof cursor !== 'string') return null;
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return position && typeof position === 'object' ? (position as T) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Page size from the `limit` query parameter, clamped to 1..max
+export const parseLimit = (value: any, fallback: number, max: number) =>
+  Math.min(Math.max(parseInt(String(value ?? ''), 10) || fallback, 1), max);
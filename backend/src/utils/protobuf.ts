@@ -0,0 +1,50 @@
+// Minimal protocol buffers encoder for the GTFS-Realtime feeds. Messages are built as
+// lists of encoded fields; nested messages are encoded first and embedded as bytes.
+
+const WIRE_VARINT = 0;
+const WIRE_64BIT = 1;
+const WIRE_BYTES = 2;
+const WIRE_32BIT = 5;
+
+const varint = (value: number | bigint) => {
+  // Negative int32/int64 values are sent as their 64-bit two's complement
+  let n = BigInt.asUintN(64, BigInt(value));
+  const bytes: number[] = [];
+  while (n >= 0x80n) {
+    bytes.push(Number(n & 0x7fn) | 0x80);
+    n >>= 7n;
+  }
+  bytes.push(Number(n));
+  return Buffer.from(bytes);
+};
+
+const tag = (field: number, wireType: number) => varint((field << 3) | wireType);
+
+// Integer, enum and bool fields; `undefined` and `null` fields are left out
+export const intField = (field: number, value: number | boolean | null | undefined) =>
+  value === undefined || value === null
+    ? Buffer.alloc(0)
+    : Buffer.concat([tag(field, WIRE_VARINT), varint(typeof value === 'boolean' ? Number(value) : Math.trunc(value))]);
+
+export const floatField = (field: number, value: number | null | undefined) => {
+  if (value === undefined || value === null) return Buffer.alloc(0);
+  const body = Buffer.alloc(4);
+  body.writeFloatLE(value);
+  return Buffer.concat([tag(field, WIRE_32BIT), body]);
+};
+
+export const doubleField = (field: number, value: number | null | undefined) => {
+  if (value === undefined || value === null) return Buffer.alloc(0);
+  const body = Buffer.alloc(8);
+  body.writeDoubleLE(value);
+  return Buffer.concat([tag(field, WIRE_64BIT), body]);
+};
+
+export const bytesField = (field: number, value: Buffer) =>
+  Buffer.concat([tag(field, WIRE_BYTES), varint(value.length), value]);
+
+export const stringField = (field: number, value: string | null | undefined) =>
+  value === undefined || value === null ? Buffer.alloc(0) : bytesField(field, Buffer.from(value, 'utf8'));
+
+// An embedded message from its encoded fields
+export const messageField = (field: number, fields: Buffer[]) => bytesField(field, Buffer.concat(fields));
@@ -0,0 +1,222 @@
+import { db } from '../config/firebase';
+import { TimetableIndex, IndexedTrip } from './timetableIndex';
+import { exportableStops } from './gtfsExport';
+import { parseServiceDate, shiftServiceDate } from './serviceCalendar';
+import { agencyNow } from './agencyClock';
+
+// Live information reported for running trips. Delays, cancellations and vehicle positions
+// are short-lived and kept in memory; service alerts are stored in the `alerts` collection.
+
+// A vehicle that has not reported for this long is no longer shown
+const VEHICLE_TTL_MS = 5 * 60 * 1000;
+
+export const ALERT_CAUSES = [
+  'UNKNOWN_CAUSE', 'OTHER_CAUSE', 'TECHNICAL_PROBLEM', 'STRIKE', 'DEMONSTRATION', 'ACCIDENT',
+  'HOLIDAY', 'WEATHER', 'MAINTENANCE', 'CONSTRUCTION', 'POLICE_ACTIVITY', 'MEDICAL_EMERGENCY',
+] as const;
+
+export const ALERT_EFFECTS = [
+  'NO_SERVICE', 'REDUCED_SERVICE', 'SIGNIFICANT_DELAYS', 'DETOUR', 'ADDITIONAL_SERVICE',
+  'MODIFIED_SERVICE', 'OTHER_EFFECT', 'UNKNOWN_EFFECT', 'STOP_MOVED',
+] as const;
+
+// Delay or cancellation of one trip on one service day
+export interface TripStatus {
+  tripId: string; // `${busId}:${n}`, as in the GTFS static feed
+  serviceDate: string; // YYYY-MM-DD
+  cancelled: boolean;
+  delaySeconds: number; // positive = late
+  fromStopSequence: number | null; // the delay applies from this stop on; null = from the start
+  reportedAt: Date;
+}
+
+export interface VehicleReport {
+  vehicleId: string;
+  label: string; // registration or fleet number shown to riders
+  tripId: string;
+  serviceDate: string;
+  lat: number;
+  lng: number;
+  bearing: number | null; // degrees clockwise from north
+  speed: number | null; // metres per second
+  stopSequence: number | null; // stop the vehicle is at or heading to
+  reportedAt: Date;
+}
+
+export interface ServiceAlert {
+  id: string;
+  cause: typeof ALERT_CAUSES[number];
+  effect: typeof ALERT_EFFECTS[number];
+  headerText: string;
+  descriptionText: string;
+  url: string;
+  activeFrom: string | null; // ISO timestamp; null = already active
+  activeTo: string | null; // null = until removed
+  busIds: string[];
+  tripIds: string[];
+  stopIds: string[]; // GTFS stop ids (registry ids)
+}
+
+const tripStatuses = new Map<string, TripStatus>(); // by `${tripId}@${serviceDate}`
+const vehicles = new Map<string, VehicleReport>(); // by vehicleId
+
+const statusKey = (tripId: string, serviceDate: string) => `${tripId}@${serviceDate}`;
+
+const toNumber = (value: any): number | null => {
+  const n = Number(value);
+  return value !== null && value !== undefined && value !== '' && Number.isFinite(n) ? n : null;
+};
+
+// The trip a report is about; only trips published in the GTFS feed can be referenced
+const findTrip = (index: TimetableIndex, tripId: any): IndexedTrip | null => {
+  const trip = index.trips.find(t => t.id === String(tripId || ''));
+  return trip && exportableStops(index, trip).length >= 2 ? trip : null;
+};
+
+// Service date of a report: as given, or today on the agency clock
+const reportDate = (value: any) => (value ? parseServiceDate(value) : agencyNow().date);
+
+/**
+ * Validate a delay or cancellation report. `delayMinutes` may be negative (running early);
+ * `fromStopSequence` is a stop_sequence of the trip in the GTFS feed (route position + 1).
+ */
+export const parseTripStatusInput = (index: TimetableIndex, body: any): { data?: TripStatus; error?: string } => {
+  const trip = findTrip(index, body.tripId);
+  if (!trip) return { error: 'tripId must be a trip id from the GTFS feed (busId:n)' };
+  const serviceDate = reportDate(body.serviceDate);
+  if (!serviceDate) return { error: 'serviceDate must be a date in YYYY-MM-DD format' };
+
+  const cancelled = body.cancelled === true || body.cancelled === 'true';
+  const delayMinutes = toNumber(body.delayMinutes);
+  if (!cancelled && delayMinutes === null) return { error: 'Give delayMinutes, or cancelled: true' };
+
+  const fromStopSequence = toNumber(body.fromStopSequence);
+  if (fromStopSequence !== null && !exportableStops(index, trip).some(s => s.position + 1 === fromStopSequence)) {
+    return { error: 'fromStopSequence is not a stop of this trip in the GTFS feed' };
+  }
+
+  return {
+    data: {
+      tripId: trip.id,
+      serviceDate,
+      cancelled,
+      delaySeconds: Math.round((delayMinutes || 0) * 60),
+      fromStopSequence,
+      reportedAt: new Date(),
+    },
+  };
+};
+
+export const parseVehicleInput = (index: TimetableIndex, body: any): { data?: VehicleReport; error?: string } => {
+  const vehicleId = String(body.vehicleId || '').trim();
+  if (!vehicleId) return { error: 'vehicleId is required' };
+  const trip = findTrip(index, body.tripId);
+  if (!trip) return { error: 'tripId must be a trip id from the GTFS feed (busId:n)' };
+  const serviceDate = reportDate(body.serviceDate);
+  if (!serviceDate) return { error: 'serviceDate must be a date in YYYY-MM-DD format' };
+
+  const lat = toNumber(body.lat);
+  const lng = toNumber(body.lng);
+  if (lat === null || lng === null || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return { error: 'lat and lng must be valid coordinates' };
+  }
+
+  return {
+    data: {
+      vehicleId,
+      label: String(body.label || trip.bus.busNumber || '').trim(),
+      tripId: trip.id,
+      serviceDate,
+      lat,
+      lng,
+      bearing: toNumber(body.bearing),
+      speed: toNumber(body.speed),
+      stopSequence: toNumber(body.stopSequence),
+      reportedAt: new Date(),
+    },
+  };
+};
+
+const toList = (value: any): string[] =>
+  Array.from(new Set((Array.isArray(value) ? value : []).map((v: any) => String(v).trim()).filter(Boolean)));
+
+/**
+ * Validate an alert from an admin request. Returns the fields to store, or an error message.
+ */
+export const parseAlertInput = (body: any): { data?: Omit<ServiceAlert, 'id'>; error?: string } => {
+  const headerText = String(body.headerText || '').trim();
+  if (!headerText) return { error: 'headerText is required' };
+  const cause = String(body.cause || 'UNKNOWN_CAUSE').toUpperCase();
+  const effect = String(body.effect || 'UNKNOWN_EFFECT').toUpperCase();
+  if (!(ALERT_CAUSES as readonly string[]).includes(cause)) return { error: `cause must be one of ${ALERT_CAUSES.join(', ')}` };
+  if (!(ALERT_EFFECTS as readonly string[]).includes(effect)) return { error: `effect must be one of ${ALERT_EFFECTS.join(', ')}` };
+
+  for (const field of ['activeFrom', 'activeTo'] as const) {
+    if (body[field] && isNaN(Date.parse(body[field]))) return { error: `${field} must be an ISO date and time` };
+  }
+  const activeFrom = body.activeFrom ? new Date(body.activeFrom).toISOString() : null;
+  const activeTo = body.activeTo ? new Date(body.activeTo).toISOString() : null;
+  if (activeFrom && activeTo && activeFrom > activeTo) return { error: 'activeFrom must not be after activeTo' };
+
+  return {
+    data: {
+      cause: cause as ServiceAlert['cause'],
+      effect: effect as ServiceAlert['effect'],
+      headerText,
+      descriptionText: String(body.descriptionText || '').trim(),
+      url: String(body.url || '').trim(),
+      activeFrom,
+      activeTo,
+      busIds: toList(body.busIds),
+      tripIds: toList(body.tripIds),
+      stopIds: toList(body.stopIds),
+    },
+  };
+};
+
+export const toServiceAlert = (id: string, data: any): ServiceAlert => ({
+  id,
+  cause: (ALERT_CAUSES as readonly string[]).includes(data.cause) ? data.cause : 'UNKNOWN_CAUSE',
+  effect: (ALERT_EFFECTS as readonly string[]).includes(data.effect) ? data.effect : 'UNKNOWN_EFFECT',
+  headerText: data.headerText || '',
+  descriptionText: data.descriptionText || '',
+  url: data.url || '',
+  activeFrom: data.activeFrom || null,
+  activeTo: data.activeTo || null,
+  busIds: toList(data.busIds),
+  tripIds: toList(data.tripIds),
+  stopIds: toList(data.stopIds),
+});
+
+export const loadAlerts = async (): Promise<ServiceAlert[]> => {
+  const snapshot = await db.collection('alerts').get();
+  return snapshot.docs.map(doc => toServiceAlert(doc.id, doc.data()));
+};
+
+export const reportTripStatus = (status: TripStatus) => {
+  tripStatuses.set(statusKey(status.tripId, status.serviceDate), status);
+};
+
+export const clearTripStatus = (tripId: string, serviceDate: string) =>
+  tripStatuses.delete(statusKey(tripId, serviceDate));
+
+export const reportVehicle = (report: VehicleReport) => {
+  vehicles.set(report.vehicleId, report);
+};
+
+// Reports for service days that have ended (overnight trips run into the next day)
+export const currentTripStatuses = (): TripStatus[] => {
+  const oldest = shiftServiceDate(agencyNow().date, -1);
+  for (const [key, status] of tripStatuses) {
+    if (status.serviceDate < oldest) tripStatuses.delete(key);
+  }
+  return [...tripStatuses.values()];
+};
+
+export const currentVehicles = (): VehicleReport[] => {
+  const cutoff = Date.now() - VEHICLE_TTL_MS;
+  for (const [id, report] of vehicles) {
+    if (report.reportedAt.getTime() < cutoff) vehicles.delete(id);
+  }
+  return [...vehicles.values()];
+};
@@ -0,0 +1,52 @@
+import { StopRegistry, RouteStop } from './stopRegistry';
+import {
+  DistanceResult,
+  DistanceSource,
+  calculateRealDistance,
+  estimateTravelTime,
+  haversineDistance,
+  locateOffline,
+  weakestSource,
+} from './googleMaps';
+
+// Road distance from one route stop to the next; null when either end has no known coordinates
+export interface RouteSegment {
+  distance: number | null;
+  source: DistanceSource | null;
+}
+
+/**
+ * Per-segment distances along a bus route, computed once when the route is indexed.
+ * An admin-entered `distanceKm` on a stop overrides the segment arriving at it; otherwise
+ * the straight line between consecutive stop coordinates is stretched by 25% for roads.
+ */
+export const computeSegments = (registry: StopRegistry, stops: RouteStop[]): RouteSegment[] => {
+  const locations = stops.map(stop => locateOffline(registry, stop));
+
+  return stops.slice(1).map((stop, i) => {
+    if (typeof stop.distanceKm === 'number') return { distance: stop.distanceKm, source: 'override' };
+    const from = locations[i];
+    const to = locations[i + 1];
+    if (!from || !to) return { distance: null, source: null };
+    const distance = parseFloat((haversineDistance(from.coords, to.coords) * 1.25).toFixed(2));
+    return { distance, source: weakestSource(from.source, to.source) };
+  });
+};
+
+/**
+ * Distance between two positions on a route, summing the segments in between. If any
+ * segment is unknown the whole span falls back to calculateRealDistance.
+ */
+export const distanceAlongRoute = async (
+  route: { stops: RouteStop[]; segments: RouteSegment[] },
+  fromPos: number,
+  toPos: number
+): Promise<DistanceResult> => {
+  const span = route.segments.slice(fromPos, toPos);
+  if (span.length > 0 && span.every(s => s.distance !== null)) {
+    const distance = parseFloat(span.reduce((sum, s) => sum + s.distance!, 0).toFixed(2));
+    const source = span.reduce<DistanceSource>((worst, s) => weakestSource(worst, s.source!), 'override');
+    return { distance, duration: estimateTravelTime(distance), success: true, source };
+  }
+  return calculateRealDistance(route.stops[fromPos], route.stops[toPos], toPos - fromPos);
+};
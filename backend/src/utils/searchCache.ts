@@ -0,0 +1,87 @@
+import { Request, Response, NextFunction } from 'express';
+import { resolveRequestedTime } from './agencyClock';
+import { stopKey } from './stopRegistry';
+import { logger } from './logger';
+
+// Search responses are reused for identical queries, until they expire or an admin edit clears
+// the cache. An explicit time must match exactly: results and the echoed time depend on it.
+// Searches for "now" share a response while the clock is in the same bucket (default 5 minutes).
+const BUCKET_MINUTES = Math.max(parseInt(process.env.SEARCH_CACHE_BUCKET_MINUTES || '5', 10) || 5, 1);
+const TTL_MS = Math.max(parseInt(process.env.SEARCH_CACHE_TTL_SECONDS || '300', 10) || 300, 0) * 1000;
+const MAX_ENTRIES = 500;
+
+// Parameters folded into the key in another form (from/to normalized, time resolved to minutes)
+const KEYED_SEPARATELY = new Set(['from', 'to', 'time', 'date', 'tz']);
+
+const entries = new Map<string, { body: any; storedAt: number }>();
+
+// Bumped on every clear, so a search that started before an admin edit does not store its result
+let generation = 0;
+
+export const clearSearchCache = () => {
+  generation++;
+  if (entries.size > 0) logger.info('Search cache cleared', { entries: entries.size });
+  entries.clear();
+};
+
+/**
+ * Cache key for a search request: normalized stop names, the other parameters in a fixed
+ * order, the service date and the requested time (its bucket for "now"). Null when the
+ * request should not be cached.
+ */
+const cacheKey = (req: Request): string | null => {
+  if (String(req.query.explain || '').toLowerCase() === 'true') return null;
+  const requested = resolveRequestedTime(req.query);
+  if (requested.error) return null;
+
+  const params = Object.keys(req.query)
+    .filter(name => !KEYED_SEPARATELY.has(name))
+    .sort()
+    .map(name => `${name}=${String(req.query[name]).trim().toLowerCase()}`);
+  // Without an explicit time the search is for "now": any moment in the bucket will do
+  const time = requested.timeProvided ? String(requested.minutes) : `${Math.floor(requested.minutes / BUCKET_MINUTES)}~`;
+
+  return [
+    stopKey(String(req.query.from || '')),
+    stopKey(String(req.query.to || '')),
+    requested.date,
+    time,
+    ...params,
+  ].join('|');
+};
+
+/**
+ * Serve a cached response when there is one (X-Cache: HIT, with its Age in seconds);
+ * otherwise let the search run and keep its successful response (X-Cache: MISS).
+ * Requests that are never cached, such as explain mode, get X-Cache: BYPASS.
+ */
+export const searchCache = (req: Request, res: Response, next: NextFunction) => {
+  const key = TTL_MS > 0 ? cacheKey(req) : null;
+  if (!key) {
+    res.setHeader('X-Cache', 'BYPASS');
+    return next();
+  }
+
+  const cached = entries.get(key);
+  if (cached && Date.now() - cached.storedAt < TTL_MS) {
+    // Re-insert so the most recently used entries are evicted last
+    entries.delete(key);
+    entries.set(key, cached);
+    res.setHeader('X-Cache', 'HIT');
+    res.setHeader('Age', String(Math.floor((Date.now() - cached.storedAt) / 1000)));
+    return res.json(cached.body);
+  }
+  if (cached) entries.delete(key);
+
+  res.setHeader('X-Cache', 'MISS');
+  const startedIn = generation;
+  const send = res.json.bind(res);
+  res.json = (body: any) => {
+    if (res.statusCode === 200 && body?.success && startedIn === generation) {
+      entries.set(key, { body, storedAt: Date.now() });
+      if (entries.size > MAX_ENTRIES) entries.delete(entries.keys().next().value!);
+    }
+    return send(body);
+  };
+  next();
+};
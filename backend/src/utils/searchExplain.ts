@@ -0,0 +1,141 @@
+import { ResolvedQuery, stopMatches } from './stopRegistry';
+import { IndexedTrip, TimetableIndex } from './timetableIndex';
+
+// What happened to one trip on one service day
+export interface ExplainedService {
+  serviceDate: string;
+  outcome: 'returned' | 'dropped';
+  reason: string | null;
+  timingSource?: string;
+  departureTime?: string;
+  arrivalTime?: string;
+}
+
+export interface ExplainedTrip {
+  tripId: string;
+  bus: { id: string; busName: string; busNumber: string; type: string; calendarId: string | null };
+  // The route as the index sees it: registry ids and official names after linking
+  route: Array<{ position: number; name: string; stopId: string | null; matchesFrom: boolean; matchesTo: boolean }>;
+  fromPosition: number | null; // first stop matching the origin
+  toPosition: number | null;
+  direction: 'ok' | 'reverse' | 'from-missing' | 'to-missing';
+  outcome: 'returned' | 'dropped';
+  reason: string | null; // why the trip was dropped before any service day was looked at
+  services: ExplainedService[];
+}
+
+const describeQuery = (query: ResolvedQuery) => ({
+  text: query.text,
+  key: query.key,
+  stopIds: [...query.stopIds],
+  names: [...query.keys],
+});
+
+const firstMatch = (trip: IndexedTrip, query: ResolvedQuery) => {
+  const stop = trip.stops.find(s => stopMatches(query, s));
+  return stop ? stop.position : null;
+};
+
+/**
+ * Collects why each trip touching the origin or destination was returned or dropped by a
+ * search (`explain=true`). The search route reports each decision; `report` marks the
+ * trips that made it into the response and returns the whole trace.
+ */
+export const createSearchExplain = (index: TimetableIndex, from: ResolvedQuery, to: ResolvedQuery) => {
+  const trips = new Map<string, ExplainedTrip>();
+  let untouched = 0;
+
+  for (const trip of index.trips) {
+    const fromPosition = firstMatch(trip, from);
+    const toPosition = firstMatch(trip, to);
+    if (fromPosition === null && toPosition === null) {
+      untouched++;
+      continue;
+    }
+
+    const direction = fromPosition === null ? 'from-missing'
+      : toPosition === null ? 'to-missing'
+        : from.key !== to.key && fromPosition > toPosition ? 'reverse'
+          : 'ok';
+    const reasons = {
+      'from-missing': `No stop on the route matches "${from.text}"`,
+      'to-missing': `No stop on the route matches "${to.text}"`,
+      reverse: `Runs ${to.text} → ${from.text}: the destination comes before the origin`,
+      ok: null,
+    };
+
+    trips.set(trip.id, {
+      tripId: trip.id,
+      bus: {
+        id: trip.bus.id,
+        busName: trip.bus.busName || '',
+        busNumber: trip.bus.busNumber || '',
+        type: trip.bus.type || '',
+        calendarId: trip.bus.calendarId || null,
+      },
+      route: trip.stops.map(stop => ({
+        position: stop.position,
+        name: stop.name,
+        stopId: stop.stopId,
+        matchesFrom: stopMatches(from, stop),
+        matchesTo: stopMatches(to, stop),
+      })),
+      fromPosition,
+      toPosition,
+      direction,
+      outcome: 'dropped',
+      reason: reasons[direction],
+      services: [],
+    });
+  }
+
+  // Dropped before looking at service days (type filter, journey planning, ...)
+  const drop = (trip: IndexedTrip, reason: string) => {
+    const entry = trips.get(trip.id);
+    if (entry) entry.reason = reason;
+  };
+
+  // Dropped, or kept as a candidate (reason null), for one service day
+  const service = (trip: IndexedTrip, details: Omit<ExplainedService, 'outcome'>) => {
+    trips.get(trip.id)?.services.push({ ...details, outcome: 'dropped' });
+  };
+
+  // Mark what the response returns (direct results or itinerary legs) and produce the trace
+  const report = (data: any[]) => {
+    const returned = new Set<string>();
+    for (const item of data) {
+      for (const leg of item.legs || [item]) returned.add(`${leg.tripId}@${leg.serviceDate}`);
+    }
+
+    for (const entry of trips.values()) {
+      for (const s of entry.services) {
+        if (returned.has(`${entry.tripId}@${s.serviceDate}`)) {
+          s.outcome = 'returned';
+        } else if (!s.reason) {
+          s.reason = 'Matched, but not among the results for the requested time, page or sort';
+        }
+      }
+      if (entry.services.some(s => s.outcome === 'returned')) {
+        entry.outcome = 'returned';
+        entry.reason = null;
+      } else if (!entry.reason && entry.services.length === 0) {
+        entry.reason = 'Not used by any returned result';
+      }
+    }
+
+    const list = [...trips.values()].sort((a, b) =>
+      (a.outcome === b.outcome ? 0 : a.outcome === 'returned' ? -1 : 1) || a.tripId.localeCompare(b.tripId));
+    return {
+      from: describeQuery(from),
+      to: describeQuery(to),
+      indexBuiltAt: index.builtAt,
+      tripsConsidered: list.length,
+      tripsNotTouchingEitherStop: untouched,
+      trips: list,
+    };
+  };
+
+  return { drop, service, report };
+};
+
+export type SearchExplain = ReturnType<typeof createSearchExplain>;
@@ -0,0 +1,118 @@
+import { AMENITIES } from '../config/amenities';
+import { parseTimeToMinutes } from './timetable';
+
+export type SearchSort = 'departure' | 'arrival' | 'duration' | 'fare';
+
+export const SEARCH_SORTS: SearchSort[] = ['departure', 'arrival', 'duration', 'fare'];
+
+export interface SearchFilters {
+  sort: SearchSort | null; // null keeps the order chosen from the requested time
+  serviceClasses: string[]; // bus types to include; empty = all
+  amenities: string[]; // a bus must have every one of these
+  departAfter: number | null; // minutes on the requested day's axis
+  departBefore: number | null;
+  maxDuration: number | null; // minutes, including transfer waits for journeys
+}
+
+const AMENITY_IDS = new Set(AMENITIES.map(a => a.id));
+
+// `a,b` or a repeated query parameter
+const listParam = (value: any): string[] =>
+  (Array.isArray(value) ? value.join(',') : String(value || ''))
+    .split(',')
+    .map(v => v.trim())
+    .filter(Boolean);
+
+// Amenity ids from an admin request body (array or comma-separated), unknown ones dropped
+export const parseAmenities = (value: any): string[] =>
+  [...new Set(listParam(value).filter(id => AMENITY_IDS.has(id)))];
+
+/**
+ * Read the sort and filter parameters of a search request:
+ * `sort`, `type` (service classes, comma-separated), `amenities`, `departAfter`/`departBefore` (HH:MM)
+ * and `maxDuration` (minutes). Returns an error message for values that cannot be understood.
+ */
+export const parseSearchFilters = (query: any): { filters?: SearchFilters; error?: string } => {
+  const sort = (query.sort as string) || null;
+  if (sort && !SEARCH_SORTS.includes(sort as SearchSort)) {
+    return { error: `sort must be one of ${SEARCH_SORTS.join(', ')}` };
+  }
+
+  const amenities = listParam(query.amenities);
+  const unknown = amenities.find(id => !AMENITY_IDS.has(id));
+  if (unknown) return { error: `Unknown amenity: ${unknown}` };
+
+  const window: Record<'departAfter' | 'departBefore', number | null> = { departAfter: null, departBefore: null };
+  for (const field of ['departAfter', 'departBefore'] as const) {
+    if (!query[field]) continue;
+    const minutes = /^\d{1,2}:\d{2}$/.test(query[field]) ? parseTimeToMinutes(query[field]) : null;
+    if (minutes === null) return { error: `${field} must be a time like 06:30` };
+    window[field] = minutes;
+  }
+
+  let maxDuration: number | null = null;
+  if (query.maxDuration) {
+    maxDuration = Number(query.maxDuration);
+    if (!Number.isFinite(maxDuration) || maxDuration <= 0) {
+      return { error: 'maxDuration must be a positive number of minutes' };
+    }
+  }
+
+  return {
+    filters: {
+      sort: sort as SearchSort | null,
+      serviceClasses: listParam(query.type).filter(t => t !== 'all'),
+      amenities,
+      ...window,
+      maxDuration,
+    },
+  };
+};
+
+// Service class and amenity filters, checked per bus before any trip is looked at
+export const busMatchesFilters = (bus: any, filters: SearchFilters) =>
+  (filters.serviceClasses.length === 0 || filters.serviceClasses.includes(bus.type)) &&
+  filters.amenities.every(id => Array.isArray(bus.amenities) && bus.amenities.includes(id));
+
+// Comparable figures of a direct result or a multi-leg itinerary
+const metricsOf = (item: any) => item.legs
+  ? {
+    departure: parseTimeToMinutes(item.departureTime),
+    arrival: parseTimeToMinutes(item.arrivalTime),
+    duration: item.totalDuration as number,
+    fare: item.totalFare as number,
+  }
+  : {
+    departure: parseTimeToMinutes(item.fromTiming?.departureTime),
+    arrival: parseTimeToMinutes(item.toTiming?.arrivalTime),
+    duration: item.estimatedTime as number,
+    fare: item.fare as number,
+  };
+
+// Departure window and maximum duration; results without a known departure fail a window
+export const matchesResultFilters = (item: any, filters: SearchFilters) => {
+  const { departure, duration } = metricsOf(item);
+  if (filters.departAfter !== null && (departure === null || departure < filters.departAfter)) return false;
+  if (filters.departBefore !== null && (departure === null || departure > filters.departBefore)) return false;
+  if (filters.maxDuration !== null && duration > filters.maxDuration) return false;
+  return true;
+};
+
+export const hasResultFilters = (filters: SearchFilters) =>
+  filters.departAfter !== null || filters.departBefore !== null || filters.maxDuration !== null;
+
+const value = (v: number | null) => (v === null || Number.isNaN(v) ? Infinity : v);
+
+// The figure a result is sorted by; Infinity when unknown, so it sorts last
+export const sortValue = (item: any, sort: SearchSort) => value(metricsOf(item)[sort]);
+
+// Reorder by the requested sort, unknown values last and ties by departure; no sort keeps the order
+export const sortResults = <T>(items: T[], sort: SearchSort | null): T[] => {
+  if (!sort) return items;
+  const keyed = items.map(item => ({ item, metrics: metricsOf(item) }));
+  return keyed
+    .sort((a, b) =>
+      value(a.metrics[sort]) - value(b.metrics[sort]) ||
+      value(a.metrics.departure) - value(b.metrics.departure))
+    .map(k => k.item);
+};
@@ -0,0 +1,108 @@
+import { db } from '../config/firebase';
+
+export const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+export type Weekday = typeof WEEKDAYS[number];
+
+// When a bus operates. Buses without a calendar run every day.
+export interface ServiceCalendar {
+  id: string;
+  name: string;
+  days: Weekday[];
+  validFrom: string | null; // YYYY-MM-DD, inclusive
+  validTo: string | null; // YYYY-MM-DD, inclusive
+  addedDates: string[]; // extra service days outside the weekly pattern
+  removedDates: string[]; // holidays, hartals: no service even if the pattern says so
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Validate a YYYY-MM-DD service date (rejects impossible dates like 2024-02-30)
+export const parseServiceDate = (value: any): string | null => {
+  const s = String(value || '').trim();
+  if (!DATE_PATTERN.test(s)) return null;
+  const d = new Date(`${s}T00:00:00Z`);
+  return !isNaN(d.getTime()) && d.toISOString().slice(0, 10) === s ? s : null;
+};
+
+export const weekdayOf = (date: string): Weekday => WEEKDAYS[new Date(`${date}T00:00:00Z`).getUTCDay()];
+
+// Move a YYYY-MM-DD date by whole days
+export const shiftServiceDate = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+// Accept weekday names in any case or length ("Monday", "mon", "MON")
+const parseWeekday = (value: any): Weekday | null => {
+  const key = String(value || '').trim().slice(0, 3).toLowerCase();
+  return (WEEKDAYS as readonly string[]).includes(key) ? (key as Weekday) : null;
+};
+
+// Accept a date list as an array or a comma/whitespace-separated string; invalid dates are dropped
+const parseDateList = (value: any): string[] => {
+  const list = Array.isArray(value) ? value : String(value || '').split(/[\s,]+/);
+  return Array.from(new Set(list.map(parseServiceDate).filter((d): d is string => d !== null))).sort();
+};
+
+export const toServiceCalendar = (id: string, data: any): ServiceCalendar => ({
+  id,
+  name: data.name || id,
+  days: WEEKDAYS.filter(day => Array.isArray(data.days) && data.days.map(parseWeekday).includes(day)),
+  validFrom: parseServiceDate(data.validFrom),
+  validTo: parseServiceDate(data.validTo),
+  addedDates: parseDateList(data.addedDates),
+  removedDates: parseDateList(data.removedDates),
+});
+
+/**
+ * Validate a calendar from an admin request. Returns the fields to store, or an error message.
+ */
+export const parseCalendarInput = (body: any): { data?: Omit<ServiceCalendar, 'id'>; error?: string } => {
+  const name = String(body.name || '').trim();
+  if (!name) return { error: 'Calendar name is required' };
+
+  for (const field of ['validFrom', 'validTo'] as const) {
+    if (body[field] && !parseServiceDate(body[field])) return { error: `${field} must be a date in YYYY-MM-DD format` };
+  }
+
+  const { id, ...data } = toServiceCalendar('', { ...body, name });
+  if (data.validFrom && data.validTo && data.validFrom > data.validTo) {
+    return { error: 'validFrom must not be after validTo' };
+  }
+  if (data.days.length === 0 && data.addedDates.length === 0) {
+    return { error: 'Select at least one weekday or add a service date' };
+  }
+  return { data };
+};
+
+export const calendarRunsOn = (calendar: ServiceCalendar, date: string): boolean => {
+  if (calendar.removedDates.includes(date)) return false;
+  if (calendar.addedDates.includes(date)) return true;
+  if (calendar.validFrom && date < calendar.validFrom) return false;
+  if (calendar.validTo && date > calendar.validTo) return false;
+  return calendar.days.includes(weekdayOf(date));
+};
+
+/**
+ * Does a bus operate on the date? Buses without a calendar run daily; a calendarId that no
+ * longer exists is treated the same way so a deleted calendar never hides a bus silently.
+ * Legacy timings may carry their own `dayOfWeek` list, checked at the boarding stop.
+ */
+export const busRunsOn = (
+  calendars: Map<string, ServiceCalendar>,
+  bus: any,
+  date: string,
+  boardingTiming?: any
+): boolean => {
+  const calendar = bus.calendarId ? calendars.get(bus.calendarId) : undefined;
+  if (calendar && !calendarRunsOn(calendar, date)) return false;
+
+  const days = Array.isArray(boardingTiming?.dayOfWeek) ? boardingTiming.dayOfWeek.map(parseWeekday).filter(Boolean) : [];
+  return days.length === 0 || days.includes(weekdayOf(date));
+};
+
+export const loadCalendars = async (): Promise<Map<string, ServiceCalendar>> => {
+  const snapshot = await db.collection('calendars').get();
+  return new Map(snapshot.docs.map(doc => [doc.id, toServiceCalendar(doc.id, doc.data())]));
+};
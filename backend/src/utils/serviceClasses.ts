@@ -0,0 +1,91 @@
+import { db } from '../config/firebase';
+import { DEFAULT_SERVICE_CLASS, DEFAULT_SERVICE_CLASSES, FareTable, NightSurcharge } from '../config/fares';
+
+// A bus type (Swift, Low Floor AC, Fast Passenger, ...). Buses refer to it by name in `bus.type`.
+export interface ServiceClass {
+  id: string;
+  name: string;
+  description: string;
+  color: string; // #rrggbb, used for badges
+  fareTable: FareTable;
+}
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const toNumber = (value: any, fallback: number) => {
+  const n = Number(value);
+  return value !== null && value !== '' && Number.isFinite(n) ? n : fallback;
+};
+
+const toNightSurcharge = (value: any): NightSurcharge | null =>
+  value && toNumber(value.percent, 0) > 0
+    ? {
+      percent: toNumber(value.percent, 0),
+      fromMinutes: toNumber(value.fromMinutes, 22 * 60),
+      toMinutes: toNumber(value.toMinutes, 5 * 60),
+    }
+    : null;
+
+const toFareTable = (data: any = {}): FareTable => ({
+  minimumFare: toNumber(data.minimumFare, 0),
+  minimumKm: toNumber(data.minimumKm, 0),
+  stageKm: toNumber(data.stageKm, 1),
+  stageIncrement: toNumber(data.stageIncrement, 0),
+  roundTo: toNumber(data.roundTo, 1),
+  nightSurcharge: toNightSurcharge(data.nightSurcharge),
+});
+
+export const toServiceClass = (id: string, data: any): ServiceClass => ({
+  id,
+  name: data.name || id,
+  description: data.description || '',
+  color: COLOR_PATTERN.test(data.color || '') ? data.color : '#6b7280',
+  fareTable: toFareTable(data.fareTable),
+});
+
+/**
+ * Validate a service class from an admin request. Returns the fields to store, or an error message.
+ */
+export const parseServiceClassInput = (body: any): { data?: Omit<ServiceClass, 'id'>; error?: string } => {
+  const name = String(body.name || '').trim();
+  if (!name) return { error: 'Service class name is required' };
+  if (!COLOR_PATTERN.test(body.color || '')) return { error: 'color must be a hex colour like #2563eb' };
+
+  const table = body.fareTable || {};
+  for (const field of ['minimumFare', 'minimumKm', 'stageIncrement'] as const) {
+    if (!(toNumber(table[field], -1) >= 0)) return { error: `fareTable.${field} must be a number of at least 0` };
+  }
+  for (const field of ['stageKm', 'roundTo'] as const) {
+    if (!(toNumber(table[field], 0) > 0)) return { error: `fareTable.${field} must be greater than 0` };
+  }
+
+  const night = table.nightSurcharge;
+  if (night && toNumber(night.percent, 0) > 0) {
+    if (toNumber(night.percent, 0) > 100) return { error: 'Night surcharge must be at most 100%' };
+    for (const field of ['fromMinutes', 'toMinutes'] as const) {
+      const minutes = toNumber(night[field], -1);
+      if (minutes < 0 || minutes >= 1440) return { error: `nightSurcharge.${field} must be minutes of the day (0-1439)` };
+    }
+  }
+
+  const { id, ...data } = toServiceClass('', { ...body, name, description: String(body.description || '').trim() });
+  return { data };
+};
+
+export const defaultServiceClasses = (): ServiceClass[] =>
+  DEFAULT_SERVICE_CLASSES.map(c => ({ id: c.name.toLowerCase().replace(/\s+/g, '-'), ...c }));
+
+// The class a bus is charged and shown as; unknown types fall back to the ordinary class
+export const serviceClassFor = (classes: ServiceClass[], busType: string): ServiceClass =>
+  classes.find(c => c.name === busType) ||
+  classes.find(c => c.name === DEFAULT_SERVICE_CLASS) ||
+  defaultServiceClasses()[0];
+
+// Stored classes sorted by name; the built-in defaults until an admin saves any
+export const loadServiceClasses = async (): Promise<ServiceClass[]> => {
+  const snapshot = await db.collection('serviceClasses').get();
+  if (snapshot.empty) return defaultServiceClasses();
+  return snapshot.docs
+    .map(doc => toServiceClass(doc.id, doc.data()))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -0,0 +1,167 @@
+import { db } from '../config/firebase';
+import { normalize, getRouteEntries } from './timetable';
+
+// A stop from the `stops` collection, the single source of truth for stop names
+export interface StopRecord {
+  id: string;
+  name: string;
+  district?: string;
+  location?: { lat: number; lng: number };
+  aliases: string[]; // alternative spellings, short forms (TVM, EKM), Malayalam script
+}
+
+// A stop as it appears on a bus route; stopId is null for names not in the registry
+export interface RouteStop {
+  name: string;
+  stopId: string | null;
+  distanceKm?: number; // admin-entered road distance from the previous stop on the route
+}
+
+// User text resolved against the registry
+export interface ResolvedQuery {
+  text: string;
+  key: string;
+  stopIds: Set<string>;
+  keys: Set<string>; // normalized names and aliases of the resolved stops
+}
+
+export interface StopRegistry {
+  stops: StopRecord[];
+  byId: Map<string, StopRecord>;
+  byKey: Map<string, StopRecord[]>;
+}
+
+// Registry keys ignore punctuation, case and repeated whitespace
+export const stopKey = (s: string) => normalize(s).replace(/\s+/g, ' ');
+
+// True when `value` starts with the whole words of `prefix` ("kochi" matches "kochi ksrtc bus stand", not "kochikode")
+const isWordPrefix = (value: string, prefix: string) =>
+  !!prefix && (value === prefix || value.startsWith(prefix + ' '));
+
+export const buildStopRegistry = (stops: StopRecord[]): StopRegistry => {
+  const byId = new Map<string, StopRecord>();
+  const byKey = new Map<string, StopRecord[]>();
+
+  for (const stop of stops) {
+    byId.set(stop.id, stop);
+    const keys = new Set([stop.name, ...stop.aliases].map(stopKey).filter(Boolean));
+    for (const key of keys) {
+      byKey.set(key, [...(byKey.get(key) || []), stop]);
+    }
+  }
+
+  return { stops, byId, byKey };
+};
+
+export const toStopRecord = (id: string, data: any): StopRecord => ({
+  id,
+  name: data.name || '',
+  district: data.district,
+  location: data.location,
+  aliases: Array.isArray(data.aliases) ? data.aliases.filter((a: any) => typeof a === 'string' && a.trim()) : [],
+});
+
+let cachedRegistry: Promise<StopRegistry> | null = null;
+
+/**
+ * Load the stop registry from Firestore (cached until invalidated by an admin write)
+ */
+export const getStopRegistry = (): Promise<StopRegistry> => {
+  if (!cachedRegistry) {
+    cachedRegistry = db.collection('stops').get()
+      .then(snapshot => buildStopRegistry(snapshot.docs.map(doc => toStopRecord(doc.id, doc.data()))))
+      .catch(error => {
+        cachedRegistry = null;
+        throw error;
+      });
+  }
+  return cachedRegistry;
+};
+
+export const invalidateStopRegistry = () => {
+  cachedRegistry = null;
+};
+
+/**
+ * Resolve free text to registry stops: exact name/alias match first,
+ * otherwise stops whose name or alias starts with the text as whole words
+ */
+export const resolveStops = (registry: StopRegistry, text: string): StopRecord[] => {
+  const key = stopKey(text);
+  if (!key) return [];
+
+  const exact = registry.byKey.get(key);
+  if (exact) return exact;
+
+  const matches = new Map<string, StopRecord>();
+  for (const [candidate, stops] of registry.byKey) {
+    if (isWordPrefix(candidate, key)) stops.forEach(s => matches.set(s.id, s));
+  }
+  return Array.from(matches.values());
+};
+
+export const resolveQuery = (registry: StopRegistry, text: string): ResolvedQuery => {
+  const stops = resolveStops(registry, text);
+  const keys = new Set<string>();
+  for (const stop of stops) {
+    [stop.name, ...stop.aliases].map(stopKey).forEach(k => keys.add(k));
+  }
+  return { text, key: stopKey(text), stopIds: new Set(stops.map(s => s.id)), keys };
+};
+
+/**
+ * Registry id for a stop name on a bus. A stored stopId is trusted only if it exists
+ * in the registry (legacy documents carry placeholder ids like `stop_1`).
+ */
+export const stopIdFor = (registry: StopRegistry, name: string, stopId?: string | null): string | null => {
+  if (stopId && registry.byId.has(stopId)) return stopId;
+  const exact = registry.byKey.get(stopKey(name));
+  return exact && exact.length === 1 ? exact[0].id : null;
+};
+
+export const getRouteStops = (registry: StopRegistry, bus: any): RouteStop[] =>
+  getRouteEntries(bus).map(e => ({
+    name: e.name,
+    stopId: stopIdFor(registry, e.name, e.stopId),
+    ...(e.distanceKm !== undefined ? { distanceKm: e.distanceKm } : {}),
+  }));
+
+// Does a stop on a bus satisfy the user's query?
+export const stopMatches = (query: ResolvedQuery, stop: RouteStop): boolean => {
+  if (stop.stopId) return query.stopIds.has(stop.stopId);
+  // Unregistered stop names: compare against the query and the resolved stops' names/aliases
+  const key = stopKey(stop.name);
+  return query.keys.has(key) || isWordPrefix(key, query.key);
+};
+
+// Key used to tell whether two buses share a stop
+export const routeStopKey = (stop: RouteStop) => stop.stopId || stopKey(stop.name);
+
+/**
+ * Link a bus route and its timings to registry stop ids, replacing entered text
+ * with the official stop name. Names not in the registry are kept as-is and reported.
+ */
+export const linkRouteToRegistry = (registry: StopRegistry, route: any[], timings: any[]) => {
+  const unresolved = new Set<string>();
+
+  const link = (name: string, stopId?: string | null) => {
+    const id = stopIdFor(registry, name, stopId);
+    if (!id) {
+      unresolved.add(name);
+      return { stopId: null, name };
+    }
+    return { stopId: id, name: registry.byId.get(id)!.name };
+  };
+
+  // Firestore rejects undefined fields, so distanceKm is only written when set
+  const linkedRoute = getRouteEntries({ route }).map(e => ({
+    ...link(e.name, e.stopId),
+    ...(e.distanceKm !== undefined ? { distanceKm: e.distanceKm } : {}),
+  }));
+  const linkedTimings = timings.map(t => {
+    const { stopId, name } = link(t.stopName || t.stop || '', t.stopId);
+    return { ...t, stopId, stopName: name };
+  });
+
+  return { route: linkedRoute, timings: linkedTimings, unresolvedStops: Array.from(unresolved) };
+};
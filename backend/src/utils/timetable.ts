@@ -0,0 +1,107 @@
+import { zonedParts } from './agencyClock';
+
+// Shared helpers for reading the loosely-shaped bus documents stored in Firestore
+// (routes may be strings or objects, timings may use legacy `{ stop, time }` entries)
+
+// Normalize helper to improve matching robustness
+export const normalize = (s: string) => (s || '').toLowerCase().replace(/[.,\/#!$%\^&\*;:{}=\-_`~()]/g, '').trim();
+
+// Accept HH:MM (24h), HH:MM AM/PM or an ISO timestamp; returns minutes-of-day.
+// HH:MM may run past 24 for service-day times after midnight ("25:30" = 1530).
+export const parseTimeToMinutes = (t: string): number | null => {
+  if (!t) return null;
+  t = String(t).trim();
+  const ampmMatch = t.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
+  if (ampmMatch) {
+    let h = parseInt(ampmMatch[1], 10);
+    const m = parseInt(ampmMatch[2], 10);
+    const ampm = ampmMatch[3].toUpperCase();
+    if (ampm === 'PM' && h !== 12) h += 12;
+    if (ampm === 'AM' && h === 12) h = 0;
+    return h * 60 + m;
+  }
+  const hmMatch = t.match(/^(\d{1,2}):(\d{2})$/);
+  if (hmMatch) {
+    const h = parseInt(hmMatch[1], 10);
+    const m = parseInt(hmMatch[2], 10);
+    if (h >= 48) return null;
+    return h * 60 + m;
+  }
+  // ISO time fallback, read on the agency clock
+  const iso = Date.parse(t);
+  if (!isNaN(iso)) {
+    return zonedParts(new Date(iso)).minutes;
+  }
+  return null;
+};
+
+// Convert minutes-of-day to human-friendly time string
+export const minutesToTimeString = (mins: number) => {
+  const m = ((Math.round(mins) % 1440) + 1440) % 1440;
+  const h = Math.floor(m / 60);
+  const mm = m % 60;
+  const ampm = h >= 12 ? 'PM' : 'AM';
+  const hh = ((h % 12) === 0) ? 12 : (h % 12);
+  return `${hh}:${String(mm).padStart(2, '0')} ${ampm}`;
+};
+
+// Minutes on a service-day axis to "HH:MM"; hours run past 24 after midnight ("25:30")
+export const minutesToServiceTime = (mins: number) => {
+  const m = Math.max(0, Math.round(mins));
+  return `${String(Math.floor(m / 60)).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+};
+
+// Treat placeholder times like '00', '00:00', '00AM' as missing data
+export const isPlaceholderTime = (s: string) => {
+  if (!s) return true;
+  const norm = s.replace(/\s+/g, '').toLowerCase();
+  // matches '00', '0:00', '00:00', optionally with am/pm like '00am'
+  return /^0{1,2}(:0{2})?(am|pm)?$/.test(norm);
+};
+
+// Build an ordered list of route entries from bus.route, including bus.from/bus.to.
+// Entries may carry a `stopId` when the bus has been linked to the stop registry.
+// Admin-entered road distance from the previous stop, if a valid one was given
+const parseDistanceKm = (value: any): number | undefined => {
+  const km = Number(value);
+  return value !== null && value !== '' && Number.isFinite(km) && km >= 0 ? km : undefined;
+};
+
+export const getRouteEntries = (bus: any): Array<{ name: string; stopId?: string; distanceKm?: number }> => {
+  const rawRoute = bus.route;
+  let entries: Array<{ name: string; stopId?: string; distanceKm?: number }> = [];
+  if (Array.isArray(rawRoute)) {
+    entries = rawRoute.map((s: any) => {
+      if (typeof s === 'string') return { name: s };
+      if (typeof s === 'object' && s !== null) {
+        return { name: s?.name || s?.stopName || s?.stop || '', stopId: s?.stopId || undefined, distanceKm: parseDistanceKm(s?.distanceKm) };
+      }
+      return { name: String(s) };
+    }).filter(e => Boolean(e.name));
+  } else if (typeof rawRoute === 'string') {
+    entries = rawRoute.split(/\s*[-–→> ,|]+\s*/).filter(Boolean).map(name => ({ name }));
+  }
+
+  if (bus.from && !entries.some(e => normalize(e.name) === normalize(bus.from))) {
+    entries.unshift({ name: bus.from });
+  }
+  if (bus.to && !entries.some(e => normalize(e.name) === normalize(bus.to))) {
+    entries.push({ name: bus.to });
+  }
+  return entries;
+};
+
+// Ordered array of stop names from bus.route, including bus.from/bus.to
+export const getRouteArray = (bus: any): string[] => getRouteEntries(bus).map(e => e.name);
+
+// Normalize timings and support legacy `{ stop, time }` entries by
+// mapping `time` -> `arrivalTime`/`departureTime` when missing.
+export const getNormalizedTimings = (bus: any) => {
+  if (!Array.isArray(bus.timings)) return [];
+  return (bus.timings as any[]).map(t => {
+    const stopName = t.stopName || t.stop || '';
+    const arrival = t.arrivalTime || t.time || t.departureTime || '';
+    const departure = t.departureTime || t.time || t.arrivalTime || '';
+    return { ...t, stopName, arrivalTime: arrival, departureTime: departure, _n: normalize(stopName) };
+  });
+};
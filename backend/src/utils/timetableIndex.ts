@@ -0,0 +1,282 @@
+import { db } from '../config/firebase';
+import { parseTimeToMinutes, isPlaceholderTime, getNormalizedTimings, minutesToServiceTime } from './timetable';
+import {
+  StopRegistry,
+  ResolvedQuery,
+  RouteStop,
+  getStopRegistry,
+  getRouteStops,
+  stopIdFor,
+  stopMatches,
+  routeStopKey,
+} from './stopRegistry';
+import { RouteSegment, computeSegments } from './routeDistance';
+import { ServiceCalendar, loadCalendars } from './serviceCalendar';
+import { ServiceClass, defaultServiceClasses, loadServiceClasses } from './serviceClasses';
+import { logger } from './logger';
+
+// A route stop with its timing pre-parsed to minutes-of-day
+export interface IndexedStop extends RouteStop {
+  key: string; // registry id, or normalized name for unregistered stops
+  position: number; // position in the bus route
+  timing: any | null; // provided timing for this stop, if any
+  arrival: number | null; // minutes on the trip's service day; past 1440 after midnight
+  departure: number | null;
+  interpolated: boolean; // times estimated from the neighbouring timed stops, not from a timing
+}
+
+// One departure of a bus along its route
+export interface IndexedTrip {
+  id: string; // `${busId}:${number}`
+  number: number; // 1 = the first time entered at each stop
+  bus: any;
+  stops: IndexedStop[];
+  segments: RouteSegment[]; // segments[i] runs from stops[i] to stops[i + 1]
+}
+
+// One trip passing one stop
+export interface StopVisit {
+  trip: IndexedTrip;
+  position: number;
+}
+
+export interface TimetableIndex {
+  registry: StopRegistry;
+  trips: IndexedTrip[];
+  byStop: Map<string, StopVisit[]>;
+  unregisteredKeys: string[]; // stop keys that are plain names rather than registry ids
+  calendars: Map<string, ServiceCalendar>;
+  serviceClasses: ServiceClass[]; // fare tables and display colours per bus type
+  builtAt: Date;
+}
+
+// Pre-parse a provided timing; placeholder times like '00:00' count as missing
+const parseStopTimes = (timing: any) => {
+  const rawArrival = String(timing.arrivalTime || '').trim();
+  const rawDeparture = String(timing.departureTime || '').trim();
+  if (isPlaceholderTime(rawArrival) && isPlaceholderTime(rawDeparture)) return { arrival: null, departure: null };
+  const arrival = parseTimeToMinutes(rawArrival) ?? parseTimeToMinutes(rawDeparture);
+  const departure = parseTimeToMinutes(rawDeparture) ?? arrival;
+  return { arrival, departure };
+};
+
+// A backwards step between consecutive stops longer than this is bad data, not midnight
+const OVERNIGHT_GAP_LIMIT = 12 * 60;
+
+/**
+ * Lay one trip's stop times on a single service-day axis. A time earlier than the previous
+ * stop's is read as crossing midnight (+24h) when that leaves a forward gap of at most
+ * 12 hours, so 10:30 PM -> 6:00 AM becomes 1350 -> 1800. Explicit offsets like "25:30"
+ * already parse past 1440 and need no lifting.
+ */
+const unwrapServiceDay = (times: Array<{ arrival: number | null; departure: number | null }>) => {
+  let offset = 0;
+  let previous: number | null = null;
+  const lift = (minutes: number) => {
+    let value = minutes + offset;
+    if (previous !== null && value < previous && value + 1440 - previous <= OVERNIGHT_GAP_LIMIT) {
+      offset += 1440;
+      value += 1440;
+    }
+    previous = value;
+    return value;
+  };
+  return times.map(t =>
+    t.arrival === null || t.departure === null ? t : { arrival: lift(t.arrival), departure: lift(t.departure) }
+  );
+};
+
+/**
+ * Split a bus's timings into trips. A stop entered with several times (AdminPage
+ * `StopTiming.times`) contributes its k-th time to the k-th trip, in the order entered,
+ * so an overnight departure keeps its early-morning arrival. `source` is the timing's
+ * index in `bus.timings`.
+ */
+const groupTripTimings = (registry: StopRegistry, bus: any) => {
+  const byKey = new Map<string, Array<{ timing: any; source: number }>>();
+  getNormalizedTimings(bus).forEach(({ _n, ...t }, source) => {
+    const stopId = stopIdFor(registry, t.stopName, t.stopId);
+    const key = routeStopKey({ name: t.stopName, stopId });
+    byKey.set(key, [...(byKey.get(key) || []), { timing: { ...t, stopId: stopId ?? t.stopId }, source }]);
+  });
+
+  const routeStops = getRouteStops(registry, bus);
+  const tripCount = Math.max(1, ...Array.from(byKey.values(), list => list.length));
+  const trips = Array.from({ length: tripCount }, (_, k) =>
+    routeStops.map(routeStop => byKey.get(routeStopKey(routeStop))?.[k] ?? null)
+  );
+  return { routeStops, trips };
+};
+
+const tripTimes = (entries: Array<{ timing: any } | null>) =>
+  unwrapServiceDay(entries.map(entry => (entry ? parseStopTimes(entry.timing) : { arrival: null, departure: null })));
+
+/**
+ * Fill stops without a usable time that lie between two timed stops, spreading the
+ * running time between them by segment distance (evenly when a segment distance is unknown).
+ * Stops before the first or after the last timed stop stay untimed.
+ */
+const interpolateTimes = (
+  times: Array<{ arrival: number | null; departure: number | null }>,
+  segments: RouteSegment[]
+) => {
+  const filled = times.map(t => ({ ...t, interpolated: false }));
+  const timed = filled.map((t, i) => (t.departure !== null ? i : -1)).filter(i => i >= 0);
+
+  for (let n = 0; n + 1 < timed.length; n++) {
+    const from = timed[n];
+    const to = timed[n + 1];
+    if (to - from < 2) continue;
+    const gap = segments.slice(from, to);
+    const weights = gap.every(seg => seg.distance !== null && seg.distance > 0)
+      ? gap.map(seg => seg.distance!)
+      : gap.map(() => 1);
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    const start = filled[from].departure!;
+    const span = filled[to].arrival! - start;
+
+    let covered = 0;
+    for (let i = from + 1; i < to; i++) {
+      covered += weights[i - from - 1];
+      const minutes = Math.round(start + (span * covered) / total);
+      filled[i] = { arrival: minutes, departure: minutes, interpolated: true };
+    }
+  }
+  return filled;
+};
+
+/**
+ * Expand a bus document into one trip per departure; stops with fewer times than the
+ * bus has trips are left untimed on the later trips.
+ */
+export const indexBusTrips = (registry: StopRegistry, bus: any): IndexedTrip[] => {
+  const { routeStops, trips } = groupTripTimings(registry, bus);
+  const segments = computeSegments(registry, routeStops);
+
+  return trips.map((entries, k) => {
+    const times = interpolateTimes(tripTimes(entries), segments);
+    const stops = routeStops.map((routeStop, position) => ({
+      ...routeStop,
+      key: routeStopKey(routeStop),
+      position,
+      timing: entries[position]?.timing ?? null,
+      ...times[position],
+    }));
+    return { id: `${bus.id}:${k + 1}`, number: k + 1, bus, stops, segments };
+  });
+};
+
+/**
+ * Copy of `bus.timings` with times after midnight rewritten as service-day offsets
+ * ("6:00 AM" on a trip that left at 10:30 PM becomes "30:00"). Applied when buses are saved.
+ */
+export const withServiceDayTimes = (registry: StopRegistry, bus: any): any[] => {
+  const timings = Array.isArray(bus.timings) ? bus.timings.map((t: any) => ({ ...t })) : [];
+  for (const entries of groupTripTimings(registry, bus).trips) {
+    const times = tripTimes(entries);
+    entries.forEach((entry, position) => {
+      const { arrival, departure } = times[position];
+      if (!entry || arrival === null || departure === null || departure < 1440) return;
+      timings[entry.source].arrivalTime = minutesToServiceTime(arrival);
+      timings[entry.source].departureTime = minutesToServiceTime(departure);
+    });
+  }
+  return timings;
+};
+
+// A trip's ordered stop times as returned to clients (null times = not scheduled at that stop)
+export const tripStopTimes = (trip: IndexedTrip) =>
+  trip.stops.map(stop => ({
+    stopId: stop.stopId,
+    stopName: stop.name,
+    arrivalTime: stop.interpolated ? minutesToServiceTime(stop.arrival!) : stop.timing?.arrivalTime || null,
+    departureTime: stop.interpolated ? minutesToServiceTime(stop.departure!) : stop.timing?.departureTime || null,
+    interpolated: stop.interpolated,
+  }));
+
+export const buildTimetableIndex = (
+  registry: StopRegistry,
+  buses: any[],
+  calendars: Map<string, ServiceCalendar> = new Map(),
+  serviceClasses: ServiceClass[] = defaultServiceClasses()
+): TimetableIndex => {
+  const trips = buses.flatMap(bus => indexBusTrips(registry, bus));
+  const byStop = new Map<string, StopVisit[]>();
+
+  for (const trip of trips) {
+    const seen = new Set<string>();
+    for (const stop of trip.stops) {
+      // A route that loops back through a stop is indexed at its first visit
+      if (seen.has(stop.key)) continue;
+      seen.add(stop.key);
+      byStop.set(stop.key, [...(byStop.get(stop.key) || []), { trip, position: stop.position }]);
+    }
+  }
+
+  const unregisteredKeys = Array.from(byStop.keys()).filter(key => !registry.byId.has(key));
+  return { registry, trips, byStop, unregisteredKeys, calendars, serviceClasses, builtAt: new Date() };
+};
+
+let currentIndex: Promise<TimetableIndex> | null = null;
+
+/**
+ * Rebuild the index from Firestore. Searches issued while the rebuild runs wait for it,
+ * so they never see data older than the last admin write.
+ */
+export const refreshTimetableIndex = (): Promise<TimetableIndex> => {
+  const build = Promise.all([getStopRegistry(), db.collection('buses').get(), loadCalendars(), loadServiceClasses()])
+    .then(([registry, snapshot, calendars, serviceClasses]) =>
+      buildTimetableIndex(registry, snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })), calendars, serviceClasses));
+  currentIndex = build;
+  build
+    .then(index => logger.info('Timetable index built', { trips: index.trips.length, stops: index.byStop.size }))
+    .catch(error => {
+      logger.error('Error building timetable index', { error });
+      if (currentIndex === build) currentIndex = null;
+    });
+  return build;
+};
+
+export const getTimetableIndex = (): Promise<TimetableIndex> => currentIndex || refreshTimetableIndex();
+
+// Every trip visit at a stop satisfying the query
+export const lookupVisits = (index: TimetableIndex, query: ResolvedQuery): StopVisit[] => {
+  const visits: StopVisit[] = [];
+  for (const stopId of query.stopIds) {
+    visits.push(...(index.byStop.get(stopId) || []));
+  }
+  for (const key of index.unregisteredKeys) {
+    const visit = index.byStop.get(key)!;
+    if (stopMatches(query, visit[0].trip.stops[visit[0].position])) visits.push(...visit);
+  }
+  return visits;
+};
+
+/**
+ * Trips serving both queries in the requested direction. For a same-stop query the
+ * trip is returned with fromPos === toPos.
+ */
+export const findDirectTrips = (index: TimetableIndex, from: ResolvedQuery, to: ResolvedQuery) => {
+  const firstVisit = (visits: StopVisit[]) => {
+    const byTrip = new Map<string, StopVisit>();
+    for (const v of visits) {
+      const existing = byTrip.get(v.trip.id);
+      if (!existing || v.position < existing.position) byTrip.set(v.trip.id, v);
+    }
+    return byTrip;
+  };
+
+  const fromVisits = firstVisit(lookupVisits(index, from));
+  const sameStop = from.key === to.key;
+  const toVisits = sameStop ? fromVisits : firstVisit(lookupVisits(index, to));
+
+  const matches: Array<{ trip: IndexedTrip; fromPos: number; toPos: number }> = [];
+  for (const [tripId, fromVisit] of fromVisits) {
+    const toVisit = toVisits.get(tripId);
+    if (!toVisit) continue;
+    // Found both stops but in reverse order -> not a match for this direction
+    if (!sameStop && fromVisit.position > toVisit.position) continue;
+    matches.push({ trip: fromVisit.trip, fromPos: fromVisit.position, toPos: toVisit.position });
+  }
+  return matches;
+};
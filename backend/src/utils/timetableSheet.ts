@@ -0,0 +1,311 @@
+import { StopRegistry, getRouteStops, routeStopKey, stopIdFor, stopKey } from './stopRegistry';
+import { getNormalizedTimings, minutesToServiceTime, minutesToTimeString, parseTimeToMinutes } from './timetable';
+import { AMENITIES } from '../config/amenities';
+
+// The admin timetable as a spreadsheet: one row per stop time (bus, stop, trip), with the
+// bus's own fields repeated on each of its rows. Export and import use the same layout,
+// so an exported file can be edited and imported back.
+
+export const TIMETABLE_COLUMNS = [
+  'busId', 'busName', 'busNumber', 'type', 'from', 'via', 'to', 'calendarId', 'amenities',
+  'sequence', 'stopName', 'distanceKm', 'trip', 'arrivalTime', 'departureTime', 'platform',
+];
+
+// Bus fields read from every row of a bus; they must agree across its rows
+const BUS_FIELDS = ['busName', 'busNumber', 'type', 'from', 'via', 'to', 'calendarId', 'amenities'] as const;
+
+type Row = { line: number; values: Record<string, string> };
+
+export interface SheetError {
+  line: number | null;
+  message: string;
+}
+
+// A bus as read from the sheet, in the shape the bus endpoints accept
+export interface SheetBus {
+  id: string | null; // null = new bus
+  line: number; // first row of the bus
+  fields: Record<typeof BUS_FIELDS[number], any>;
+  route: Array<string | { name: string; distanceKm: number }>;
+  timings: Array<{ stopName: string; arrivalTime: string; departureTime: string; platform?: string }>;
+  trips: number;
+}
+
+export interface SheetContext {
+  existingIds: Set<string>;
+  calendarIds: Set<string>;
+  serviceClassNames: string[]; // service classes, and types already used by stored buses
+}
+
+export interface TimetableChange {
+  action: 'create' | 'update' | 'delete';
+  busId: string | null;
+  busName: string;
+  changes: string[]; // fields that differ from the stored bus
+  stops: number;
+  trips: number;
+}
+
+const AMENITY_IDS = new Set(AMENITIES.map(a => a.id));
+
+/**
+ * Export rows for buses: every route stop with each of its times (trip 1, 2, ... in the
+ * order the times were entered); a stop without any time gets one row with no trip.
+ */
+export const timetableRows = (registry: StopRegistry, buses: any[]): Array<Record<string, string | number>> =>
+  buses.flatMap(bus => {
+    const byKey = new Map<string, any[]>();
+    getNormalizedTimings(bus).forEach(({ _n, ...t }) => {
+      const key = routeStopKey({ name: t.stopName, stopId: stopIdFor(registry, t.stopName, t.stopId) });
+      byKey.set(key, [...(byKey.get(key) || []), t]);
+    });
+    const busFields = {
+      busId: bus.id,
+      busName: bus.busName || '',
+      busNumber: bus.busNumber || '',
+      type: bus.type || '',
+      from: bus.from || '',
+      via: bus.via || '',
+      to: bus.to || '',
+      calendarId: bus.calendarId || '',
+      amenities: (Array.isArray(bus.amenities) ? bus.amenities : []).join(', '),
+    };
+
+    return getRouteStops(registry, bus).flatMap((stop, position): Array<Record<string, string | number>> => {
+      const stopFields = {
+        ...busFields,
+        sequence: position + 1,
+        stopName: stop.name,
+        distanceKm: stop.distanceKm ?? '',
+      };
+      const times = byKey.get(routeStopKey(stop)) || [];
+      if (times.length === 0) return [{ ...stopFields, trip: '', arrivalTime: '', departureTime: '', platform: '' }];
+      return times.map((t, k) => ({
+        ...stopFields,
+        trip: k + 1,
+        arrivalTime: t.arrivalTime,
+        departureTime: t.departureTime,
+        platform: t.platform || '',
+      }));
+    });
+  });
+
+/**
+ * A time cell: anything the timetable accepts ("6:15 AM", "18:15", "25:30"), or a spreadsheet
+ * time stored as a fraction of a day. Returns the text to store, or null when unreadable.
+ */
+const readTime = (value: string): string | null => {
+  if (/^\d*\.\d+$|^[01]$/.test(value)) {
+    const minutes = Math.round(parseFloat(value) * 1440);
+    if (minutes < 0 || minutes >= 2880) return null;
+    return minutes < 1440 ? minutesToTimeString(minutes) : minutesToServiceTime(minutes);
+  }
+  return parseTimeToMinutes(value) !== null ? value : null;
+};
+
+const positiveInt = (value: string) => (/^\d+$/.test(value) && parseInt(value, 10) > 0 ? parseInt(value, 10) : null);
+
+/**
+ * Read and validate sheet rows into buses. Rows with a busId update that bus; rows without
+ * one are grouped into new buses by name, number and endpoints. Every problem is reported
+ * with its line, and buses with errors are left out.
+ */
+export const parseTimetableSheet = (rows: Row[], context: SheetContext): { buses: SheetBus[]; listedIds: Set<string>; errors: SheetError[] } => {
+  const errors: SheetError[] = [];
+  // Every busId in the file, including buses left out for errors, so they are never taken as removed
+  const listedIds = new Set(rows.map(row => row.values.busId).filter(Boolean));
+  if (rows.length === 0) return { buses: [], listedIds, errors: [{ line: null, message: 'The file has no rows' }] };
+  const missing = ['busName', 'sequence', 'stopName'].filter(column => !(column in rows[0].values));
+  if (missing.length > 0) {
+    return { buses: [], listedIds, errors: [{ line: null, message: `Missing columns: ${missing.join(', ')} (expected ${TIMETABLE_COLUMNS.join(', ')})` }] };
+  }
+
+  const classNames = new Set(context.serviceClassNames);
+  const groups = new Map<string, Row[]>();
+  for (const row of rows) {
+    const v = row.values;
+    const key = v.busId
+      ? `id:${v.busId}`
+      : `new:${[v.busName, v.busNumber, v.from, v.to].map(s => stopKey(s || '')).join('|')}`;
+    groups.set(key, [...(groups.get(key) || []), row]);
+  }
+
+  const buses: SheetBus[] = [];
+  for (const group of groups.values()) {
+    const first = group[0];
+    const id = first.values.busId || null;
+    const errorCount = errors.length;
+    const fail = (line: number | null, message: string) => errors.push({ line, message });
+
+    if (id && !context.existingIds.has(id)) fail(first.line, `busId "${id}" does not exist (leave it empty to add a new bus)`);
+    for (const row of group.slice(1)) {
+      for (const field of BUS_FIELDS) {
+        if ((row.values[field] || '') !== (first.values[field] || '')) {
+          fail(row.line, `${field} differs from line ${first.line} of the same bus`);
+        }
+      }
+    }
+
+    const f = first.values;
+    if (!f.busName) fail(first.line, 'busName is required');
+    if (f.type && !classNames.has(f.type)) fail(first.line, `type "${f.type}" is not a service class`);
+    if (f.calendarId && !context.calendarIds.has(f.calendarId)) fail(first.line, `calendarId "${f.calendarId}" does not exist`);
+    const amenities = (f.amenities || '').split(',').map(a => a.trim()).filter(Boolean);
+    const unknown = amenities.filter(a => !AMENITY_IDS.has(a));
+    if (unknown.length > 0) fail(first.line, `Unknown amenities: ${unknown.join(', ')}`);
+
+    // Stops by sequence, and each stop's times by trip
+    type SheetStop = { name: string; distanceKm?: number; times: Map<number, { arrivalTime: string; departureTime: string; platform: string }> };
+    const stops = new Map<number, SheetStop>();
+    for (const { line, values } of group) {
+      const sequence = positiveInt(values.sequence || '');
+      if (sequence === null) {
+        fail(line, 'sequence must be a whole number from 1');
+        continue;
+      }
+      if (!values.stopName) {
+        fail(line, 'stopName is required');
+        continue;
+      }
+      const stop: SheetStop = stops.get(sequence) || { name: values.stopName, times: new Map() };
+      stops.set(sequence, stop);
+      if (stopKey(stop.name) !== stopKey(values.stopName)) {
+        fail(line, `Stop ${sequence} is "${stop.name}" on another row of this bus`);
+        continue;
+      }
+      if (values.distanceKm) {
+        const km = Number(values.distanceKm);
+        if (!Number.isFinite(km) || km < 0) fail(line, 'distanceKm must be a number of at least 0');
+        else stop.distanceKm = km;
+      }
+
+      const rawArrival = values.arrivalTime || values.departureTime || '';
+      const rawDeparture = values.departureTime || values.arrivalTime || '';
+      if (!rawArrival) continue; // a stop the bus passes without a timed call
+      const arrivalTime = readTime(rawArrival);
+      const departureTime = readTime(rawDeparture);
+      if (!arrivalTime || !departureTime) {
+        fail(line, 'arrivalTime and departureTime must be times like 6:15 AM, 18:15 or 25:30');
+        continue;
+      }
+      const trip = values.trip ? positiveInt(values.trip) : 1;
+      if (trip === null) {
+        fail(line, 'trip must be a whole number from 1');
+        continue;
+      }
+      if (stop.times.has(trip)) {
+        fail(line, `Trip ${trip} already has a time at stop ${sequence}`);
+        continue;
+      }
+      stop.times.set(trip, { arrivalTime, departureTime, platform: values.platform || '' });
+    }
+
+    const ordered = [...stops.entries()].sort((a, b) => a[0] - b[0]);
+    const trips = Math.max(0, ...ordered.map(([, stop]) => stop.times.size));
+    if (ordered.length < 2) fail(first.line, `"${f.busName}" needs at least two stops`);
+    if (trips === 0) fail(first.line, `"${f.busName}" has no times`);
+    // A bus stores the k-th time at each stop as its k-th trip, so a stop's times must be for trips 1..n
+    for (const [sequence, stop] of ordered) {
+      const numbers = [...stop.times.keys()].sort((a, b) => a - b);
+      if (numbers.some((trip, i) => trip !== i + 1)) {
+        fail(first.line, `Stop ${sequence} (${stop.name}) has times for trips ${numbers.join(', ')}; a stop's times must be for trips 1, 2, 3... without gaps`);
+      }
+    }
+    if (errors.length > errorCount) continue;
+
+    buses.push({
+      id,
+      line: first.line,
+      fields: {
+        busName: f.busName,
+        busNumber: f.busNumber || '',
+        type: f.type || 'Ordinary',
+        from: f.from || ordered[0][1].name,
+        via: f.via || '',
+        to: f.to || ordered[ordered.length - 1][1].name,
+        calendarId: f.calendarId || null,
+        amenities,
+      },
+      route: ordered.map(([, stop], i) =>
+        i > 0 && stop.distanceKm !== undefined ? { name: stop.name, distanceKm: stop.distanceKm } : stop.name),
+      timings: ordered.flatMap(([, stop]) => [...stop.times.entries()]
+        .sort((a, b) => a[0] - b[0])
+        .map(([, t]) => ({
+          stopName: stop.name,
+          arrivalTime: t.arrivalTime,
+          departureTime: t.departureTime,
+          ...(t.platform ? { platform: t.platform } : {}),
+        }))),
+      trips,
+    });
+  }
+  return { buses, listedIds, errors };
+};
+
+// Times compared by clock value, so "25:30" stored for an overnight trip equals "1:30 AM"
+const sameTime = (a: string, b: string) => minutesToTimeString(parseTimeToMinutes(a) ?? -1) === minutesToTimeString(parseTimeToMinutes(b) ?? -1);
+
+// Which parts of a stored bus (read back through the sheet layout) differ from the sheet's
+const changedFields = (stored: SheetBus, sheet: SheetBus) => {
+  const changes: string[] = BUS_FIELDS.filter(field =>
+    JSON.stringify(field === 'amenities' ? [...stored.fields[field]].sort() : stored.fields[field])
+      !== JSON.stringify(field === 'amenities' ? [...sheet.fields[field]].sort() : sheet.fields[field]));
+  if (JSON.stringify(stored.route) !== JSON.stringify(sheet.route)) changes.push('route');
+  const timingsDiffer = stored.timings.length !== sheet.timings.length || stored.timings.some((t, i) => {
+    const s = sheet.timings[i];
+    return stopKey(t.stopName) !== stopKey(s.stopName) || !sameTime(t.arrivalTime, s.arrivalTime)
+      || !sameTime(t.departureTime, s.departureTime) || (t.platform || '') !== (s.platform || '');
+  });
+  if (timingsDiffer) changes.push('timings');
+  return changes;
+};
+
+// A stored bus read through the sheet layout, so both sides are compared alike. Its own type,
+// calendar and id are taken as valid; null when it cannot be read (legacy data).
+const storedSheetBus = (registry: StopRegistry, bus: any): SheetBus | null => {
+  const rows = timetableRows(registry, [bus]).map((values, i) => ({
+    line: i + 2,
+    values: Object.fromEntries(Object.entries(values).map(([k, v]) => [k, String(v)])),
+  }));
+  return parseTimetableSheet(rows, {
+    existingIds: new Set([bus.id]),
+    calendarIds: new Set(bus.calendarId ? [bus.calendarId] : []),
+    serviceClassNames: [String(bus.type || '')],
+  }).buses[0] || null;
+};
+
+/**
+ * Compare sheet buses with the stored ones. Buses missing from the sheet are deleted only
+ * when `deleteMissing` is set, so a sheet with a few buses can be imported on its own.
+ */
+export const diffTimetable = (
+  registry: StopRegistry,
+  sheet: { buses: SheetBus[]; listedIds: Set<string> },
+  storedBuses: any[],
+  deleteMissing: boolean
+) => {
+  const storedById = new Map(storedBuses.map(bus => [bus.id, bus]));
+  const changes: TimetableChange[] = [];
+  let unchanged = 0;
+
+  for (const bus of sheet.buses) {
+    const summary = { busId: bus.id, busName: bus.fields.busName, stops: bus.route.length, trips: bus.trips };
+    if (!bus.id) {
+      changes.push({ action: 'create', changes: [], ...summary });
+      continue;
+    }
+    const stored = storedSheetBus(registry, storedById.get(bus.id));
+    const fields = stored ? changedFields(stored, bus) : ['route', 'timings'];
+    if (fields.length === 0) unchanged++;
+    else changes.push({ action: 'update', changes: fields, ...summary });
+  }
+
+  if (deleteMissing) {
+    for (const bus of storedBuses) {
+      if (!sheet.listedIds.has(bus.id)) {
+        changes.push({ action: 'delete', busId: bus.id, busName: bus.busName || '', changes: [], stops: 0, trips: 0 });
+      }
+    }
+  }
+  return { changes, unchanged };
+};
@@ -0,0 +1,124 @@
+import { createZip, readZip } from './zip';
+
+// Single-sheet XLSX workbooks: written with inline strings, read back from whatever Excel,
+// LibreOffice or Google Sheets saved (shared strings, numbers, inline strings).
+
+type CellValue = string | number | null | undefined;
+
+const escapeXml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (s: string) =>
+  s.replace(/&(lt|gt|quot|apos|amp|#(\d+)|#x([0-9a-f]+));/gi, (_, name, dec, hex) =>
+    dec ? String.fromCodePoint(parseInt(dec, 10))
+      : hex ? String.fromCodePoint(parseInt(hex, 16))
+        : ({ lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' } as Record<string, string>)[name.toLowerCase()]);
+
+// Column letters of a zero-based index: 0 -> A, 26 -> AA
+const columnName = (index: number): string =>
+  index < 26 ? String.fromCharCode(65 + index) : columnName(Math.floor(index / 26) - 1) + columnName(index % 26);
+
+const columnIndex = (letters: string) =>
+  letters.split('').reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0) - 1;
+
+const cellXml = (value: CellValue, ref: string) => {
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'number') return `<c r="${ref}"><v>${value}</v></c>`;
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+};
+
+/**
+ * A workbook with one sheet: a header row, then one row per record. Numbers are written as
+ * numbers and everything else as text, so times like "6:15 AM" are not reinterpreted.
+ */
+export const toXlsx = (sheetName: string, columns: string[], rows: Array<Record<string, CellValue>>): Buffer => {
+  const lines = [columns, ...rows.map(row => columns.map(column => row[column]))]
+    .map((values, r) =>
+      `<row r="${r + 1}">${values.map((value, c) => cellXml(value, `${columnName(c)}${r + 1}`)).join('')}</row>`);
+
+  const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: `${xml}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      data: `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: `${xml}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">`
+        + `<sheets><sheet name="${escapeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+        + '</Relationships>',
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      data: `${xml}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${lines.join('')}</sheetData></worksheet>`,
+    },
+  ]);
+};
+
+// Text of an <si> or <is> element; rich text is split over several <t> runs
+const textOf = (xml: string) =>
+  unescapeXml([...xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)].map(m => m[1]).join(''));
+
+/**
+ * Rows of the first sheet of a workbook, keyed by the header row like parseCsv. Cells are
+ * returned as their stored text: numbers (and times typed into a time-formatted cell,
+ * which are stored as fractions of a day) come back as their number.
+ */
+export const parseXlsx = (workbook: Buffer): Array<{ line: number; values: Record<string, string> }> => {
+  const files = readZip(workbook);
+  const read = (name: string) => files.get(name)?.toString('utf8') || '';
+
+  // The first sheet listed in the workbook, found through the workbook relationships
+  const firstSheet = read('xl/workbook.xml').match(/<sheet\s[^>]*r:id="([^"]+)"/);
+  const target = firstSheet
+    ? read('xl/_rels/workbook.xml.rels').match(new RegExp(`<Relationship\\s[^>]*Id="${firstSheet[1]}"[^>]*Target="([^"]+)"`))
+      || read('xl/_rels/workbook.xml.rels').match(new RegExp(`<Relationship\\s[^>]*Target="([^"]+)"[^>]*Id="${firstSheet[1]}"`))
+    : null;
+  const sheetPath = target ? `xl/${target[1].replace(/^\/?xl\//, '')}` : 'xl/worksheets/sheet1.xml';
+  const sheet = read(sheetPath);
+  if (!sheet) throw new Error('The workbook has no worksheet');
+
+  const shared = [...read('xl/sharedStrings.xml').matchAll(/<si>([\s\S]*?)<\/si>/g)].map(m => textOf(m[1]));
+
+  const rows: Array<{ line: number; cells: string[] }> = [];
+  for (const row of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const line = parseInt((row[1].match(/\br="(\d+)"/) || [])[1] || String(rows.length + 1), 10);
+    const cells: string[] = [];
+    for (const cell of (row[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const ref = (cell[1].match(/\br="([A-Z]+)\d+"/) || [])[1];
+      const type = (cell[1].match(/\bt="(\w+)"/) || [])[1];
+      const body = cell[2] || '';
+      const raw = (body.match(/<v>([\s\S]*?)<\/v>/) || [])[1];
+      const value = type === 's' ? shared[parseInt(raw || '', 10)] ?? ''
+        : type === 'inlineStr' ? textOf(body)
+          : unescapeXml(raw || '');
+      cells[ref ? columnIndex(ref) : cells.length] = value;
+    }
+    rows.push({ line, cells });
+  }
+
+  const [header, ...body] = rows;
+  const columns = (header?.cells || []).map(name => (name || '').trim());
+  return body
+    .filter(({ cells }) => cells.some(value => value && value.trim() !== ''))
+    .map(({ line, cells }) => ({
+      line,
+      values: Object.fromEntries(columns.map((column, n) => [column, (cells[n] ?? '').trim()])),
+    }));
+};
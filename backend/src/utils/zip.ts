@@ -0,0 +1,165 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+// Minimal ZIP archive reader and writer (stored or deflated entries, no ZIP64): enough for
+// GTFS feeds and spreadsheets, without pulling in an archive library.
+
+export interface ZipEntry {
+  name: string;
+  data: Buffer | string;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+export const crc32 = (data: Buffer) => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time fields used by ZIP headers (local time, 2-second resolution)
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Pack files into a ZIP archive. Each entry is deflated unless that would make it larger.
+ */
+export const createZip = (entries: ZipEntry[], modified = new Date()): Buffer => {
+  const { time, date } = dosDateTime(modified);
+  const locals: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8');
+    const data = Buffer.isBuffer(entry.data) ? entry.data : Buffer.from(entry.data, 'utf8');
+    const deflated = deflateRawSync(data);
+    const stored = deflated.length >= data.length;
+    const body = stored ? data : deflated;
+    const crc = crc32(data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed to extract
+    local.writeUInt16LE(0x0800, 6); // names are UTF-8
+    local.writeUInt16LE(stored ? 0 : 8, 8);
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(20, 4); // version made by
+    header.writeUInt16LE(20, 6);
+    header.writeUInt16LE(0x0800, 8);
+    header.writeUInt16LE(stored ? 0 : 8, 10);
+    header.writeUInt16LE(time, 12);
+    header.writeUInt16LE(date, 14);
+    header.writeUInt32LE(crc, 16);
+    header.writeUInt32LE(body.length, 20);
+    header.writeUInt32LE(data.length, 24);
+    header.writeUInt16LE(name.length, 28);
+    header.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, body);
+    central.push(header, name);
+    offset += local.length + name.length + body.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+};
+
+// Uncompressed entries larger than this, or archives whose files add up to more, are refused,
+// so a crafted archive cannot exhaust memory
+const MAX_ENTRY_BYTES = 200 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 500 * 1024 * 1024;
+
+const megabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+/**
+ * Read the files in a ZIP archive (stored or deflated entries), keyed by their path
+ * inside the archive. Throws when the buffer is not a ZIP archive this reader understands,
+ * when a header points outside the archive, or when the files are too large to unpack.
+ */
+export const readZip = (archive: Buffer): Map<string, Buffer> => {
+  // Every offset and length read from a header must stay inside the archive
+  const within = (start: number, length: number, what: string) => {
+    if (start < 0 || length < 0 || start + length > archive.length) throw new Error(`Corrupt zip: ${what} runs past the end of the file`);
+  };
+
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  let end = -1;
+  for (let i = archive.length - 22; i >= Math.max(0, archive.length - 22 - 0xffff); i--) {
+    if (archive.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a zip archive');
+
+  const count = archive.readUInt16LE(end + 10);
+  let pointer = archive.readUInt32LE(end + 16);
+  const files = new Map<string, Buffer>();
+  let total = 0;
+
+  for (let n = 0; n < count; n++) {
+    within(pointer, 46, 'central directory');
+    if (archive.readUInt32LE(pointer) !== 0x02014b50) throw new Error('Corrupt zip central directory');
+    const method = archive.readUInt16LE(pointer + 10);
+    const compressedSize = archive.readUInt32LE(pointer + 20);
+    const nameLength = archive.readUInt16LE(pointer + 28);
+    const extraLength = archive.readUInt16LE(pointer + 30);
+    const commentLength = archive.readUInt16LE(pointer + 32);
+    const localOffset = archive.readUInt32LE(pointer + 42);
+    within(pointer + 46, nameLength + extraLength + commentLength, 'central directory');
+    const name = archive.toString('utf8', pointer + 46, pointer + 46 + nameLength);
+    pointer += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue; // directory entry
+    // Local headers repeat the name and may carry a different extra field
+    within(localOffset, 30, `local header of ${name}`);
+    if (archive.readUInt32LE(localOffset) !== 0x04034b50) throw new Error(`Corrupt zip: no local header for ${name}`);
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+    within(dataStart, compressedSize, `data of ${name}`);
+    const body = archive.subarray(dataStart, dataStart + compressedSize);
+
+    const allowed = Math.min(MAX_ENTRY_BYTES, MAX_TOTAL_BYTES - total);
+    const tooLarge = () => new Error(allowed < MAX_ENTRY_BYTES
+      ? `The files in the archive add up to more than ${megabytes(MAX_TOTAL_BYTES)} unpacked`
+      : `${name} is larger than ${megabytes(MAX_ENTRY_BYTES)} unpacked`);
+    let data: Buffer;
+    if (method === 0) {
+      data = body;
+    } else if (method === 8) {
+      try {
+        data = inflateRawSync(body, { maxOutputLength: Math.max(allowed, 1) });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') throw tooLarge();
+        throw new Error(`Corrupt zip: cannot inflate ${name}`);
+      }
+    } else {
+      throw new Error(`Unsupported compression in ${name}`);
+    }
+    if (data.length > allowed) throw tooLarge();
+    total += data.length;
+    files.set(name, data);
+  }
+  return files;
+};
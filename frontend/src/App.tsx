@@ -10,6 +10,7 @@ import FavoritesPage from './pages/FavoritesPage';
 import AdminPage from './pages/AdminPage';
 import AboutPage from './pages/AboutPage';
 import DebugPage from './pages/DebugPage';
+import DepartureBoardPage from './pages/DepartureBoardPage';
 
 function App() {
   useEffect(() => {
@@ -26,6 +27,7 @@ function App() {
             <Route path="/" element={<HomePage />} />
             <Route path="/search" element={<SearchResults />} />
             <Route path="/favorites" element={<FavoritesPage />} />
+            <Route path="/stops/:id" element={<DepartureBoardPage />} />
             <Route 
               path="/admin" 
               element={
@@ -35,7 +37,14 @@ function App() {
               } 
             />
             <Route path="/about" element={<AboutPage />} />
-            <Route path="/debug" element={<DebugPage />} />
+            <Route
+              path="/debug"
+              element={
+                <ProtectedRoute requireAdmin={true}>
+                  <DebugPage />
+                </ProtectedRoute>
+              }
+            />
           </Routes>
         </main>
         <Footer />
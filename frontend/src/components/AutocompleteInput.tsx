@@ -1,11 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { BusStop } from '../types';
+import { suggestStops, StopSuggestion } from '../utils/stops';
 
 interface AutocompleteInputProps {
   label: string;
   placeholder: string;
   value: string;
   onChange: (value: string) => void;
-  suggestions: string[];
+  stops: BusStop[]; // Stop registry; suggestions match official names and aliases
   icon?: React.ReactNode;
 }
 
@@ -14,11 +16,11 @@ const AutocompleteInput: React.FC<AutocompleteInputProps> = ({
   placeholder,
   value,
   onChange,
-  suggestions,
+  stops,
   icon,
 }) => {
   const [showSuggestions, setShowSuggestions] = useState(false);
-  const [filteredSuggestions, setFilteredSuggestions] = useState<string[]>([]);
+  const [filteredSuggestions, setFilteredSuggestions] = useState<StopSuggestion[]>([]);
   const wrapperRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -38,19 +40,15 @@ const AutocompleteInput: React.FC<AutocompleteInputProps> = ({
     onChange(userInput);
 
     if (userInput.trim()) {
-      const filtered = suggestions.filter(
-        (suggestion) =>
-          suggestion.toLowerCase().includes(userInput.toLowerCase())
-      );
-      setFilteredSuggestions(filtered);
+      setFilteredSuggestions(suggestStops(stops, userInput));
       setShowSuggestions(true);
     } else {
       setShowSuggestions(false);
     }
   };
 
-  const handleSuggestionClick = (suggestion: string) => {
-    onChange(suggestion);
+  const handleSuggestionClick = (suggestion: StopSuggestion) => {
+    onChange(suggestion.stop.name);
     setShowSuggestions(false);
   };
 
@@ -68,24 +66,23 @@ const AutocompleteInput: React.FC<AutocompleteInputProps> = ({
         onChange={handleInputChange}
         onFocus={() => {
             if (value.trim()) {
-                const filtered = suggestions.filter(
-                    (suggestion) =>
-                      suggestion.toLowerCase().includes(value.toLowerCase())
-                  );
-                  setFilteredSuggestions(filtered);
-                  setShowSuggestions(true);
+                setFilteredSuggestions(suggestStops(stops, value));
+                setShowSuggestions(true);
             }
         }}
       />
       {showSuggestions && filteredSuggestions.length > 0 && (
         <ul className="absolute z-10 w-full bg-white border border-gray-300 rounded-md shadow-lg max-h-60 overflow-y-auto mt-1">
-          {filteredSuggestions.map((suggestion, index) => (
+          {filteredSuggestions.map((suggestion) => (
             <li
-              key={index}
+              key={suggestion.stop.id}
               className="px-4 py-2 hover:bg-gray-100 cursor-pointer text-sm text-gray-700"
               onClick={() => handleSuggestionClick(suggestion)}
             >
-              {suggestion}
+              {suggestion.stop.name}
+              {suggestion.matchedAlias && (
+                <span className="ml-2 text-xs text-gray-500">({suggestion.matchedAlias})</span>
+              )}
             </li>
           ))}
         </ul>
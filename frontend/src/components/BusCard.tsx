@@ -1,7 +1,12 @@
 import { Clock, MapPin, Bus as BusIcon, ChevronDown, ChevronUp, Navigation } from 'lucide-react';
 import { BusResult } from '../types';
 import { useState } from 'react';
+import { Link } from 'react-router-dom';
 import BusProgress from './BusProgress';
+import ServiceClassBadge from './ServiceClassBadge';
+import { routeItemName } from '../utils/stops';
+import { formatServiceTime } from '../utils/time';
+import { describeFare } from '../utils/fare';
 
 interface BusCardProps {
   result: BusResult;
@@ -9,17 +14,11 @@ interface BusCardProps {
 }
 
 const BusCard = ({ result, compact = false }: BusCardProps) => {
-  const { bus, fromTiming, toTiming, distance, estimatedTime, fare, partial } = result;
+  const { bus, fromTiming, toTiming, distance, distanceSource, estimatedTime, fare, partial } = result;
   const [expanded, setExpanded] = useState(false);
 
-  const extractStopNameFromRouteItem = (item: any) => {
-    if (!item && item !== 0) return '';
-    if (typeof item === 'string') return item;
-    return item?.name || item?.stopName || item?.stop || '';
-  };
-
-  const displayFromName = (fromTiming?.stopName) || bus.from || (Array.isArray(bus.route) && extractStopNameFromRouteItem(bus.route[0])) || 'N/A';
-  const displayToName = (toTiming?.stopName) || bus.to || (Array.isArray(bus.route) && extractStopNameFromRouteItem(bus.route[bus.route.length - 1])) || 'N/A';
+  const displayFromName = (fromTiming?.stopName) || bus.from || (Array.isArray(bus.route) && routeItemName(bus.route[0])) || 'N/A';
+  const displayToName = (toTiming?.stopName) || bus.to || (Array.isArray(bus.route) && routeItemName(bus.route[bus.route.length - 1])) || 'N/A';
   const isPlaceholderTime = (s?: string) => {
     if (!s) return true;
     const v = String(s).trim();
@@ -32,26 +31,20 @@ const BusCard = ({ result, compact = false }: BusCardProps) => {
   const sanitizeTime = (t?: string) => {
     if (!t) return '—';
     if (isPlaceholderTime(t)) return '—';
-    return t;
+    return formatServiceTime(t);
   };
 
-  const displayFromTime = sanitizeTime(fromTiming?.departureTime || fromTiming?.arrivalTime);
-  const displayToTime = sanitizeTime(toTiming?.arrivalTime || toTiming?.departureTime);
+  // "~" marks times interpolated between the stops the bus has published times for
+  const displayFromTime = `${fromTiming?.interpolated ? '~' : ''}${sanitizeTime(fromTiming?.departureTime || fromTiming?.arrivalTime)}`;
+  const displayToTime = `${toTiming?.interpolated ? '~' : ''}${sanitizeTime(toTiming?.arrivalTime || toTiming?.departureTime)}`;
 
-  const getBusTypeColor = (type: string) => {
-    switch (type) {
-      case 'KSRTC':
-        return 'bg-blue-100 text-blue-800';
-      case 'Private':
-        return 'bg-purple-100 text-purple-800';
-      case 'Fast':
-        return 'bg-green-100 text-green-800';
-      case 'Super Fast':
-        return 'bg-red-100 text-red-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
-    }
-  };
+  // The trip's own stop times when the backend provides them; older results only carry the route
+  const tripStops = result.stopTimes || bus.route.map(stop => ({
+    stopId: typeof stop === 'string' ? null : stop.stopId,
+    stopName: routeItemName(stop),
+    arrivalTime: null,
+    departureTime: null,
+  }));
 
   return (
     <div className="card hover:shadow-2xl transition-all duration-300 animate-slide-up relative overflow-hidden">
@@ -61,6 +54,11 @@ const BusCard = ({ result, compact = false }: BusCardProps) => {
           Estimated times
         </div>
       )}
+      {result.timingSource === 'interpolated' && (
+        <div className="absolute left-4 top-4 bg-yellow-50 text-yellow-800 px-3 py-1 rounded-full text-xs font-medium z-20">
+          Some times interpolated
+        </div>
+      )}
       {/* Partial Match Banner */}
       {partial && (
         <div className="bg-yellow-100 border-l-4 border-yellow-500 px-4 py-2 mb-4">
@@ -90,10 +88,11 @@ const BusCard = ({ result, compact = false }: BusCardProps) => {
                   Search: {result.requestedFrom || ''} → {result.requestedTo || ''} {result.requestedTime ? `at ${result.requestedTime}` : ''}
                 </p>
               )}
+              {result.serviceDate && result.requestedDate && result.serviceDate !== result.requestedDate && (
+                <p className="text-xs text-indigo-600 mt-1">Night service from the previous day</p>
+              )}
             </div>
-            <span className={`px-3 py-1 rounded-full text-xs font-semibold ${getBusTypeColor(bus.type)}`}>
-              {bus.type}
-            </span>
+            <ServiceClassBadge type={bus.type} />
           </div>
 
           {/* Timing Info */}
@@ -126,12 +125,19 @@ const BusCard = ({ result, compact = false }: BusCardProps) => {
             <div className="text-center">
               <MapPin className="h-5 w-5 text-gray-600 mx-auto mb-1" />
               <p className="text-xs text-gray-600">Distance</p>
-              <p className="text-sm font-bold text-gray-900">{distance ?? 'N/A'} km</p>
+              <p className="text-sm font-bold text-gray-900" title={distanceSource === 'estimate' ? 'Estimated from the number of stops' : undefined}>
+                {distanceSource === 'estimate' ? '~' : ''}{distance ?? 'N/A'} km
+              </p>
             </div>
             <div className="text-center">
               <div className="text-gray-600 mx-auto mb-1 text-xl font-medium">₹</div>
               <p className="text-xs text-gray-600">Fare</p>
-              <p className="text-sm font-bold text-green-600">{new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(fare || 0)}</p>
+              <p className="text-sm font-bold text-green-600" title={result.fareBreakdown ? describeFare(result.fareBreakdown) : undefined}>
+                {new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(fare || 0)}
+              </p>
+              {result.fareBreakdown?.concession && (
+                <p className="text-xs text-gray-500">{result.fareBreakdown.concession.label}</p>
+              )}
             </div>
           </div>
           {/* 3D Bus Animation - hide in compact mode to save perf */}
@@ -152,7 +158,7 @@ const BusCard = ({ result, compact = false }: BusCardProps) => {
           >
             <span className="flex items-center">
               <Navigation className="h-4 w-4 mr-2" />
-              View Full Route ({bus.route.length} stops)
+              View Full Route ({tripStops.length} stops)
             </span>
             {expanded ? <ChevronUp className="h-5 w-5" /> : <ChevronDown className="h-5 w-5" />}
           </button>
@@ -165,14 +171,16 @@ const BusCard = ({ result, compact = false }: BusCardProps) => {
                 
                 {/* Stops List */}
                 <div className="space-y-4">
-                  {bus.route.map((stop: any, idx: number) => {
-                    const stopName = extractStopNameFromRouteItem(stop) || 'Unknown';
+                  {tripStops.map((stop, idx: number) => {
+                    const stopName = stop.stopName || 'Unknown';
+                    const stopId = stop.stopId;
                     const isFirst = idx === 0;
-                    const isLast = idx === bus.route.length - 1;
+                    const isLast = idx === tripStops.length - 1;
                     const fromCmp = (fromTiming?.stopName || displayFromName).toLowerCase();
                     const toCmp = (toTiming?.stopName || displayToName).toLowerCase();
-                    const isFromStop = stopName.toLowerCase().includes(fromCmp) || fromCmp.includes(stopName.toLowerCase());
-                    const isToStop = stopName.toLowerCase().includes(toCmp) || toCmp.includes(stopName.toLowerCase());
+                    // Registry-linked stops compare by id, otherwise fall back to text comparison
+                    const isFromStop = (!!stopId && stopId === fromTiming?.stopId) || stopName.toLowerCase().includes(fromCmp) || fromCmp.includes(stopName.toLowerCase());
+                    const isToStop = (!!stopId && stopId === toTiming?.stopId) || stopName.toLowerCase().includes(toCmp) || toCmp.includes(stopName.toLowerCase());
                     
                     return (
                       <div key={idx} className="flex items-center relative">
@@ -201,16 +209,29 @@ const BusCard = ({ result, compact = false }: BusCardProps) => {
                             {isFromStop && !isFirst && ' (Your From)'}
                             {isToStop && !isLast && ' (Your To)'}
                           </p>
-                          {(isFromStop || isToStop) && bus.timings && bus.timings[idx] && (
+                          {stop.stopId && (
+                            <Link to={`/stops/${stop.stopId}`} className="text-xs text-primary-600 hover:underline">
+                              Departures from here
+                            </Link>
+                          )}
+                          {(isFromStop || isToStop) && (stop.arrivalTime || stop.departureTime) ? (
                             <p className="text-sm text-gray-600">
-                              Arrival: {sanitizeTime(bus.timings[idx].arrivalTime)} | 
-                              Departure: {sanitizeTime(bus.timings[idx].departureTime)}
+                              Arrival: {sanitizeTime(stop.arrivalTime || undefined)} | 
+                              Departure: {sanitizeTime(stop.departureTime || undefined)}
+                              {stop.interpolated && <span className="italic text-gray-400"> (interpolated)</span>}
+                            </p>
+                          ) : stop.arrivalTime && (
+                            <p
+                              className={`text-xs ${stop.interpolated ? 'italic text-gray-400' : 'text-gray-500'}`}
+                              title={stop.interpolated ? 'Estimated from the neighbouring stops with published times' : undefined}
+                            >
+                              {stop.interpolated ? `~${sanitizeTime(stop.arrivalTime)} (interpolated)` : sanitizeTime(stop.arrivalTime)}
                             </p>
                           )}
                         </div>
                         
                         {/* Animated Bus Icon for current position */}
-                        {idx < bus.route.length - 1 && idx % 3 === 1 && (
+                        {idx < tripStops.length - 1 && idx % 3 === 1 && (
                           <div className="absolute left-3 animate-bus-move">
                             <BusIcon className="h-6 w-6 text-primary-600" />
                           </div>
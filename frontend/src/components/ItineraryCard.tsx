@@ -0,0 +1,91 @@
+import { Clock, MapPin, Bus as BusIcon, Repeat } from 'lucide-react';
+import { Itinerary } from '../types';
+import { formatServiceTime } from '../utils/time';
+import { describeFare } from '../utils/fare';
+import ServiceClassBadge from './ServiceClassBadge';
+
+interface ItineraryCardProps {
+  itinerary: Itinerary;
+}
+
+const formatFare = (fare: number) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(fare || 0);
+
+const formatDuration = (minutes: number) => {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return h > 0 ? `${h}h ${m}m` : `${m} min`;
+};
+
+const ItineraryCard = ({ itinerary }: ItineraryCardProps) => {
+  const { legs, transfers, departureTime, arrivalTime, totalDuration, totalWaitMinutes, totalDistance, totalFare } = itinerary;
+
+  return (
+    <div className="card hover:shadow-2xl transition-all duration-300 animate-slide-up">
+      {/* Summary */}
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-4">
+        <div>
+          <p className="text-2xl font-bold text-gray-900">
+            {formatServiceTime(departureTime)} → {formatServiceTime(arrivalTime)}
+          </p>
+          <p className="text-sm text-gray-600">
+            {transfers === 0 ? 'Direct' : `${transfers} transfer${transfers > 1 ? 's' : ''}`}
+            {totalWaitMinutes > 0 && ` · ${totalWaitMinutes} min waiting`}
+          </p>
+        </div>
+        <div className="flex space-x-6 mt-3 md:mt-0">
+          <div className="text-center">
+            <Clock className="h-5 w-5 text-gray-600 mx-auto mb-1" />
+            <p className="text-xs text-gray-600">Duration</p>
+            <p className="text-sm font-bold text-gray-900">{formatDuration(totalDuration)}</p>
+          </div>
+          <div className="text-center">
+            <MapPin className="h-5 w-5 text-gray-600 mx-auto mb-1" />
+            <p className="text-xs text-gray-600">Distance</p>
+            <p className="text-sm font-bold text-gray-900">{totalDistance} km</p>
+          </div>
+          <div className="text-center">
+            <div className="text-gray-600 mx-auto mb-1 text-xl font-medium">₹</div>
+            <p className="text-xs text-gray-600">Total Fare</p>
+            <p className="text-sm font-bold text-green-600">{formatFare(totalFare)}</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Legs */}
+      <div className="border-t border-gray-200 pt-4 space-y-3">
+        {legs.map((leg, idx) => (
+          <div key={idx}>
+            {idx > 0 && (
+              <div className="flex items-center text-sm text-orange-700 bg-orange-50 rounded-lg px-3 py-2 mb-3">
+                <Repeat className="h-4 w-4 mr-2" />
+                Change at {leg.fromTiming.stopName} — wait {leg.waitMinutes} min
+              </div>
+            )}
+            <div className="flex items-start space-x-3">
+              <div className="bg-primary-600 p-2 rounded-lg">
+                <BusIcon className="h-5 w-5 text-white" />
+              </div>
+              <div className="flex-1">
+                <div className="flex items-center space-x-2">
+                  <h4 className="font-semibold text-gray-800">{leg.bus.busName}</h4>
+                  <ServiceClassBadge type={leg.bus.type} className="px-2 py-0.5" />
+                </div>
+                <p className="text-sm text-gray-700">
+                  <span className="font-medium">{leg.fromTiming.interpolated && '~'}{formatServiceTime(leg.fromTiming.departureTime)}</span> {leg.fromTiming.stopName}
+                  {' → '}
+                  <span className="font-medium">{leg.toTiming.interpolated && '~'}{formatServiceTime(leg.toTiming.arrivalTime)}</span> {leg.toTiming.stopName}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {formatDuration(leg.estimatedTime)} · {leg.distanceSource === 'estimate' ? '~' : ''}{leg.distance} km · <span title={leg.fareBreakdown ? describeFare(leg.fareBreakdown) : undefined}>{formatFare(leg.fare)}</span>
+                </p>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ItineraryCard;
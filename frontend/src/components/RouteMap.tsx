@@ -1,6 +1,8 @@
 import { MapContainer, TileLayer, Marker, Popup, Polyline } from 'react-leaflet';
-import { BusResult } from '../types';
+import { BusResult, BusStop } from '../types';
 import { useEffect, useState } from 'react';
+import useStops from '../hooks/useStops';
+import { resolveStop, routeItemName } from '../utils/stops';
 import { Bus as BusIcon } from 'lucide-react';
 import 'leaflet/dist/leaflet.css';
 import L from 'leaflet';
@@ -28,8 +30,8 @@ interface RouteMapProps {
 // Default Kerala center coordinates
 const KERALA_CENTER = { lat: 10.8505, lng: 76.2711 };
 
-// Mock geocoding - uses OpenStreetMap data for common Kerala locations
-const geocodeLocation = async (location: string): Promise<{ lat: number; lng: number } | null> => {
+// Fallback coordinates for common Kerala locations not (yet) in the stop registry
+const lookupKnownLocation = (location: string): { lat: number; lng: number } | null => {
   // Expanded coordinates for Kerala locations (from OpenStreetMap)
   const mockLocations: Record<string, { lat: number; lng: number }> = {
     // Major cities
@@ -82,15 +84,27 @@ const geocodeLocation = async (location: string): Promise<{ lat: number; lng: nu
   return mockLocations[normalized] || null;
 };
 
+// Resolve a stop through the registry (id first, then name/alias), then the fallback table
+const geocodeLocation = (
+  stops: BusStop[],
+  location: string,
+  stopId?: string | null
+): { lat: number; lng: number } | null => {
+  const registered = (stopId && stops.find(s => s.id === stopId)) || resolveStop(stops, location);
+  if (registered?.location) return registered.location;
+  return lookupKnownLocation(location);
+};
+
 const RouteMap = ({ from, to, results }: RouteMapProps) => {
+  const stops = useStops();
   const [fromCoords, setFromCoords] = useState<{ lat: number; lng: number } | null>(null);
   const [toCoords, setToCoords] = useState<{ lat: number; lng: number } | null>(null);
   const [routePoints, setRoutePoints] = useState<{ lat: number; lng: number }[]>([]);
 
   useEffect(() => {
     const loadCoordinates = async () => {
-      const fromLoc = await geocodeLocation(from);
-      const toLoc = await geocodeLocation(to);
+      const fromLoc = geocodeLocation(stops, from);
+      const toLoc = geocodeLocation(stops, to);
       
       setFromCoords(fromLoc || { lat: KERALA_CENTER.lat - 0.5, lng: KERALA_CENTER.lng });
       setToCoords(toLoc || { lat: KERALA_CENTER.lat + 0.5, lng: KERALA_CENTER.lng });
@@ -98,17 +112,11 @@ const RouteMap = ({ from, to, results }: RouteMapProps) => {
       // Build route points from first result if available
       if (results.length > 0 && results[0].bus.route) {
         const points: { lat: number; lng: number }[] = [];
-        const extractStopNameFromRouteItem = (item: any) => {
-          if (!item && item !== 0) return '';
-          if (typeof item === 'string') return item;
-          return item?.name || item?.stopName || item?.stop || '';
-        };
-
-        // Cast each stop to `any` to avoid strict typing issues when stop entries have mixed shapes
-        for (const stopRaw of results[0].bus.route as any[]) {
-          const stopName = extractStopNameFromRouteItem(stopRaw).trim();
+
+        for (const stopRaw of results[0].bus.route) {
+          const stopName = routeItemName(stopRaw).trim();
           if (!stopName) continue;
-          const coords = await geocodeLocation(stopName);
+          const coords = geocodeLocation(stops, stopName, typeof stopRaw === 'string' ? null : stopRaw.stopId);
           if (coords) {
             points.push(coords);
           }
@@ -118,7 +126,7 @@ const RouteMap = ({ from, to, results }: RouteMapProps) => {
     };
 
     loadCoordinates();
-  }, [from, to, results]);
+  }, [from, to, results, stops]);
 
   if (!fromCoords || !toCoords) {
     return (
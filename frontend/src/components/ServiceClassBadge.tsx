@@ -0,0 +1,27 @@
+import useServiceClasses from '../hooks/useServiceClasses';
+
+interface ServiceClassBadgeProps {
+  type: string;
+  className?: string; // padding/size; defaults to the BusCard badge
+  color?: string; // overrides the class colour, e.g. to preview an unsaved one
+}
+
+const FALLBACK_COLOR = '#6b7280';
+
+// Bus type pill in the colour an admin chose for the service class
+const ServiceClassBadge = ({ type, className = 'px-3 py-1', color: colorOverride }: ServiceClassBadgeProps) => {
+  const serviceClass = useServiceClasses().find(c => c.name === type);
+  const color = colorOverride || serviceClass?.color || FALLBACK_COLOR;
+
+  return (
+    <span
+      className={`rounded-full text-xs font-semibold ${className}`}
+      style={{ backgroundColor: `${color}1a`, color }}
+      title={serviceClass?.description || undefined}
+    >
+      {type}
+    </span>
+  );
+};
+
+export default ServiceClassBadge;
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import api from '../config/api';
+import { Amenity } from '../types';
+
+// Fetched once per page load and shared by the search filters and the admin bus form
+let amenitiesRequest: Promise<Amenity[]> | null = null;
+
+const loadAmenities = () => {
+  if (!amenitiesRequest) {
+    amenitiesRequest = api.get('/api/buses/amenities')
+      .then(response => (response.data.success ? response.data.data : []) as Amenity[])
+      .catch(error => {
+        amenitiesRequest = null;
+        throw error;
+      });
+  }
+  return amenitiesRequest;
+};
+
+const useAmenities = () => {
+  const [amenities, setAmenities] = useState<Amenity[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+    loadAmenities()
+      .then(data => {
+        if (mounted) setAmenities(data);
+      })
+      .catch(error => console.error('Failed to fetch amenities:', error));
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  return amenities;
+};
+
+export default useAmenities;
@@ -0,0 +1,38 @@
+import { useEffect, useState } from 'react';
+import api from '../config/api';
+import { Concession } from '../types';
+
+// Fetched once per page load, for the fare category dropdown
+let concessionsRequest: Promise<Concession[]> | null = null;
+
+const loadConcessions = () => {
+  if (!concessionsRequest) {
+    concessionsRequest = api.get('/api/buses/concessions')
+      .then(response => (response.data.success ? response.data.data : []) as Concession[])
+      .catch(error => {
+        concessionsRequest = null;
+        throw error;
+      });
+  }
+  return concessionsRequest;
+};
+
+const useConcessions = () => {
+  const [concessions, setConcessions] = useState<Concession[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+    loadConcessions()
+      .then(data => {
+        if (mounted) setConcessions(data);
+      })
+      .catch(error => console.error('Failed to fetch concessions:', error));
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  return concessions;
+};
+
+export default useConcessions;
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import api from '../config/api';
+import { ServiceClass } from '../types';
+
+// Fetched once per page load and shared by every dropdown and badge
+let classesRequest: Promise<ServiceClass[]> | null = null;
+
+const loadServiceClasses = () => {
+  if (!classesRequest) {
+    classesRequest = api.get('/api/buses/service-classes')
+      .then(response => (response.data.success ? response.data.data : []) as ServiceClass[])
+      .catch(error => {
+        classesRequest = null;
+        throw error;
+      });
+  }
+  return classesRequest;
+};
+
+// Call after an admin edit so the next load sees the change
+export const refreshServiceClasses = () => {
+  classesRequest = null;
+  return loadServiceClasses();
+};
+
+const useServiceClasses = () => {
+  const [classes, setClasses] = useState<ServiceClass[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+    loadServiceClasses()
+      .then(data => {
+        if (mounted) setClasses(data);
+      })
+      .catch(error => console.error('Failed to fetch service classes:', error));
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  return classes;
+};
+
+export default useServiceClasses;
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import api from '../config/api';
+import { BusStop } from '../types';
+
+// Fetched once per page load and shared by every component that needs the stop registry
+let stopsRequest: Promise<BusStop[]> | null = null;
+
+const loadStops = () => {
+  if (!stopsRequest) {
+    stopsRequest = api.get('/api/buses/stops')
+      .then(response => (response.data.success ? response.data.data : []) as BusStop[])
+      .catch(error => {
+        stopsRequest = null;
+        throw error;
+      });
+  }
+  return stopsRequest;
+};
+
+// Call after an admin edit so the next load sees the change
+export const refreshStops = () => {
+  stopsRequest = null;
+  return loadStops();
+};
+
+const useStops = () => {
+  const [stops, setStops] = useState<BusStop[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+    loadStops()
+      .then(data => {
+        if (mounted) setStops(data);
+      })
+      .catch(error => console.error('Failed to fetch stops:', error));
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  return stops;
+};
+
+export default useStops;
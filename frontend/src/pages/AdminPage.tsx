@@ -1,11 +1,21 @@
 import { useState, useEffect } from 'react';
-import { Plus, Bus, MapPin, Save, AlertCircle, X, Edit2, Trash2, Search, Copy } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Plus, Bus, MapPin, Save, AlertCircle, X, Edit2, Trash2, Search, Copy, Tag, Link2, CalendarDays, Palette, Stethoscope, Upload, Download } from 'lucide-react';
 import toast from 'react-hot-toast';
 import api from '../config/api';
+import { useAuth } from '../contexts/AuthContext';
+import { BackupRestoreReport, BusStop, FareTable, GtfsImportReport, RouteStop, ServiceCalendar, ServiceClass, TimetableImportReport, Weekday } from '../types';
+import { refreshStops } from '../hooks/useStops';
+import { refreshServiceClasses } from '../hooks/useServiceClasses';
+import useAmenities from '../hooks/useAmenities';
+import ServiceClassBadge from '../components/ServiceClassBadge';
+import { stopKey } from '../utils/stops';
 
 interface StopTiming {
   stopName: string;
   times: { arrivalTime: string; period: 'AM' | 'PM' }[];
+  distanceKm?: string; // optional road distance from the previous stop
+  platform?: string; // optional bay or platform the bus departs from at this stop
 }
 
 interface BusData {
@@ -16,12 +26,142 @@ interface BusData {
   via: string;
   to: string;
   type: string;
-  route: string[];
-  timings: Array<{ stop?: string; stopName?: string; time?: string; arrivalTime?: string; departureTime?: string }>;
+  calendarId?: string | null;
+  amenities?: string[];
+  route: Array<string | RouteStop>;
+  timings: Array<{ stop?: string; stopName?: string; stopId?: string | null; time?: string; arrivalTime?: string; departureTime?: string; platform?: string }>;
 }
 
+const WEEKDAYS: Array<{ key: Weekday; label: string }> = [
+  { key: 'mon', label: 'Mon' },
+  { key: 'tue', label: 'Tue' },
+  { key: 'wed', label: 'Wed' },
+  { key: 'thu', label: 'Thu' },
+  { key: 'fri', label: 'Fri' },
+  { key: 'sat', label: 'Sat' },
+  { key: 'sun', label: 'Sun' },
+];
+
+const EMPTY_CALENDAR_FORM = {
+  name: '',
+  days: ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as Weekday[],
+  validFrom: '',
+  validTo: '',
+  addedDates: '',
+  removedDates: '',
+};
+
+const EMPTY_CLASS_FORM = {
+  name: '',
+  description: '',
+  color: '#2563eb',
+  minimumFare: '10',
+  minimumKm: '2.5',
+  stageKm: '2.5',
+  stageIncrement: '2.5',
+  roundTo: '1',
+  nightPercent: '',
+  nightFrom: '22:00',
+  nightTo: '05:00',
+};
+
+const FARE_FIELDS = [
+  { key: 'minimumFare', label: 'Minimum fare (₹)' },
+  { key: 'minimumKm', label: 'Covers first (km)' },
+  { key: 'stageKm', label: 'Fare stage (km)' },
+  { key: 'stageIncrement', label: 'Per stage (₹)' },
+  { key: 'roundTo', label: 'Round to (₹)' },
+] as const;
+
+// Collections a backup can hold (backend utils/backup.ts)
+const BACKUP_COLLECTIONS = ['buses', 'stops', 'calendars', 'serviceClasses', 'alerts', 'favorites', 'feedback'];
+
+const toClockTime = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const fromClockTime = (value: string) => {
+  const [h, m] = value.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+// Service class form <-> API payload (fare numbers, night surcharge times in minutes of day)
+const toClassPayload = (form: typeof EMPTY_CLASS_FORM) => ({
+  name: form.name.trim(),
+  description: form.description.trim(),
+  color: form.color,
+  fareTable: {
+    minimumFare: parseFloat(form.minimumFare),
+    minimumKm: parseFloat(form.minimumKm),
+    stageKm: parseFloat(form.stageKm),
+    stageIncrement: parseFloat(form.stageIncrement),
+    roundTo: parseFloat(form.roundTo),
+    nightSurcharge: parseFloat(form.nightPercent) > 0
+      ? { percent: parseFloat(form.nightPercent), fromMinutes: fromClockTime(form.nightFrom), toMinutes: fromClockTime(form.nightTo) }
+      : null,
+  },
+});
+
+const toClassForm = (serviceClass: ServiceClass): typeof EMPTY_CLASS_FORM => ({
+  name: serviceClass.name,
+  description: serviceClass.description,
+  color: serviceClass.color,
+  minimumFare: String(serviceClass.fareTable.minimumFare),
+  minimumKm: String(serviceClass.fareTable.minimumKm),
+  stageKm: String(serviceClass.fareTable.stageKm),
+  stageIncrement: String(serviceClass.fareTable.stageIncrement),
+  roundTo: String(serviceClass.fareTable.roundTo),
+  nightPercent: serviceClass.fareTable.nightSurcharge ? String(serviceClass.fareTable.nightSurcharge.percent) : '',
+  nightFrom: toClockTime(serviceClass.fareTable.nightSurcharge?.fromMinutes ?? 22 * 60),
+  nightTo: toClockTime(serviceClass.fareTable.nightSurcharge?.toMinutes ?? 5 * 60),
+});
+
+const describeFareTable = (table: FareTable) => {
+  const night = table.nightSurcharge
+    ? ` · +${table.nightSurcharge.percent}% ${toClockTime(table.nightSurcharge.fromMinutes)}–${toClockTime(table.nightSurcharge.toMinutes)}`
+    : '';
+  return `₹${table.minimumFare} for ${table.minimumKm} km, then ₹${table.stageIncrement} per ${table.stageKm} km${night}`;
+};
+
+// Segment distance overrides are stored on the route entry of the stop they arrive at
+const withRouteDistances = (bus: BusData, rows: StopTiming[]): StopTiming[] =>
+  rows.map(row => {
+    const entry = bus.route.find(
+      (item): item is RouteStop => typeof item !== 'string' && stopKey(item.name) === stopKey(row.stopName)
+    );
+    return typeof entry?.distanceKm === 'number' ? { ...row, distanceKm: String(entry.distanceKm) } : row;
+  });
+
+// Timings sent to the backend, one per entered time; the bay is only sent when given
+const toTimingsPayload = (rows: StopTiming[]) =>
+  rows.flatMap(st => st.times.map(t => ({
+    stopName: st.stopName.trim(),
+    arrivalTime: `${t.arrivalTime} ${t.period}`,
+    departureTime: `${t.arrivalTime} ${t.period}`,
+    ...(st.platform?.trim() ? { platform: st.platform.trim() } : {}),
+  })));
+
+// Route entries sent to the backend, carrying any segment distance override
+// Split a stored time into the form's 12-hour value and period; service-day times
+// after midnight ("25:30") are stored by the backend and shown here as 1:30 AM
+const toFormTime = (timeRaw: string): { arrivalTime: string; period: 'AM' | 'PM' } => {
+  const serviceTime = timeRaw.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (serviceTime) {
+    const h = parseInt(serviceTime[1], 10) % 24;
+    return { arrivalTime: `${h % 12 === 0 ? 12 : h % 12}:${serviceTime[2]}`, period: h >= 12 ? 'PM' : 'AM' };
+  }
+  const parts = timeRaw.trim().split(/\s+/);
+  return { arrivalTime: parts[0] || '', period: (parts[1] || 'AM') as 'AM' | 'PM' };
+};
+
+const toRoutePayload = (rows: StopTiming[]) =>
+  rows.map((st, i) => {
+    const km = parseFloat(st.distanceKm || '');
+    return i > 0 && Number.isFinite(km) && km >= 0 ? { name: st.stopName.trim(), distanceKm: km } : st.stopName.trim();
+  });
+
 const AdminPage = () => {
-  const [activeTab, setActiveTab] = useState<'buses' | 'stops'>('buses');
+  const { currentUser } = useAuth();
+  const [activeTab, setActiveTab] = useState<'buses' | 'stops' | 'registry' | 'calendars' | 'classes' | 'import'>('buses');
   const [busForm, setBusForm] = useState({
     busName: '',
     busNumber: '',
@@ -29,6 +169,8 @@ const AdminPage = () => {
     via: '',
     to: '',
     type: 'KSRTC',
+    calendarId: '',
+    amenities: [] as string[],
   });
   const [stopTimings, setStopTimings] = useState<StopTiming[]>([
     { stopName: '', times: [{ arrivalTime: '', period: 'AM' }] }
@@ -39,19 +181,376 @@ const AdminPage = () => {
   const [editingBus, setEditingBus] = useState<BusData | null>(null);
   const [isLoadingBuses, setIsLoadingBuses] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [busesCursor, setBusesCursor] = useState<string | null>(null); // next page of the bus list
+
+  const [registryStops, setRegistryStops] = useState<BusStop[]>([]);
+  const [aliasDrafts, setAliasDrafts] = useState<Record<string, string>>({});
+  const [stopForm, setStopForm] = useState({ name: '', district: '', lat: '', lng: '', aliases: '' });
+
+  const [calendars, setCalendars] = useState<ServiceCalendar[]>([]);
+  const [calendarForm, setCalendarForm] = useState(EMPTY_CALENDAR_FORM);
+  const [editingCalendarId, setEditingCalendarId] = useState<string | null>(null);
+
+  // serviceClasses feed the bus type dropdowns (built-in defaults until some are saved);
+  // storedClasses are the ones saved in Firestore, listed on the Service Classes tab
+  const [serviceClasses, setServiceClasses] = useState<ServiceClass[]>([]);
+  const [storedClasses, setStoredClasses] = useState<ServiceClass[]>([]);
+  const [classForm, setClassForm] = useState(EMPTY_CLASS_FORM);
+  const [editingClassId, setEditingClassId] = useState<string | null>(null);
+
+  // GTFS feed import: the chosen zip, and the preview or result the backend reported for it
+  const [gtfsFile, setGtfsFile] = useState<File | null>(null);
+  const [gtfsReport, setGtfsReport] = useState<GtfsImportReport | null>(null);
+  const [gtfsBusy, setGtfsBusy] = useState(false);
+  const [sheetFile, setSheetFile] = useState<File | null>(null);
+  const [sheetDeleteMissing, setSheetDeleteMissing] = useState(false);
+  const [sheetReport, setSheetReport] = useState<TimetableImportReport | null>(null);
+  const [sheetBusy, setSheetBusy] = useState(false);
+  const [backupIncludeRiders, setBackupIncludeRiders] = useState(false);
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [backupCollection, setBackupCollection] = useState('');
+  const [backupReport, setBackupReport] = useState<BackupRestoreReport | null>(null);
+  const [backupBusy, setBackupBusy] = useState(false);
 
   // Fetch all buses when "Manage Bus" tab is active
   useEffect(() => {
-    if (activeTab === 'stops') {
-      fetchAllBuses();
+    if (activeTab === 'registry') {
+      fetchRegistryStops();
+    }
+    if (activeTab === 'classes') {
+      fetchStoredClasses();
     }
+    // Calendars and service classes populate the bus form's dropdowns too
+    fetchCalendars();
+    refreshServiceClasses().then(setServiceClasses).catch(error => console.error('Error fetching service classes:', error));
   }, [activeTab]);
 
-  const fetchAllBuses = async () => {
+  // The bus list is searched on the server; wait for typing to pause before querying
+  useEffect(() => {
+    if (activeTab !== 'stops') return;
+    const timer = setTimeout(() => fetchAllBuses(), searchQuery ? 300 : 0);
+    return () => clearTimeout(timer);
+  }, [activeTab, searchQuery]);
+
+  const fetchStoredClasses = async () => {
+    try {
+      const response = await api.get('/api/admin/service-classes');
+      setStoredClasses(response.data.data || []);
+    } catch (error) {
+      console.error('Error fetching service classes:', error);
+    }
+  };
+
+  const afterClassChange = () => {
+    fetchStoredClasses();
+    refreshServiceClasses().then(setServiceClasses).catch(error => console.error('Error fetching service classes:', error));
+  };
+
+  const handleSaveClass = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      if (editingClassId) {
+        const response = await api.put(`/api/admin/service-classes/${editingClassId}`, toClassPayload(classForm));
+        const renamed = response.data.busesRenamed || 0;
+        toast.success(renamed > 0 ? `Service class updated; ${renamed} bus(es) renamed` : 'Service class updated');
+      } else {
+        await api.post('/api/admin/service-classes', toClassPayload(classForm));
+        toast.success('Service class added');
+      }
+      setClassForm(EMPTY_CLASS_FORM);
+      setEditingClassId(null);
+      afterClassChange();
+    } catch (error: any) {
+      console.error('Error saving service class:', error);
+      toast.error(error.response?.data?.error || 'Failed to save service class');
+    }
+  };
+
+  const handleEditClass = (serviceClass: ServiceClass) => {
+    setEditingClassId(serviceClass.id);
+    setClassForm(toClassForm(serviceClass));
+  };
+
+  const handleDeleteClass = async (serviceClass: ServiceClass) => {
+    if (!confirm(`Delete service class "${serviceClass.name}"?`)) return;
+    try {
+      await api.delete(`/api/admin/service-classes/${serviceClass.id}`);
+      toast.success('Service class deleted');
+      afterClassChange();
+    } catch (error: any) {
+      console.error('Error deleting service class:', error);
+      toast.error(error.response?.data?.error || 'Failed to delete service class');
+    }
+  };
+
+  const handleAddDefaultClasses = async () => {
+    try {
+      const response = await api.post('/api/admin/service-classes/defaults');
+      toast.success(response.data.message || 'Built-in classes added');
+      afterClassChange();
+    } catch (error: any) {
+      console.error('Error adding built-in service classes:', error);
+      toast.error(error.response?.data?.error || 'Failed to add built-in classes');
+    }
+  };
+
+  // Upload the feed; without apply the backend only previews what it would write
+  const handleGtfsImport = async (apply: boolean) => {
+    if (!gtfsFile || !currentUser) return;
+    setGtfsBusy(true);
+    try {
+      const token = await currentUser.getIdToken();
+      const response = await api.post('/api/admin/gtfs/import', gtfsFile, {
+        params: apply ? { apply: true } : {},
+        headers: { 'Content-Type': 'application/zip', Authorization: `Bearer ${token}` },
+        timeout: 120000, // large feeds take a while to parse and write
+      });
+      setGtfsReport(response.data.data);
+      if (apply) {
+        toast.success(response.data.message || 'GTFS feed imported');
+        refreshStops().catch(error => console.error('Error refreshing stops:', error));
+        fetchCalendars();
+      }
+    } catch (error: any) {
+      console.error('Error importing GTFS feed:', error);
+      if (error.response?.data?.data) setGtfsReport(error.response.data.data);
+      toast.error(error.response?.data?.error || 'Failed to import GTFS feed');
+    } finally {
+      setGtfsBusy(false);
+    }
+  };
+
+  // Timetable spreadsheet (CSV or XLSX); applying writes the changes, or nothing on errors
+  const handleSheetImport = async (apply: boolean) => {
+    if (!sheetFile || !currentUser) return;
+    setSheetBusy(true);
+    try {
+      const token = await currentUser.getIdToken();
+      const response = await api.post('/api/admin/timetable/import', sheetFile, {
+        params: { ...(apply ? { apply: true } : {}), ...(sheetDeleteMissing ? { deleteMissing: true } : {}) },
+        headers: { 'Content-Type': 'application/octet-stream', Authorization: `Bearer ${token}` },
+        timeout: 120000,
+      });
+      setSheetReport(response.data.data);
+      if (apply) {
+        toast.success(response.data.message || 'Timetable imported');
+        fetchAllBuses();
+      }
+    } catch (error: any) {
+      console.error('Error importing timetable:', error);
+      if (error.response?.data?.data) setSheetReport(error.response.data.data);
+      toast.error(error.response?.data?.error || 'Failed to import timetable');
+    } finally {
+      setSheetBusy(false);
+    }
+  };
+
+  // Backup routes are admin-only, so the file is fetched with the ID token rather than linked
+  const handleBackupDownload = async () => {
+    if (!currentUser) return;
+    setBackupBusy(true);
+    try {
+      const token = await currentUser.getIdToken();
+      const response = await api.get('/api/admin/backup', {
+        params: backupIncludeRiders ? { collections: BACKUP_COLLECTIONS.join(',') } : {},
+        headers: { Authorization: `Bearer ${token}` },
+        responseType: 'blob',
+        timeout: 120000,
+      });
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `catchmybus-backup-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Error downloading backup:', error);
+      toast.error(error.response?.status === 403 ? 'Backups are only available to admins' : 'Failed to download backup');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  // Restore one collection, or everything in the backup; a dry run only reports the changes
+  const handleBackupRestore = async (dryRun: boolean) => {
+    if (!backupFile || !currentUser) return;
+    if (!dryRun && !window.confirm('Replace the current data with this backup? Records added since the backup will be deleted.')) return;
+    setBackupBusy(true);
+    try {
+      const token = await currentUser.getIdToken();
+      const response = await api.post('/api/admin/backup/restore', backupFile, {
+        params: { ...(dryRun ? { dryRun: true } : {}), ...(backupCollection ? { collections: backupCollection } : {}) },
+        headers: { 'Content-Type': 'application/octet-stream', Authorization: `Bearer ${token}` },
+        timeout: 120000,
+      });
+      setBackupReport(response.data.data);
+      if (!dryRun) {
+        toast.success(response.data.message || 'Backup restored');
+        fetchAllBuses();
+        fetchCalendars();
+        refreshStops().catch(error => console.error('Error refreshing stops:', error));
+      }
+    } catch (error: any) {
+      console.error('Error restoring backup:', error);
+      if (error.response?.data?.data) setBackupReport(error.response.data.data);
+      toast.error(error.response?.data?.error || 'Failed to restore backup');
+    } finally {
+      setBackupBusy(false);
+    }
+  };
+
+  const fetchCalendars = async () => {
+    try {
+      const response = await api.get('/api/admin/calendars');
+      setCalendars(response.data.data || []);
+    } catch (error) {
+      console.error('Error fetching calendars:', error);
+    }
+  };
+
+  const handleSaveCalendar = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      if (editingCalendarId) {
+        await api.put(`/api/admin/calendars/${editingCalendarId}`, calendarForm);
+        toast.success('Calendar updated');
+      } else {
+        await api.post('/api/admin/calendars', calendarForm);
+        toast.success('Calendar added');
+      }
+      setCalendarForm(EMPTY_CALENDAR_FORM);
+      setEditingCalendarId(null);
+      fetchCalendars();
+    } catch (error: any) {
+      console.error('Error saving calendar:', error);
+      toast.error(error.response?.data?.error || 'Failed to save calendar');
+    }
+  };
+
+  const handleEditCalendar = (calendar: ServiceCalendar) => {
+    setEditingCalendarId(calendar.id);
+    setCalendarForm({
+      name: calendar.name,
+      days: calendar.days,
+      validFrom: calendar.validFrom || '',
+      validTo: calendar.validTo || '',
+      addedDates: calendar.addedDates.join(', '),
+      removedDates: calendar.removedDates.join(', '),
+    });
+  };
+
+  const handleDeleteCalendar = async (calendar: ServiceCalendar) => {
+    if (!confirm(`Delete calendar "${calendar.name}"?`)) return;
+    try {
+      await api.delete(`/api/admin/calendars/${calendar.id}`);
+      toast.success('Calendar deleted');
+      fetchCalendars();
+    } catch (error: any) {
+      console.error('Error deleting calendar:', error);
+      toast.error(error.response?.data?.error || 'Failed to delete calendar');
+    }
+  };
+
+  const toggleCalendarDay = (day: Weekday) => {
+    const days = calendarForm.days.includes(day)
+      ? calendarForm.days.filter(d => d !== day)
+      : [...calendarForm.days, day];
+    setCalendarForm({ ...calendarForm, days });
+  };
+
+  const amenities = useAmenities();
+
+  const toggleBusAmenity = (id: string) => {
+    const next = busForm.amenities.includes(id)
+      ? busForm.amenities.filter(a => a !== id)
+      : [...busForm.amenities, id];
+    setBusForm({ ...busForm, amenities: next });
+  };
+
+  // Keep a bus's current type selectable even if its class has since been removed
+  const busTypeOptions = serviceClasses.some(c => c.name === busForm.type) || !busForm.type
+    ? serviceClasses.map(c => c.name)
+    : [...serviceClasses.map(c => c.name), busForm.type];
+
+  const describeCalendar = (calendar: ServiceCalendar) => {
+    const days = calendar.days.length === 7
+      ? 'Daily'
+      : WEEKDAYS.filter(d => calendar.days.includes(d.key)).map(d => d.label).join(', ') || 'No weekly service';
+    const range = calendar.validFrom || calendar.validTo ? ` · ${calendar.validFrom || '…'} to ${calendar.validTo || '…'}` : '';
+    return `${days}${range}`;
+  };
+
+  const fetchRegistryStops = async () => {
+    try {
+      const stops = await refreshStops();
+      setRegistryStops(stops);
+      setAliasDrafts(Object.fromEntries(stops.map(s => [s.id, (s.aliases || []).join(', ')])));
+    } catch (error) {
+      console.error('Error fetching stops:', error);
+      toast.error('Failed to load stops');
+    }
+  };
+
+  const handleAddStop = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await api.post('/api/admin/stops', {
+        name: stopForm.name.trim(),
+        district: stopForm.district.trim(),
+        location: { lat: stopForm.lat, lng: stopForm.lng },
+        aliases: stopForm.aliases,
+      });
+      toast.success('Stop added successfully!');
+      setStopForm({ name: '', district: '', lat: '', lng: '', aliases: '' });
+      fetchRegistryStops();
+    } catch (error: any) {
+      console.error('Error adding stop:', error);
+      toast.error(error.response?.data?.error || 'Failed to add stop');
+    }
+  };
+
+  const handleSaveAliases = async (stopId: string) => {
+    try {
+      await api.put(`/api/admin/stops/${stopId}`, { aliases: aliasDrafts[stopId] || '' });
+      toast.success('Aliases saved');
+      fetchRegistryStops();
+    } catch (error) {
+      console.error('Error saving aliases:', error);
+      toast.error('Failed to save aliases');
+    }
+  };
+
+  const handleLinkBuses = async () => {
+    try {
+      const response = await api.post('/api/admin/buses/link-stops');
+      const { busesLinked, unresolvedStops } = response.data.data;
+      toast.success(`Linked ${busesLinked} buses to the stop registry`);
+      if (unresolvedStops.length > 0) {
+        toast.error(`Not in registry: ${unresolvedStops.slice(0, 5).join(', ')}${unresolvedStops.length > 5 ? '…' : ''}`);
+      }
+    } catch (error) {
+      console.error('Error linking buses:', error);
+      toast.error('Failed to link buses to stops');
+    }
+  };
+
+  // Stop names the backend could not find in the registry are saved as plain text
+  const warnUnresolvedStops = (unresolvedStops?: string[]) => {
+    if (unresolvedStops && unresolvedStops.length > 0) {
+      toast.error(`Stops not in registry: ${unresolvedStops.join(', ')}. Add them in "Stops & Aliases".`);
+    }
+  };
+
+  // First page of buses matching the search box, or the next page appended with `more`
+  const fetchAllBuses = async (more = false) => {
     setIsLoadingBuses(true);
     try {
-      const response = await api.get('/api/admin/buses');
-      setAllBuses(response.data.data || []);
+      const response = await api.get('/api/admin/buses', {
+        params: { q: searchQuery.trim() || undefined, cursor: more ? busesCursor || undefined : undefined },
+      });
+      const page: BusData[] = response.data.data || [];
+      setAllBuses(more ? [...allBuses, ...page] : page);
+      setBusesCursor(response.data.nextCursor || null);
     } catch (error) {
       console.error('Error fetching buses:', error);
       toast.error('Failed to load buses');
@@ -66,17 +565,20 @@ const AdminPage = () => {
     // Parse timings back into form format
     // Group timings by stop (a bus may have multiple times per stop)
     const grouped: Record<string, { arrivalTime: string; period: 'AM' | 'PM' }[]> = {};
+    const platforms: Record<string, string> = {};
     for (const timing of bus.timings) {
       // Support legacy {stop, time} and newer {stopName, arrivalTime, departureTime}
       const stopKey = (timing.stop || timing.stopName || '').trim();
       const timeRaw = timing.time || timing.arrivalTime || timing.departureTime || '';
-      const parts = (timeRaw || '').trim().split(/\s+/);
-      const time = parts[0] || '';
-      const period = (parts[1] || 'AM') as 'AM' | 'PM';
       if (!grouped[stopKey]) grouped[stopKey] = [];
-      grouped[stopKey].push({ arrivalTime: time, period });
+      grouped[stopKey].push(toFormTime(timeRaw));
+      if (timing.platform) platforms[stopKey] = timing.platform;
     }
-    const parsedTimings: StopTiming[] = Object.keys(grouped).map(stop => ({ stopName: stop, times: grouped[stop] }));
+    const parsedTimings: StopTiming[] = Object.keys(grouped).map(stop => ({
+      stopName: stop,
+      times: grouped[stop],
+      ...(platforms[stop] ? { platform: platforms[stop] } : {}),
+    }));
     
     setBusForm({
       busName: bus.busName,
@@ -85,8 +587,10 @@ const AdminPage = () => {
       via: bus.via || '',
       to: bus.to,
       type: bus.type,
+      calendarId: bus.calendarId || '',
+      amenities: bus.amenities || [],
     });
-    setStopTimings(parsedTimings);
+    setStopTimings(withRouteDistances(bus, parsedTimings));
     setPasteStopsText('');
   };
 
@@ -108,15 +612,18 @@ const AdminPage = () => {
       via: busForm.via,
       to: busForm.to,
       type: busForm.type,
-      route: stopTimings.map(st => st.stopName.trim()),
-      timings: stopTimings.flatMap(st => st.times.map(t => ({ stopName: st.stopName.trim(), arrivalTime: `${t.arrivalTime} ${t.period}`, departureTime: `${t.arrivalTime} ${t.period}` })))
+      calendarId: busForm.calendarId || null,
+      amenities: busForm.amenities,
+      route: toRoutePayload(stopTimings),
+      timings: toTimingsPayload(stopTimings)
     };
     
     try {
-      await api.put(`/api/admin/buses/${editingBus.id}`, busData);
+      const response = await api.put(`/api/admin/buses/${editingBus.id}`, busData);
       toast.success('Bus updated successfully!');
+      warnUnresolvedStops(response.data.unresolvedStops);
       setEditingBus(null);
-      setBusForm({ busName: '', busNumber: '', from: '', via: '', to: '', type: 'KSRTC' });
+      setBusForm({ busName: '', busNumber: '', from: '', via: '', to: '', type: 'KSRTC', calendarId: '', amenities: [] });
       setStopTimings([{ stopName: '', times: [{ arrivalTime: '', period: 'AM' }] }]);
       setPasteStopsText('');
       fetchAllBuses();
@@ -145,16 +652,19 @@ const AdminPage = () => {
     // Prefill the Add Bus form with a copy of the selected bus (do not set editingBus)
     // Group timings by stop
     const grouped: Record<string, { arrivalTime: string; period: 'AM' | 'PM' }[]> = {};
+    const platforms: Record<string, string> = {};
     for (const timing of bus.timings) {
       const stopKey = (timing.stop || timing.stopName || '').trim();
       const timeRaw = timing.time || timing.arrivalTime || timing.departureTime || '';
-      const parts = (timeRaw || '').trim().split(/\s+/);
-      const time = parts[0] || '';
-      const period = (parts[1] || 'AM') as 'AM' | 'PM';
       if (!grouped[stopKey]) grouped[stopKey] = [];
-      grouped[stopKey].push({ arrivalTime: time, period });
+      grouped[stopKey].push(toFormTime(timeRaw));
+      if (timing.platform) platforms[stopKey] = timing.platform;
     }
-    const parsedTimings: StopTiming[] = Object.keys(grouped).map(stop => ({ stopName: stop, times: grouped[stop] }));
+    const parsedTimings: StopTiming[] = Object.keys(grouped).map(stop => ({
+      stopName: stop,
+      times: grouped[stop],
+      ...(platforms[stop] ? { platform: platforms[stop] } : {}),
+    }));
 
     setEditingBus(null);
     setActiveTab('buses');
@@ -165,8 +675,10 @@ const AdminPage = () => {
       via: bus.via || '',
       to: bus.to,
       type: bus.type,
+      calendarId: bus.calendarId || '',
+      amenities: bus.amenities || [],
     });
-    setStopTimings(parsedTimings.length > 0 ? parsedTimings : [{ stopName: '', times: [{ arrivalTime: '', period: 'AM' }] }]);
+    setStopTimings(parsedTimings.length > 0 ? withRouteDistances(bus, parsedTimings) : [{ stopName: '', times: [{ arrivalTime: '', period: 'AM' }] }]);
     setPasteStopsText('');
     // Scroll to top so admin can see the Add Bus form
     window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -174,24 +686,11 @@ const AdminPage = () => {
 
   const handleCancelEdit = () => {
     setEditingBus(null);
-    setBusForm({ busName: '', busNumber: '', from: '', via: '', to: '', type: 'KSRTC' });
+    setBusForm({ busName: '', busNumber: '', from: '', via: '', to: '', type: 'KSRTC', calendarId: '', amenities: [] });
     setStopTimings([{ stopName: '', times: [{ arrivalTime: '', period: 'AM' }] }]);
     setPasteStopsText('');
   };
 
-  // Filter buses based on search query
-  const filteredBuses = allBuses.filter(bus => {
-    const query = searchQuery.toLowerCase();
-    return (
-      bus.busName.toLowerCase().includes(query) ||
-      (bus.busNumber || '').toLowerCase().includes(query) ||
-      bus.from.toLowerCase().includes(query) ||
-      bus.to.toLowerCase().includes(query) ||
-      (bus.via && bus.via.toLowerCase().includes(query)) ||
-      bus.route.some(stop => stop.toLowerCase().includes(query))
-    );
-  });
-
   const addStopTimingField = () => {
     setStopTimings([...stopTimings, { stopName: '', times: [{ arrivalTime: '', period: 'AM' }] }]);
   };
@@ -221,6 +720,18 @@ const AdminPage = () => {
     setStopTimings(updated);
   };
 
+  const updateStopDistance = (index: number, value: string) => {
+    const updated = [...stopTimings];
+    updated[index].distanceKm = value;
+    setStopTimings(updated);
+  };
+
+  const updateStopPlatform = (index: number, value: string) => {
+    const updated = [...stopTimings];
+    updated[index].platform = value;
+    setStopTimings(updated);
+  };
+
   const updateStopTime = (stopIndex: number, timeIndex: number, field: 'arrivalTime' | 'period', value: string) => {
     const updated = [...stopTimings];
     const times = updated[stopIndex].times;
@@ -264,8 +775,10 @@ const AdminPage = () => {
       via: busForm.via,
       to: busForm.to,
       type: busForm.type,
-      route: stopTimings.map(st => st.stopName.trim()),
-      timings: stopTimings.flatMap(st => st.times.map(t => ({ stopName: st.stopName.trim(), arrivalTime: `${t.arrivalTime} ${t.period}`, departureTime: `${t.arrivalTime} ${t.period}` })))
+      calendarId: busForm.calendarId || null,
+      amenities: busForm.amenities,
+      route: toRoutePayload(stopTimings),
+      timings: toTimingsPayload(stopTimings)
     };
     
     console.log('Attempting to add bus with data:', busData);
@@ -275,7 +788,8 @@ const AdminPage = () => {
       const response = await api.post('/api/admin/buses', busData);
       console.log('✅ Bus added successfully:', response.data);
       toast.success('Bus added successfully!');
-      setBusForm({ busName: '', busNumber: '', from: '', via: '', to: '', type: 'KSRTC' });
+      warnUnresolvedStops(response.data.unresolvedStops);
+      setBusForm({ busName: '', busNumber: '', from: '', via: '', to: '', type: 'KSRTC', calendarId: '', amenities: [] });
       setStopTimings([{ stopName: '', times: [{ arrivalTime: '', period: 'AM' }] }]);
       setPasteStopsText('');
     } catch (error: any) {
@@ -305,6 +819,10 @@ const AdminPage = () => {
         <div className="mb-8">
           <h1 className="text-3xl font-bold text-gray-800 mb-2">Admin Panel</h1>
           <p className="text-gray-600">Manage buses and stops in the system</p>
+          <Link to="/debug" className="inline-flex items-center text-sm text-primary-600 hover:underline mt-2">
+            <Stethoscope className="h-4 w-4 mr-1" />
+            Search diagnostics: see why a bus is or isn't found
+          </Link>
         </div>
 
         {/* Warning */}
@@ -345,6 +863,50 @@ const AdminPage = () => {
             <MapPin className="h-5 w-5 mr-2" />
             Manage Bus
           </button>
+          <button
+            onClick={() => setActiveTab('registry')}
+            className={`flex items-center px-6 py-3 rounded-lg font-medium transition-colors ${
+              activeTab === 'registry'
+                ? 'bg-primary-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            <Tag className="h-5 w-5 mr-2" />
+            Stops & Aliases
+          </button>
+          <button
+            onClick={() => setActiveTab('calendars')}
+            className={`flex items-center px-6 py-3 rounded-lg font-medium transition-colors ${
+              activeTab === 'calendars'
+                ? 'bg-primary-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            <CalendarDays className="h-5 w-5 mr-2" />
+            Calendars
+          </button>
+          <button
+            onClick={() => setActiveTab('classes')}
+            className={`flex items-center px-6 py-3 rounded-lg font-medium transition-colors ${
+              activeTab === 'classes'
+                ? 'bg-primary-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            <Palette className="h-5 w-5 mr-2" />
+            Service Classes
+          </button>
+          <button
+            onClick={() => setActiveTab('import')}
+            className={`flex items-center px-6 py-3 rounded-lg font-medium transition-colors ${
+              activeTab === 'import'
+                ? 'bg-primary-600 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            <Upload className="h-5 w-5 mr-2" />
+            Import / Export
+          </button>
         </div>
 
         {/* Bus Form */}
@@ -431,14 +993,48 @@ const AdminPage = () => {
                   onChange={(e) => setBusForm({ ...busForm, type: e.target.value })}
                   required
                 >
-                  <option value="KSRTC">KSRTC</option>
-                  <option value="Private">Private</option>
-                  <option value="Fast">Fast</option>
-                  <option value="Super Fast">Super Fast</option>
-                  <option value="Ordinary">Ordinary</option>
+                  {busTypeOptions.map(name => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Service Calendar */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Service Calendar
+                </label>
+                <select
+                  className="input-field"
+                  value={busForm.calendarId}
+                  onChange={(e) => setBusForm({ ...busForm, calendarId: e.target.value })}
+                >
+                  <option value="">Every day</option>
+                  {calendars.map(calendar => (
+                    <option key={calendar.id} value={calendar.id}>{calendar.name} ({describeCalendar(calendar)})</option>
+                  ))}
                 </select>
               </div>
 
+              {/* Amenities */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Amenities
+                </label>
+                <div className="flex flex-wrap gap-2">
+                  {amenities.map(amenity => (
+                    <label key={amenity.id} className="flex items-center space-x-2 text-sm text-gray-700 border border-gray-200 rounded-lg px-3 py-1.5">
+                      <input
+                        type="checkbox"
+                        checked={busForm.amenities.includes(amenity.id)}
+                        onChange={() => toggleBusAmenity(amenity.id)}
+                      />
+                      <span>{amenity.label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
               {/* Stop Name and Time Section */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-3">
@@ -463,14 +1059,36 @@ const AdminPage = () => {
                   {stopTimings.map((stopTiming, index) => (
                     <div key={index} className="flex gap-3 items-start">
                       <div className="flex-1">
-                        <input
-                          type="text"
-                          className="input-field"
-                          placeholder="e.g., Thiruvananthapuram Central"
-                          value={stopTiming.stopName}
-                          onChange={(e) => updateStopName(index, e.target.value)}
-                          required
-                        />
+                        <div className="flex gap-2">
+                          <input
+                            type="text"
+                            className="input-field flex-1"
+                            placeholder="e.g., Thiruvananthapuram Central"
+                            value={stopTiming.stopName}
+                            onChange={(e) => updateStopName(index, e.target.value)}
+                            required
+                          />
+                          {index > 0 && (
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.1"
+                              className="input-field w-36"
+                              placeholder="km from prev."
+                              title="Road distance from the previous stop (optional, overrides the distance from stop coordinates)"
+                              value={stopTiming.distanceKm || ''}
+                              onChange={(e) => updateStopDistance(index, e.target.value)}
+                            />
+                          )}
+                          <input
+                            type="text"
+                            className="input-field w-24"
+                            placeholder="Bay"
+                            title="Bay or platform at this stop (optional, shown on the departure board)"
+                            value={stopTiming.platform || ''}
+                            onChange={(e) => updateStopPlatform(index, e.target.value)}
+                          />
+                        </div>
 
                         <div className="mt-2 space-y-2">
                           {stopTiming.times.map((t, ti) => (
@@ -638,14 +1256,48 @@ const AdminPage = () => {
                       onChange={(e) => setBusForm({ ...busForm, type: e.target.value })}
                       required
                     >
-                      <option value="KSRTC">KSRTC</option>
-                      <option value="Private">Private</option>
-                      <option value="Fast">Fast</option>
-                      <option value="Super Fast">Super Fast</option>
-                      <option value="Ordinary">Ordinary</option>
+                      {busTypeOptions.map(name => (
+                        <option key={name} value={name}>{name}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {/* Service Calendar */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Service Calendar
+                    </label>
+                    <select
+                      className="input-field"
+                      value={busForm.calendarId}
+                      onChange={(e) => setBusForm({ ...busForm, calendarId: e.target.value })}
+                    >
+                      <option value="">Every day</option>
+                      {calendars.map(calendar => (
+                        <option key={calendar.id} value={calendar.id}>{calendar.name} ({describeCalendar(calendar)})</option>
+                      ))}
                     </select>
                   </div>
 
+                  {/* Amenities */}
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Amenities
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                      {amenities.map(amenity => (
+                        <label key={amenity.id} className="flex items-center space-x-2 text-sm text-gray-700 border border-gray-200 rounded-lg px-3 py-1.5">
+                          <input
+                            type="checkbox"
+                            checked={busForm.amenities.includes(amenity.id)}
+                            onChange={() => toggleBusAmenity(amenity.id)}
+                          />
+                          <span>{amenity.label}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
                   {/* Stop Name and Time Section */}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-3">
@@ -670,14 +1322,36 @@ const AdminPage = () => {
                       {stopTimings.map((stopTiming, index) => (
                         <div key={index} className="flex gap-3 items-start">
                           <div className="flex-1">
-                            <input
-                              type="text"
-                              className="input-field"
-                              placeholder="e.g., Thiruvananthapuram Central"
-                              value={stopTiming.stopName}
-                              onChange={(e) => updateStopName(index, e.target.value)}
-                              required
-                            />
+                            <div className="flex gap-2">
+                              <input
+                                type="text"
+                                className="input-field flex-1"
+                                placeholder="e.g., Thiruvananthapuram Central"
+                                value={stopTiming.stopName}
+                                onChange={(e) => updateStopName(index, e.target.value)}
+                                required
+                              />
+                              {index > 0 && (
+                                <input
+                                  type="number"
+                                  min="0"
+                                  step="0.1"
+                                  className="input-field w-36"
+                                  placeholder="km from prev."
+                                  title="Road distance from the previous stop (optional, overrides the distance from stop coordinates)"
+                                  value={stopTiming.distanceKm || ''}
+                                  onChange={(e) => updateStopDistance(index, e.target.value)}
+                                />
+                              )}
+                              <input
+                                type="text"
+                                className="input-field w-24"
+                                placeholder="Bay"
+                                title="Bay or platform at this stop (optional, shown on the departure board)"
+                                value={stopTiming.platform || ''}
+                                onChange={(e) => updateStopPlatform(index, e.target.value)}
+                              />
+                            </div>
 
                             <div className="mt-2 space-y-2">
                               {stopTiming.times.map((t, ti) => (
@@ -779,24 +1453,22 @@ const AdminPage = () => {
                       onChange={(e) => setSearchQuery(e.target.value)}
                     />
                   </div>
-                  {searchQuery && (
+                  {searchQuery && !isLoadingBuses && (
                     <p className="text-sm text-gray-600 mt-2">
-                      Found {filteredBuses.length} bus{filteredBuses.length !== 1 ? 'es' : ''}
+                      Found {allBuses.length}{busesCursor ? '+' : ''} bus{allBuses.length !== 1 ? 'es' : ''}
                     </p>
                   )}
                 </div>
                 
-                {isLoadingBuses ? (
+                {isLoadingBuses && allBuses.length === 0 ? (
                   <div className="text-center py-8 text-gray-600">Loading buses...</div>
                 ) : allBuses.length === 0 ? (
-                  <div className="text-center py-8 text-gray-600">No buses added yet.</div>
-                ) : filteredBuses.length === 0 ? (
                   <div className="text-center py-8 text-gray-600">
-                    No buses match your search.
+                    {searchQuery ? 'No buses match your search.' : 'No buses added yet.'}
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {filteredBuses.map((bus) => (
+                    {allBuses.map((bus) => (
                       <div
                         key={bus.id}
                         className="border border-gray-200 rounded-lg p-4 hover:border-primary-300 transition-colors"
@@ -850,6 +1522,798 @@ const AdminPage = () => {
                     ))}
                   </div>
                 )}
+                {busesCursor && (
+                  <div className="text-center mt-6">
+                    <button
+                      onClick={() => fetchAllBuses(true)}
+                      disabled={isLoadingBuses}
+                      className="btn-secondary"
+                    >
+                      {isLoadingBuses ? 'Loading...' : 'Load more buses'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Stop Registry */}
+        {activeTab === 'registry' && (
+          <div className="space-y-6 animate-slide-up">
+            <div className="card">
+              <h2 className="text-2xl font-bold text-gray-800 mb-6">Add Stop</h2>
+              <form onSubmit={handleAddStop} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <input
+                    type="text"
+                    className="input-field"
+                    placeholder="Official name (e.g., Ernakulam KSRTC Bus Stand)"
+                    value={stopForm.name}
+                    onChange={(e) => setStopForm({ ...stopForm, name: e.target.value })}
+                    required
+                  />
+                  <input
+                    type="text"
+                    className="input-field"
+                    placeholder="District (e.g., Ernakulam)"
+                    value={stopForm.district}
+                    onChange={(e) => setStopForm({ ...stopForm, district: e.target.value })}
+                    required
+                  />
+                  <input
+                    type="text"
+                    className="input-field"
+                    placeholder="Latitude"
+                    value={stopForm.lat}
+                    onChange={(e) => setStopForm({ ...stopForm, lat: e.target.value })}
+                    required
+                  />
+                  <input
+                    type="text"
+                    className="input-field"
+                    placeholder="Longitude"
+                    value={stopForm.lng}
+                    onChange={(e) => setStopForm({ ...stopForm, lng: e.target.value })}
+                    required
+                  />
+                </div>
+                <input
+                  type="text"
+                  className="input-field"
+                  placeholder="Aliases, comma separated (e.g., EKM, Ernakulam, എറണാകുളം)"
+                  value={stopForm.aliases}
+                  onChange={(e) => setStopForm({ ...stopForm, aliases: e.target.value })}
+                />
+                <button type="submit" className="btn-primary w-full">
+                  <Save className="h-5 w-5 inline mr-2" />
+                  Add Stop
+                </button>
+              </form>
+            </div>
+
+            <div className="card">
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-gray-800">All Stops</h2>
+                <button onClick={handleLinkBuses} className="btn-secondary flex items-center" title="Re-link every bus route to stop ids">
+                  <Link2 className="h-4 w-4 mr-2" />
+                  Link Buses to Stops
+                </button>
+              </div>
+
+              {registryStops.length === 0 ? (
+                <div className="text-center py-8 text-gray-600">No stops added yet.</div>
+              ) : (
+                <div className="space-y-4">
+                  {registryStops.map((stop) => (
+                    <div key={stop.id} className="border border-gray-200 rounded-lg p-4">
+                      <h3 className="text-lg font-semibold text-gray-800">{stop.name}</h3>
+                      <p className="text-sm text-gray-600 mb-2">
+                        {stop.district} · <span className="font-mono text-xs">{stop.id}</span>
+                      </p>
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          className="input-field flex-1"
+                          placeholder="Aliases, comma separated"
+                          value={aliasDrafts[stop.id] ?? ''}
+                          onChange={(e) => setAliasDrafts({ ...aliasDrafts, [stop.id]: e.target.value })}
+                        />
+                        <button type="button" onClick={() => handleSaveAliases(stop.id)} className="btn-primary px-3">
+                          Save
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Service Calendars */}
+        {activeTab === 'calendars' && (
+          <div className="space-y-6 animate-slide-up">
+            <div className="card">
+              <h2 className="text-2xl font-bold text-gray-800 mb-6">
+                {editingCalendarId ? 'Edit Calendar' : 'Add Calendar'}
+              </h2>
+              <form onSubmit={handleSaveCalendar} className="space-y-4">
+                <input
+                  type="text"
+                  className="input-field"
+                  placeholder="Name (e.g., Weekdays, Sundays only, Sabarimala season)"
+                  value={calendarForm.name}
+                  onChange={(e) => setCalendarForm({ ...calendarForm, name: e.target.value })}
+                  required
+                />
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Operating days</label>
+                  <div className="flex flex-wrap gap-2">
+                    {WEEKDAYS.map(day => (
+                      <button
+                        key={day.key}
+                        type="button"
+                        onClick={() => toggleCalendarDay(day.key)}
+                        className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                          calendarForm.days.includes(day.key)
+                            ? 'bg-primary-600 text-white'
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                      >
+                        {day.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Valid from (optional)</label>
+                    <input
+                      type="date"
+                      className="input-field"
+                      value={calendarForm.validFrom}
+                      onChange={(e) => setCalendarForm({ ...calendarForm, validFrom: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Valid to (optional)</label>
+                    <input
+                      type="date"
+                      className="input-field"
+                      value={calendarForm.validTo}
+                      onChange={(e) => setCalendarForm({ ...calendarForm, validTo: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <input
+                  type="text"
+                  className="input-field"
+                  placeholder="Extra service dates, comma separated (YYYY-MM-DD)"
+                  value={calendarForm.addedDates}
+                  onChange={(e) => setCalendarForm({ ...calendarForm, addedDates: e.target.value })}
+                />
+                <input
+                  type="text"
+                  className="input-field"
+                  placeholder="No-service dates: holidays, hartals (YYYY-MM-DD, comma separated)"
+                  value={calendarForm.removedDates}
+                  onChange={(e) => setCalendarForm({ ...calendarForm, removedDates: e.target.value })}
+                />
+
+                <div className="flex gap-3">
+                  <button type="submit" className="btn-primary flex-1">
+                    <Save className="h-5 w-5 inline mr-2" />
+                    {editingCalendarId ? 'Update Calendar' : 'Add Calendar'}
+                  </button>
+                  {editingCalendarId && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setEditingCalendarId(null);
+                        setCalendarForm(EMPTY_CALENDAR_FORM);
+                      }}
+                      className="btn-secondary"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </form>
+            </div>
+
+            <div className="card">
+              <h2 className="text-2xl font-bold text-gray-800 mb-6">All Calendars</h2>
+              {calendars.length === 0 ? (
+                <div className="text-center py-8 text-gray-600">
+                  No calendars yet. Buses without a calendar run every day.
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {calendars.map(calendar => (
+                    <div key={calendar.id} className="border border-gray-200 rounded-lg p-4 flex justify-between items-start">
+                      <div>
+                        <h3 className="text-lg font-semibold text-gray-800">{calendar.name}</h3>
+                        <p className="text-sm text-gray-600">{describeCalendar(calendar)}</p>
+                        {calendar.addedDates.length > 0 && (
+                          <p className="text-xs text-green-700 mt-1">Also runs: {calendar.addedDates.join(', ')}</p>
+                        )}
+                        {calendar.removedDates.length > 0 && (
+                          <p className="text-xs text-red-700 mt-1">No service: {calendar.removedDates.join(', ')}</p>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleEditCalendar(calendar)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="Edit calendar"
+                        >
+                          <Edit2 className="h-5 w-5" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteCalendar(calendar)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete calendar"
+                        >
+                          <Trash2 className="h-5 w-5" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+        {activeTab === 'classes' && (
+          <div className="space-y-6 animate-slide-up">
+            <div className="card">
+              <h2 className="text-2xl font-bold text-gray-800 mb-6">
+                {editingClassId ? 'Edit Service Class' : 'Add Service Class'}
+              </h2>
+              <form onSubmit={handleSaveClass} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <input
+                    type="text"
+                    className="input-field md:col-span-2"
+                    placeholder="Name (e.g., Swift, Low Floor AC, Limited Stop Fast Passenger)"
+                    value={classForm.name}
+                    onChange={(e) => setClassForm({ ...classForm, name: e.target.value })}
+                    required
+                  />
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="color"
+                      className="h-10 w-14 rounded border border-gray-300"
+                      value={classForm.color}
+                      onChange={(e) => setClassForm({ ...classForm, color: e.target.value })}
+                      title="Badge colour"
+                    />
+                    <ServiceClassBadge type={classForm.name || 'Preview'} color={classForm.color} />
+                  </div>
+                </div>
+                <input
+                  type="text"
+                  className="input-field"
+                  placeholder="Description (shown on hover)"
+                  value={classForm.description}
+                  onChange={(e) => setClassForm({ ...classForm, description: e.target.value })}
+                />
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Fare table</label>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                    {FARE_FIELDS.map(field => (
+                      <div key={field.key}>
+                        <label className="block text-xs text-gray-600 mb-1">{field.label}</label>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.1"
+                          className="input-field"
+                          value={classForm[field.key]}
+                          onChange={(e) => setClassForm({ ...classForm, [field.key]: e.target.value })}
+                          required
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Night surcharge (optional)</label>
+                  <div className="grid grid-cols-3 gap-3">
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      className="input-field"
+                      placeholder="% extra"
+                      value={classForm.nightPercent}
+                      onChange={(e) => setClassForm({ ...classForm, nightPercent: e.target.value })}
+                    />
+                    <input
+                      type="time"
+                      className="input-field"
+                      value={classForm.nightFrom}
+                      onChange={(e) => setClassForm({ ...classForm, nightFrom: e.target.value })}
+                      title="Surcharge starts"
+                    />
+                    <input
+                      type="time"
+                      className="input-field"
+                      value={classForm.nightTo}
+                      onChange={(e) => setClassForm({ ...classForm, nightTo: e.target.value })}
+                      title="Surcharge ends"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex gap-3">
+                  <button type="submit" className="btn-primary flex-1">
+                    <Save className="h-5 w-5 inline mr-2" />
+                    {editingClassId ? 'Update Service Class' : 'Add Service Class'}
+                  </button>
+                  {editingClassId && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setEditingClassId(null);
+                        setClassForm(EMPTY_CLASS_FORM);
+                      }}
+                      className="btn-secondary"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </form>
+            </div>
+
+            <div className="card">
+              <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-gray-800">All Service Classes</h2>
+                <button onClick={handleAddDefaultClasses} className="btn-secondary text-sm">
+                  Add built-in classes
+                </button>
+              </div>
+              {storedClasses.length === 0 ? (
+                <div className="text-center py-8 text-gray-600">
+                  No service classes saved yet. Searches use the built-in Ordinary, KSRTC, Private, Fast and Super Fast fares.
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {storedClasses.map(serviceClass => (
+                    <div key={serviceClass.id} className="border border-gray-200 rounded-lg p-4 flex justify-between items-start">
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <ServiceClassBadge type={serviceClass.name} color={serviceClass.color} />
+                          {serviceClass.description && <span className="text-sm text-gray-600">{serviceClass.description}</span>}
+                        </div>
+                        <p className="text-sm text-gray-600 mt-2">{describeFareTable(serviceClass.fareTable)}</p>
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => handleEditClass(serviceClass)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="Edit service class"
+                        >
+                          <Edit2 className="h-5 w-5" />
+                        </button>
+                        <button
+                          onClick={() => handleDeleteClass(serviceClass)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete service class"
+                        >
+                          <Trash2 className="h-5 w-5" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {activeTab === 'import' && (
+          <div className="space-y-6 animate-slide-up">
+            <div className="card">
+              <h2 className="text-2xl font-bold text-gray-800 mb-2">Backup &amp; Restore</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Save buses, stops, calendars, service classes and alerts to a JSON file before a bulk edit.
+                Restoring puts each collection back exactly as it was saved; records added since are deleted.
+              </p>
+              <div className="flex flex-wrap items-center gap-3 mb-6">
+                <button
+                  onClick={handleBackupDownload}
+                  disabled={backupBusy}
+                  className="btn-secondary inline-flex items-center"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download backup
+                </button>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={backupIncludeRiders}
+                    onChange={(e) => setBackupIncludeRiders(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Include riders' favorites and feedback
+                </label>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  onChange={(e) => {
+                    setBackupFile(e.target.files?.[0] || null);
+                    setBackupReport(null);
+                  }}
+                  className="text-sm"
+                />
+                <select
+                  value={backupCollection}
+                  onChange={(e) => {
+                    setBackupCollection(e.target.value);
+                    setBackupReport(null);
+                  }}
+                  className="input-field w-auto"
+                >
+                  <option value="">Everything in the backup</option>
+                  {BACKUP_COLLECTIONS.map(name => (
+                    <option key={name} value={name}>Only {name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleBackupRestore(true)}
+                  disabled={!backupFile || backupBusy}
+                  className="btn-secondary"
+                >
+                  {backupBusy && !backupReport ? 'Reading backup...' : 'Dry Run'}
+                </button>
+                {backupReport && backupReport.dryRun && (
+                  <button
+                    onClick={() => handleBackupRestore(false)}
+                    disabled={backupBusy || backupReport.writes === 0}
+                    className="btn-primary flex items-center"
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    {backupBusy ? 'Restoring...' : 'Restore'}
+                  </button>
+                )}
+              </div>
+
+              {backupReport && (
+                <div className="mt-6">
+                  <h3 className="text-lg font-semibold text-gray-800 mb-3">
+                    {backupReport.dryRun
+                      ? 'Dry run: nothing has been written yet'
+                      : backupReport.partial ? 'The restore stopped part way' : 'Restored'}
+                    <span className="text-sm font-normal text-gray-500 ml-2">
+                      (backup from {new Date(backupReport.backupCreatedAt).toLocaleString()})
+                    </span>
+                  </h3>
+                  {backupReport.partial && (
+                    <p className="text-sm text-red-700 mb-3">
+                      Saved: {Object.entries(backupReport.partial.written).map(([name, count]) => `${count} ${name}`).join(', ')}.
+                      Not saved: {Object.entries(backupReport.partial.notWritten).map(([name, count]) => `${count} ${name}`).join(', ')}.
+                      Restore the same backup again to finish.
+                    </p>
+                  )}
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="py-1 pr-3">Collection</th>
+                        <th className="py-1 pr-3">New</th>
+                        <th className="py-1 pr-3">Changed</th>
+                        <th className="py-1 pr-3">Deleted</th>
+                        <th className="py-1">Unchanged</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {backupReport.collections.map(row => (
+                        <tr key={row.collection} className="border-t text-gray-700">
+                          <td className="py-1 pr-3 font-medium">{row.collection}</td>
+                          <td className="py-1 pr-3">{row.create}</td>
+                          <td className="py-1 pr-3">{row.update}</td>
+                          <td className="py-1 pr-3">{row.delete}</td>
+                          <td className="py-1">{row.unchanged}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+
+            <div className="card">
+              <h2 className="text-2xl font-bold text-gray-800 mb-2">Timetable Spreadsheet</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Every bus with one row per stop time. Edit the file and import it to add, change or remove buses in one go;
+                leave busId empty for a new bus. Rows of the same bus must repeat its details, and trip numbers count from 1 at each stop.
+              </p>
+              <div className="flex flex-wrap gap-3 mb-6">
+                {(['csv', 'xlsx'] as const).map(format => (
+                  <a
+                    key={format}
+                    href={`${api.defaults.baseURL}/api/admin/timetable/export?format=${format}`}
+                    className="btn-secondary inline-flex items-center"
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Download {format.toUpperCase()}
+                  </a>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  type="file"
+                  accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                  onChange={(e) => {
+                    setSheetFile(e.target.files?.[0] || null);
+                    setSheetReport(null);
+                  }}
+                  className="text-sm"
+                />
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={sheetDeleteMissing}
+                    onChange={(e) => {
+                      setSheetDeleteMissing(e.target.checked);
+                      setSheetReport(null);
+                    }}
+                    className="mr-2"
+                  />
+                  Delete buses not in the file
+                </label>
+                <button
+                  onClick={() => handleSheetImport(false)}
+                  disabled={!sheetFile || sheetBusy}
+                  className="btn-secondary"
+                >
+                  {sheetBusy && !sheetReport ? 'Reading file...' : 'Preview Changes'}
+                </button>
+                {sheetReport && !sheetReport.applied && sheetReport.summary.errors === 0 && (
+                  <button
+                    onClick={() => handleSheetImport(true)}
+                    disabled={sheetBusy || sheetReport.changes.length === 0}
+                    className="btn-primary flex items-center"
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    {sheetBusy ? 'Applying...' : 'Apply Changes'}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {sheetReport && (
+              <div className="card">
+                <h3 className="text-lg font-semibold text-gray-800 mb-3">
+                  {sheetReport.applied
+                    ? 'Timetable imported'
+                    : sheetReport.partial
+                      ? 'The import stopped part way'
+                      : sheetReport.summary.errors > 0
+                      ? 'Fix these rows and upload the file again'
+                      : 'Preview: nothing has been written yet'}
+                </h3>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm mb-4">
+                  {[
+                    ['New buses', sheetReport.summary.create],
+                    ['Buses changed', sheetReport.summary.update],
+                    ['Buses deleted', sheetReport.summary.delete],
+                    ['Unchanged', sheetReport.summary.unchanged],
+                    ['Errors', sheetReport.summary.errors],
+                  ].map(([label, value]) => (
+                    <div key={label} className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-gray-500">{label}</p>
+                      <p className="text-xl font-semibold text-gray-800">{value}</p>
+                    </div>
+                  ))}
+                </div>
+
+                {sheetReport.partial && (
+                  <div className="mb-4 text-sm">
+                    <p className="text-red-700 mb-2">
+                      {sheetReport.partial.written.length} of {sheetReport.partial.written.length + sheetReport.partial.notWritten.length} changes
+                      were saved. Export the timetable again and redo the rest there, so new buses already saved are not created twice.
+                    </p>
+                    <p className="text-gray-700">
+                      Not saved: {sheetReport.partial.notWritten.map(write => write.busName).join(', ')}
+                    </p>
+                  </div>
+                )}
+
+                {sheetReport.errors.length > 0 && (
+                  <div className="mb-4">
+                    <h4 className="font-medium text-gray-700 mb-2">Errors</h4>
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {sheetReport.errors.map((row, idx) => (
+                          <tr key={idx} className="border-t">
+                            <td className="py-1 pr-3 whitespace-nowrap text-gray-500">
+                              {row.line !== null ? `Line ${row.line}` : 'File'}
+                            </td>
+                            <td className="py-1 text-red-700">{row.message}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {sheetReport.summary.errors > sheetReport.errors.length && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        Showing {sheetReport.errors.length} of {sheetReport.summary.errors} errors.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {sheetReport.changes.length > 0 && (
+                  <div>
+                    <h4 className="font-medium text-gray-700 mb-2">Changes</h4>
+                    <ul className="text-sm text-gray-700 space-y-1 max-h-64 overflow-auto">
+                      {sheetReport.changes.map((change, idx) => (
+                        <li key={change.busId || `new-${idx}`}>
+                          {change.action === 'create' && <span className="text-green-700 font-medium">New</span>}
+                          {change.action === 'update' && <span className="text-blue-700 font-medium">Update</span>}
+                          {change.action === 'delete' && <span className="text-red-700 font-medium">Delete</span>}
+                          {' '}{change.busName}
+                          {change.action !== 'delete' && `: ${change.stops} stops, ${change.trips} trip(s)`}
+                          {change.changes.length > 0 && ` (${change.changes.join(', ')})`}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="card">
+              <h2 className="text-2xl font-bold text-gray-800 mb-2">GTFS Feed</h2>
+              <p className="text-sm text-gray-600 mb-4">
+                Export every bus and stop as a GTFS zip for other trip planners, or import an operator&apos;s feed.
+                Feed stops are matched to registry stops by name or position; trips calling at the same stops become one bus.
+              </p>
+              <a
+                href={`${api.defaults.baseURL}/api/gtfs/feed.zip`}
+                className="btn-secondary inline-flex items-center mb-6"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Download GTFS feed
+              </a>
+
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  type="file"
+                  accept=".zip,application/zip"
+                  onChange={(e) => {
+                    setGtfsFile(e.target.files?.[0] || null);
+                    setGtfsReport(null);
+                  }}
+                  className="text-sm"
+                />
+                <button
+                  onClick={() => handleGtfsImport(false)}
+                  disabled={!gtfsFile || gtfsBusy}
+                  className="btn-secondary"
+                >
+                  {gtfsBusy && !gtfsReport ? 'Reading feed...' : 'Preview Import'}
+                </button>
+                {gtfsReport && !gtfsReport.applied && (
+                  <button
+                    onClick={() => handleGtfsImport(true)}
+                    disabled={gtfsBusy}
+                    className="btn-primary flex items-center"
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    {gtfsBusy ? 'Importing...' : 'Import'}
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {gtfsReport && (
+              <div className="card">
+                <h3 className="text-lg font-semibold text-gray-800 mb-3">
+                  {gtfsReport.applied
+                    ? 'Imported'
+                    : gtfsReport.partial ? 'The import stopped part way' : 'Preview: nothing has been written yet'}
+                </h3>
+                {gtfsReport.partial && (
+                  <p className="text-sm text-red-700 mb-4">
+                    Saved: {Object.entries(gtfsReport.partial.written).map(([name, count]) => `${count} ${name}`).join(', ')}.
+                    Not saved: {Object.entries(gtfsReport.partial.notWritten).map(([name, count]) => `${count} ${name}`).join(', ')}.
+                    Import the same feed again to finish.
+                  </p>
+                )}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm mb-4">
+                  {[
+                    ['New stops', gtfsReport.summary.stopsCreated],
+                    ['Stops updated', gtfsReport.summary.stopsUpdated],
+                    ['Stops matched', gtfsReport.summary.stopsMatched],
+                    ['Ambiguous stops', gtfsReport.summary.stopsAmbiguous],
+                    ['Calendars', gtfsReport.summary.calendarsCreated + gtfsReport.summary.calendarsUpdated],
+                    ['New buses', gtfsReport.summary.busesCreated],
+                    ['Buses updated', gtfsReport.summary.busesUpdated],
+                    ['Trips', gtfsReport.summary.trips],
+                    ['Unmapped rows', gtfsReport.summary.unmappedRows],
+                  ].map(([label, value]) => (
+                    <div key={label} className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-gray-500">{label}</p>
+                      <p className="text-xl font-semibold text-gray-800">{value}</p>
+                    </div>
+                  ))}
+                </div>
+
+                {[...gtfsReport.buses.create, ...gtfsReport.buses.update].length > 0 && (
+                  <div className="mb-4">
+                    <h4 className="font-medium text-gray-700 mb-2">Buses</h4>
+                    <ul className="text-sm text-gray-700 space-y-1 max-h-64 overflow-auto">
+                      {gtfsReport.buses.create.map(bus => (
+                        <li key={bus.id}>
+                          <span className="text-green-700 font-medium">New</span> {bus.busName} {bus.busNumber && `(${bus.busNumber})`}: {bus.from} → {bus.to}, {bus.stops} stops, {bus.trips} trip(s)
+                        </li>
+                      ))}
+                      {gtfsReport.buses.update.map(bus => (
+                        <li key={bus.id}>
+                          <span className="text-blue-700 font-medium">Update</span> {bus.busName} {bus.busNumber && `(${bus.busNumber})`}: {bus.from} → {bus.to}, {bus.stops} stops, {bus.trips} trip(s)
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {gtfsReport.stops.create.length > 0 && (
+                  <div className="mb-4">
+                    <h4 className="font-medium text-gray-700 mb-2">New stops</h4>
+                    <p className="text-sm text-gray-700">{gtfsReport.stops.create.map(stop => stop.name).join(', ')}</p>
+                  </div>
+                )}
+
+                {gtfsReport.stops.ambiguous.length > 0 && (
+                  <div className="mb-4">
+                    <h4 className="font-medium text-gray-700 mb-2">Stops to check</h4>
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {gtfsReport.stops.ambiguous.map(stop => (
+                          <tr key={stop.gtfsStopId} className="border-t">
+                            <td className="py-1 pr-3 whitespace-nowrap text-gray-500">stops.txt:{stop.line}</td>
+                            <td className="py-1 text-gray-700">{stop.reason}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {gtfsReport.unmapped.length > 0 && (
+                  <div>
+                    <h4 className="font-medium text-gray-700 mb-2">Rows not imported</h4>
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {gtfsReport.unmapped.map((row, idx) => (
+                          <tr key={idx} className="border-t">
+                            <td className="py-1 pr-3 whitespace-nowrap text-gray-500">
+                              {row.file}{row.line !== null ? `:${row.line}` : ''}
+                            </td>
+                            <td className="py-1 text-gray-700">{row.reason}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {gtfsReport.summary.unmappedRows > gtfsReport.unmapped.length && (
+                      <p className="text-xs text-gray-500 mt-2">
+                        Showing {gtfsReport.unmapped.length} of {gtfsReport.summary.unmappedRows} rows.
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
             )}
           </div>
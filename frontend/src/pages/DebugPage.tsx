@@ -1,76 +1,241 @@
 import { useState } from 'react';
+import { Search, CheckCircle, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
 import api from '../config/api';
+import { useAuth } from '../contexts/AuthContext';
+import { ExplainedTrip, SearchExplain } from '../types';
+import { formatServiceTime } from '../utils/time';
 
+const DIRECTION_LABELS: Record<ExplainedTrip['direction'], string> = {
+  ok: 'Origin before destination',
+  reverse: 'Wrong direction',
+  'from-missing': 'Origin not on route',
+  'to-missing': 'Destination not on route',
+};
+
+// Admin search diagnostics: runs a search with explain=true and shows, per trip touching
+// either stop, how its route was read, which stops matched and why it was kept or dropped
 export default function DebugPage() {
-  const [result, setResult] = useState<any>(null);
+  const { currentUser } = useAuth();
+  const [form, setForm] = useState({ from: '', to: '', date: '', time: '', mode: 'direct', showAll: true });
+  const [explain, setExplain] = useState<SearchExplain | null>(null);
+  const [resultCount, setResultCount] = useState(0);
+  const [showDropped, setShowDropped] = useState(true);
   const [loading, setLoading] = useState(false);
+  const [connection, setConnection] = useState<any>(null);
 
-  const testConnection = async () => {
+  const runExplain = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentUser) return;
     setLoading(true);
-    setResult(null);
-    
-    const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
-    
     try {
-      // Test 1: Basic fetch to health endpoint
-      console.log('Testing connection to:', apiUrl.replace('/api', ''));
-      const healthUrl = apiUrl.replace('/api', '') + '/health';
-      const healthResponse = await fetch(healthUrl);
-      const healthData = await healthResponse.json();
-      
-      // Test 2: API endpoint
-      const apiResponse = await api.get('/api/buses/search?from=test&to=test');
-      
-      setResult({
-        success: true,
-        apiUrl,
-        healthCheck: healthData,
-        apiTest: apiResponse.data,
+      const token = await currentUser.getIdToken();
+      const response = await api.get('/api/buses/search', {
+        params: {
+          from: form.from,
+          to: form.to,
+          date: form.date || undefined,
+          time: form.time || undefined,
+          mode: form.mode,
+          showAll: form.showAll || undefined,
+          explain: true,
+        },
+        headers: { Authorization: `Bearer ${token}` },
       });
+      setExplain(response.data.explain);
+      setResultCount(response.data.count || 0);
     } catch (error: any) {
-      console.error('Connection error:', error);
-      setResult({
-        success: false,
-        apiUrl,
-        error: error.message,
-        response: error.response?.data,
-        status: error.response?.status,
-      });
+      console.error('Error running search diagnostics:', error);
+      toast.error(error.response?.data?.error || 'Failed to run search diagnostics');
     } finally {
       setLoading(false);
     }
   };
 
+  const testConnection = async () => {
+    setConnection(null);
+    try {
+      const health = await api.get('/health');
+      setConnection({ success: true, apiUrl: api.defaults.baseURL, health: health.data });
+    } catch (error: any) {
+      setConnection({ success: false, apiUrl: api.defaults.baseURL, error: error.message, status: error.response?.status });
+    }
+  };
+
+  const trips = explain ? explain.trips.filter(trip => showDropped || trip.outcome === 'returned') : [];
+
   return (
     <div className="container mx-auto px-4 py-8">
-      <h1 className="text-3xl font-bold mb-6">API Connection Debug</h1>
-      
-      <div className="bg-white rounded-lg shadow-md p-6 mb-6">
-        <h2 className="text-xl font-semibold mb-4">Configuration</h2>
-        <div className="space-y-2">
-          <p><strong>API Base URL:</strong> {import.meta.env.VITE_API_URL || 'http://localhost:5000/api'}</p>
-          <p><strong>Environment:</strong> {import.meta.env.MODE}</p>
-        </div>
-      </div>
+      <div className="max-w-5xl mx-auto">
+        <h1 className="text-3xl font-bold text-gray-800 mb-2">Search Diagnostics</h1>
+        <p className="text-gray-600 mb-6">
+          Run a search and see, for every bus touching either stop, how its route was matched and why it was returned or dropped.
+        </p>
+
+        <form onSubmit={runExplain} className="card mb-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <input
+              className="input-field"
+              placeholder="From"
+              value={form.from}
+              onChange={(e) => setForm({ ...form, from: e.target.value })}
+              required
+            />
+            <input
+              className="input-field"
+              placeholder="To"
+              value={form.to}
+              onChange={(e) => setForm({ ...form, to: e.target.value })}
+              required
+            />
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <input
+              type="date"
+              className="input-field"
+              value={form.date}
+              onChange={(e) => setForm({ ...form, date: e.target.value })}
+            />
+            <input
+              type="time"
+              className="input-field"
+              value={form.time}
+              onChange={(e) => setForm({ ...form, time: e.target.value })}
+            />
+            <select
+              className="input-field"
+              value={form.mode}
+              onChange={(e) => setForm({ ...form, mode: e.target.value })}
+            >
+              <option value="direct">Direct buses</option>
+              <option value="journey">With transfers</option>
+            </select>
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.showAll}
+                onChange={(e) => setForm({ ...form, showAll: e.target.checked })}
+              />
+              <span>Show all (ignore time)</span>
+            </label>
+          </div>
+          <button type="submit" disabled={loading} className="btn-primary flex items-center">
+            <Search className="h-4 w-4 mr-2" />
+            {loading ? 'Running...' : 'Explain Search'}
+          </button>
+        </form>
+
+        {explain && (
+          <>
+            <div className="card mb-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                {[explain.from, explain.to].map((query, idx) => (
+                  <div key={idx}>
+                    <p className="font-semibold text-gray-800">{idx === 0 ? 'From' : 'To'}: “{query.text}”</p>
+                    <p className="text-gray-600">
+                      Registry stops: {query.stopIds.length > 0 ? query.stopIds.join(', ') : 'none (matched by name only)'}
+                    </p>
+                    <p className="text-gray-500">Names and aliases: {query.names.join(', ') || query.key}</p>
+                  </div>
+                ))}
+              </div>
+              <div className="flex flex-wrap items-center justify-between mt-4 text-sm text-gray-600">
+                <p>
+                  {resultCount} result(s) · {explain.tripsConsidered} trip(s) touch either stop ·{' '}
+                  {explain.tripsNotTouchingEitherStop} other trip(s) · index built {new Date(explain.indexBuiltAt).toLocaleTimeString()}
+                </p>
+                <label className="flex items-center space-x-2">
+                  <input type="checkbox" checked={showDropped} onChange={(e) => setShowDropped(e.target.checked)} />
+                  <span>Show dropped trips</span>
+                </label>
+              </div>
+            </div>
 
-      <button
-        onClick={testConnection}
-        disabled={loading}
-        className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
-      >
-        {loading ? 'Testing...' : 'Test Connection'}
-      </button>
+            <div className="space-y-4">
+              {trips.map(trip => (
+                <div key={trip.tripId} className="card">
+                  <div className="flex items-start justify-between mb-3">
+                    <div>
+                      <h3 className="font-semibold text-gray-800 flex items-center">
+                        {trip.outcome === 'returned'
+                          ? <CheckCircle className="h-5 w-5 text-green-600 mr-2" />
+                          : <XCircle className="h-5 w-5 text-red-500 mr-2" />}
+                        {trip.bus.busName}
+                        {trip.bus.busNumber && <span className="text-gray-500 font-normal ml-2">{trip.bus.busNumber}</span>}
+                      </h3>
+                      <p className="text-xs text-gray-500">
+                        Trip {trip.tripId} · {trip.bus.type || 'no type'} · calendar {trip.bus.calendarId || 'every day'}
+                      </p>
+                    </div>
+                    <span className={`text-xs font-medium px-2 py-1 rounded-full ${
+                      trip.direction === 'ok' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                    }`}>
+                      {DIRECTION_LABELS[trip.direction]}
+                    </span>
+                  </div>
 
-      {result && (
-        <div className="mt-6 bg-white rounded-lg shadow-md p-6">
-          <h2 className="text-xl font-semibold mb-4">
-            {result.success ? '✅ Success' : '❌ Error'}
-          </h2>
-          <pre className="bg-gray-100 p-4 rounded overflow-auto">
-            {JSON.stringify(result, null, 2)}
-          </pre>
+                  {trip.reason && <p className="text-sm text-red-700 mb-3">{trip.reason}</p>}
+
+                  <div className="flex flex-wrap gap-1 mb-3">
+                    {trip.route.map(stop => (
+                      <span
+                        key={stop.position}
+                        title={stop.stopId ? `Registry stop ${stop.stopId}` : 'Not in the stop registry'}
+                        className={`text-xs px-2 py-0.5 rounded border ${
+                          stop.matchesFrom ? 'bg-blue-100 border-blue-400 text-blue-900'
+                            : stop.matchesTo ? 'bg-orange-100 border-orange-400 text-orange-900'
+                              : stop.stopId ? 'border-gray-200 text-gray-700' : 'border-dashed border-gray-400 text-gray-500'
+                        }`}
+                      >
+                        {stop.position + 1}. {stop.name}
+                      </span>
+                    ))}
+                  </div>
+
+                  {trip.services.length > 0 && (
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {trip.services.map((service, idx) => (
+                          <tr key={idx} className="border-t">
+                            <td className="py-1 pr-3 whitespace-nowrap">{service.serviceDate}</td>
+                            <td className="py-1 pr-3 whitespace-nowrap">
+                              {service.departureTime ? formatServiceTime(service.departureTime) : '—'}
+                              {' → '}
+                              {service.arrivalTime ? formatServiceTime(service.arrivalTime) : '—'}
+                            </td>
+                            <td className="py-1 pr-3 text-gray-500">{service.timingSource || ''}</td>
+                            <td className={`py-1 ${service.outcome === 'returned' ? 'text-green-700' : 'text-gray-700'}`}>
+                              {service.outcome === 'returned' ? 'Returned' : service.reason}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              ))}
+              {trips.length === 0 && (
+                <div className="card text-center py-8 text-gray-600">
+                  No trip in the timetable touches either stop. Check the stop names and aliases in the registry.
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="card mt-8">
+          <h2 className="text-xl font-semibold text-gray-800 mb-2">API Connection</h2>
+          <p className="text-sm text-gray-600 mb-3">
+            API base URL: {api.defaults.baseURL} · Environment: {import.meta.env.MODE}
+          </p>
+          <button onClick={testConnection} className="btn-secondary">Test Connection</button>
+          {connection && (
+            <pre className="bg-gray-100 p-4 rounded overflow-auto mt-4 text-sm">
+              {JSON.stringify(connection, null, 2)}
+            </pre>
+          )}
         </div>
-      )}
+      </div>
     </div>
   );
 }
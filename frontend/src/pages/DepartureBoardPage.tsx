@@ -0,0 +1,142 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, Bus as BusIcon, Clock, MapPin, RefreshCw } from 'lucide-react';
+import api from '../config/api';
+import { Departure } from '../types';
+import { formatServiceTime } from '../utils/time';
+
+// The board refetches on this interval so it can be left open on a screen at the stand
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+const DepartureBoardPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [stop, setStop] = useState<{ id: string; name: string; district: string } | null>(null);
+  const [departures, setDepartures] = useState<Departure[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [updatedAt, setUpdatedAt] = useState<Date | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+
+    const fetchDepartures = async () => {
+      try {
+        const response = await api.get(`/api/buses/stops/${id}/departures`, {
+          params: { limit: 20, window: 120 },
+        });
+        if (!mounted) return;
+        setStop(response.data.stop);
+        setDepartures(response.data.data || []);
+        setUpdatedAt(new Date());
+        setError('');
+      } catch (err) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const e: any = err;
+        console.error('Error fetching departures:', e);
+        if (mounted) setError(e.response?.status === 404 ? 'Stop not found' : 'Failed to load departures');
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    };
+
+    setLoading(true);
+    fetchDepartures();
+    const timer = setInterval(fetchDepartures, REFRESH_INTERVAL_MS);
+    return () => {
+      mounted = false;
+      clearInterval(timer);
+    };
+  }, [id]);
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-4xl mx-auto">
+        <button
+          onClick={() => navigate(-1)}
+          className="flex items-center text-primary-600 hover:text-primary-700 font-medium mb-4 transition-colors"
+        >
+          <ArrowLeft className="h-5 w-5 mr-1" />
+          Back
+        </button>
+
+        <div className="card mb-6">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-800 mb-1 flex items-center">
+                <MapPin className="h-6 w-6 mr-2 text-primary-600" />
+                {stop?.name || 'Departures'}
+              </h1>
+              {stop?.district && <p className="text-gray-600">{stop.district}</p>}
+            </div>
+            {updatedAt && (
+              <p className="text-sm text-gray-500 flex items-center mt-2 md:mt-0">
+                <RefreshCw className="h-4 w-4 mr-1" />
+                Updated {updatedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="card text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4"></div>
+            <p className="text-gray-600">Loading departures...</p>
+          </div>
+        ) : error ? (
+          <div className="card text-center py-12">
+            <p className="text-gray-600">{error}</p>
+          </div>
+        ) : departures.length === 0 ? (
+          <div className="card text-center py-12">
+            <Clock className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-xl font-semibold text-gray-800 mb-2">No departures in the next two hours</h3>
+          </div>
+        ) : (
+          <div className="card overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="text-sm text-gray-500 border-b">
+                  <th className="py-2 pr-4">Time</th>
+                  <th className="py-2 pr-4">Destination</th>
+                  <th className="py-2 pr-4">Bus</th>
+                  <th className="py-2">Bay</th>
+                </tr>
+              </thead>
+              <tbody>
+                {departures.map(departure => (
+                  <tr key={`${departure.tripId}@${departure.serviceDate}`} className="border-b last:border-0">
+                    <td className="py-3 pr-4 whitespace-nowrap">
+                      <p className="font-bold text-gray-900" title={departure.interpolated ? 'Estimated from the neighbouring stops with published times' : undefined}>
+                        {departure.interpolated && '~'}{formatServiceTime(departure.departureTime)}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {departure.minutesUntil === 0 ? 'Now' : `in ${departure.minutesUntil} min`}
+                      </p>
+                    </td>
+                    <td className="py-3 pr-4">
+                      <p className="font-medium text-gray-800">{departure.destination}</p>
+                      {departure.via && <p className="text-xs text-gray-500">via {departure.via}</p>}
+                    </td>
+                    <td className="py-3 pr-4">
+                      <p className="text-gray-800 flex items-center">
+                        <BusIcon className="h-4 w-4 mr-1 text-primary-600" />
+                        {departure.bus.busName}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {departure.bus.type}{departure.bus.busNumber && ` · ${departure.bus.busNumber}`}
+                      </p>
+                    </td>
+                    <td className="py-3 font-semibold text-gray-800">{departure.platform || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DepartureBoardPage;
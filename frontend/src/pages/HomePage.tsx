@@ -1,11 +1,17 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Search, MapPin, Navigation, Clock, Star } from 'lucide-react';
+import { Search, MapPin, Navigation, Clock, Star, Calendar, LocateFixed, User } from 'lucide-react';
 import toast from 'react-hot-toast';
 import api from '../config/api';
-import { BusResult } from '../types';
+import { BusResult, NearbyStop } from '../types';
 import BusCard from '../components/BusCard';
 import AutocompleteInput from '../components/AutocompleteInput';
+import useStops from '../hooks/useStops';
+import useServiceClasses from '../hooks/useServiceClasses';
+import useConcessions from '../hooks/useConcessions';
+
+// The browser's timezone, sent with the default time so the backend can convert it to the agency clock
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
 const HomePage = () => {
   const navigate = useNavigate();
@@ -14,31 +20,22 @@ const HomePage = () => {
     to: '',
     busType: 'all',
     time: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', hour12: false }),
+    date: new Date().toLocaleDateString('en-CA'), // YYYY-MM-DD
     showAll: false,
+    arriveBy: false, // treat the time as the latest arrival instead of the departure
+    concession: '', // fare concession category; empty = full fare
   });
   const [loadingResults, setLoadingResults] = useState(false);
+  const [locating, setLocating] = useState(false);
   const [results, setResults] = useState<BusResult[]>([]);
-  const [stops, setStops] = useState<string[]>([]);
-
-  useEffect(() => {
-    const fetchStops = async () => {
-      try {
-        const response = await api.get('/api/buses/stops');
-        if (response.data.success) {
-          const stopNames = response.data.data.map((stop: any) => stop.name);
-          setStops(Array.from(new Set(stopNames)));
-        }
-      } catch (error) {
-        console.error('Failed to fetch stops:', error);
-      }
-    };
-    fetchStops();
-  }, []);
+  const stops = useStops();
+  const serviceClasses = useServiceClasses();
+  const concessions = useConcessions();
 
   const fetchBusResults = async (from: string, to: string, type: string) => {
     try {
       setLoadingResults(true);
-      const resp = await api.get('/api/buses/search', { params: { from, to, type, time: formData.time, showAll: formData.showAll } });
+      const resp = await api.get('/api/buses/search', { params: { from, to, type, time: formData.time, date: formData.date, tz: timeZone, showAll: formData.showAll, arriveBy: formData.arriveBy || undefined, concession: formData.concession || undefined } });
       setResults(resp.data.data || []);
     } catch (err) {
       // Improve error logging for debugging
@@ -61,6 +58,44 @@ const HomePage = () => {
     }
   };
 
+  // Fill "From" with the registry stop nearest to the browser's position
+  const fillFromMyLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error('Location is not available in this browser');
+      return;
+    }
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      async ({ coords }) => {
+        try {
+          const resp = await api.get('/api/buses/stops/nearby', {
+            params: { lat: coords.latitude, lng: coords.longitude, radius: 10, limit: 1 },
+          });
+          const nearest: NearbyStop | undefined = resp.data.data?.[0];
+          if (nearest) {
+            setFormData(prev => ({ ...prev, from: nearest.name }));
+            toast.success(`${nearest.name} · ${nearest.walkingDistanceKm} km, about ${nearest.walkingMinutes} min walk`);
+          } else {
+            toast.error('No bus stops within 10 km');
+          }
+        } catch (err) {
+          console.error('Error finding nearby stops:', err);
+          toast.error('Failed to find nearby stops');
+        } finally {
+          setLocating(false);
+        }
+      },
+      () => {
+        setLocating(false);
+        toast.error('Could not get your location');
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  const fullResultsUrl = () =>
+    `/search?from=${encodeURIComponent(formData.from)}&to=${encodeURIComponent(formData.to)}&type=${formData.busType}&time=${encodeURIComponent(formData.time)}&date=${formData.date}&tz=${encodeURIComponent(timeZone)}&showAll=${formData.showAll}${formData.arriveBy ? '&arriveBy=true' : ''}${formData.concession ? `&concession=${formData.concession}` : ''}`;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -107,9 +142,18 @@ const HomePage = () => {
                 placeholder="Enter starting point (e.g., Thiruvananthapuram)"
                 value={formData.from}
                 onChange={(val) => setFormData({ ...formData, from: val })}
-                suggestions={stops}
+                stops={stops}
                 icon={<MapPin className="h-4 w-4 inline mr-1" />}
               />
+              <button
+                type="button"
+                onClick={fillFromMyLocation}
+                disabled={locating}
+                className="mt-2 text-sm text-primary-600 hover:underline flex items-center disabled:opacity-50"
+              >
+                <LocateFixed className="h-4 w-4 mr-1" />
+                {locating ? 'Finding nearest stop...' : 'Use my location'}
+              </button>
             </div>
 
             {/* To Location */}
@@ -119,24 +163,50 @@ const HomePage = () => {
                 placeholder="Enter destination (e.g., Kochi)"
                 value={formData.to}
                 onChange={(val) => setFormData({ ...formData, to: val })}
-                suggestions={stops}
+                stops={stops}
                 icon={<Navigation className="h-4 w-4 inline mr-1" />}
               />
             </div>
 
             {/* Bus Type Filter */}
-            {/* Time Filter */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                <Clock className="h-4 w-4 inline mr-1" />
-                Departure Time (optional)
-              </label>
-              <input
-                type="time"
-                className="input-field"
-                value={formData.time}
-                onChange={(e) => setFormData({ ...formData, time: e.target.value })}
-              />
+            {/* Date and Time Filter */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Calendar className="h-4 w-4 inline mr-1" />
+                  Travel Date
+                </label>
+                <input
+                  type="date"
+                  className="input-field"
+                  value={formData.date}
+                  onChange={(e) => setFormData({ ...formData, date: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  <Clock className="h-4 w-4 inline mr-1" />
+                  {formData.arriveBy ? 'Arrive By' : 'Departure Time (optional)'}
+                </label>
+                <div className="flex space-x-2">
+                  <select
+                    className="input-field w-auto"
+                    value={formData.arriveBy ? 'arrive' : 'depart'}
+                    onChange={(e) => setFormData({ ...formData, arriveBy: e.target.value === 'arrive' })}
+                  >
+                    <option value="depart">Depart after</option>
+                    <option value="arrive">Arrive by</option>
+                  </select>
+                  <input
+                    type="time"
+                    className="input-field"
+                    value={formData.time}
+                    onChange={(e) => setFormData({ ...formData, time: e.target.value })}
+                    required={formData.arriveBy}
+                  />
+                </div>
+              </div>
             </div>
 
             <div className="flex items-center space-x-3">
@@ -161,11 +231,26 @@ const HomePage = () => {
                 onChange={(e) => setFormData({ ...formData, busType: e.target.value })}
               >
                 <option value="all">All Buses</option>
-                <option value="KSRTC">KSRTC</option>
-                <option value="Private">Private</option>
-                <option value="Fast">Fast</option>
-                <option value="Super Fast">Super Fast</option>
-                <option value="Ordinary">Ordinary</option>
+                {serviceClasses.map(c => (
+                  <option key={c.id} value={c.name}>{c.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <User className="h-4 w-4 inline mr-1" />
+                Passenger (for fares)
+              </label>
+              <select
+                className="input-field"
+                value={formData.concession}
+                onChange={(e) => setFormData({ ...formData, concession: e.target.value })}
+              >
+                <option value="">General</option>
+                {concessions.map(concession => (
+                  <option key={concession.id} value={concession.id}>{concession.label}</option>
+                ))}
               </select>
             </div>
 
@@ -189,7 +274,7 @@ const HomePage = () => {
           <div>
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-2xl font-bold">Search Results</h2>
-              <button onClick={() => navigate(`/search?from=${encodeURIComponent(formData.from)}&to=${encodeURIComponent(formData.to)}&type=${formData.busType}&time=${encodeURIComponent(formData.time)}&showAll=${formData.showAll}`)} className="text-sm text-primary-600 hover:underline">
+              <button onClick={() => navigate(fullResultsUrl())} className="text-sm text-primary-600 hover:underline">
                 View full results
               </button>
             </div>
@@ -200,7 +285,7 @@ const HomePage = () => {
               ))}
               {results.length > 3 && (
                 <button 
-                  onClick={() => navigate(`/search?from=${encodeURIComponent(formData.from)}&to=${encodeURIComponent(formData.to)}&type=${formData.busType}&time=${encodeURIComponent(formData.time)}&showAll=${formData.showAll}`)}
+                  onClick={() => navigate(fullResultsUrl())}
                   className="w-full btn-secondary py-3"
                 >
                   View All {results.length} Results →
@@ -1,35 +1,84 @@
 import { useState, useEffect } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, MapPin, TrendingUp, Heart, AlertCircle, Filter } from 'lucide-react';
+import { ArrowLeft, MapPin, TrendingUp, Heart, AlertCircle, Filter, Repeat, Clock, ChevronUp, ChevronDown } from 'lucide-react';
 import toast from 'react-hot-toast';
 import api from '../config/api';
-import { BusResult } from '../types';
+import { BusResult, Itinerary, SearchSort } from '../types';
 import BusCard from '../components/BusCard';
+import ItineraryCard from '../components/ItineraryCard';
 import RouteMap from '../components/RouteMap';
+import useServiceClasses from '../hooks/useServiceClasses';
+import useAmenities from '../hooks/useAmenities';
+
+const SORT_OPTIONS: Array<{ value: SearchSort | ''; label: string }> = [
+  { value: '', label: 'Best match' },
+  { value: 'departure', label: 'Earliest departure' },
+  { value: 'arrival', label: 'Earliest arrival' },
+  { value: 'duration', label: 'Shortest duration' },
+  { value: 'fare', label: 'Cheapest fare' },
+];
+
+const DURATION_OPTIONS = [60, 120, 180, 240, 360];
+
+// Results per page; earlier and later pages are fetched with the cursors the search returns
+const PAGE_SIZE = 10;
 
 const SearchResults = () => {
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
   const [results, setResults] = useState<BusResult[]>([]);
+  const [itineraries, setItineraries] = useState<Itinerary[]>([]);
   const [showMap, setShowMap] = useState(false);
-  const [filterType, setFilterType] = useState('all');
+  const [nextCursor, setNextCursor] = useState<string | null>(null); // later departures
+  const [prevCursor, setPrevCursor] = useState<string | null>(null); // earlier departures
+  const [loadingPage, setLoadingPage] = useState<'earlier' | 'later' | null>(null);
+  const serviceClasses = useServiceClasses();
+  const amenities = useAmenities();
 
   const from = searchParams.get('from') || '';
   const to = searchParams.get('to') || '';
   const type = searchParams.get('type') || 'all';
+  const mode = searchParams.get('mode') === 'journey' ? 'journey' : 'direct';
+  const date = searchParams.get('date') || ''; // YYYY-MM-DD; the backend defaults to today
+  const tz = searchParams.get('tz') || ''; // Timezone of date; the backend defaults to Asia/Kolkata
+  const arriveBy = searchParams.get('arriveBy') === 'true';
+  const concession = searchParams.get('concession') || ''; // fare concession category
+  const time = searchParams.get('time') || ''; // HH:MM departure, or the latest arrival in arrive-by mode
+  const showAll = searchParams.get('showAll') === 'true';
+  // Sort and filters live in the URL so a result list can be bookmarked and shared
+  // Journeys are listed in time order only; the API rejects sort with mode=journey
+  const sort = mode === 'direct' ? searchParams.get('sort') || '' : '';
+  const departAfter = searchParams.get('departAfter') || '';
+  const departBefore = searchParams.get('departBefore') || '';
+  const maxDuration = searchParams.get('maxDuration') || '';
+  const amenityFilter = searchParams.get('amenities') || ''; // comma-separated amenity ids
+  const selectedAmenities = amenityFilter ? amenityFilter.split(',') : [];
 
   useEffect(() => {
     fetchBusResults();
-  }, [from, to, type]);
+  }, [from, to, type, mode, date, tz, arriveBy, time, showAll, concession, sort, departAfter, departBefore, maxDuration, amenityFilter]);
+
+  const searchRequestParams = () => ({
+    from, to, type, mode, date: date || undefined, tz: tz || undefined, concession: concession || undefined,
+    time: time || undefined, showAll: showAll || undefined, arriveBy: arriveBy || undefined,
+    sort: sort || undefined, departAfter: departAfter || undefined, departBefore: departBefore || undefined,
+    maxDuration: maxDuration || undefined, amenities: amenityFilter || undefined, limit: PAGE_SIZE,
+  });
 
   const fetchBusResults = async () => {
     try {
       setLoading(true);
-      const response = await api.get('/api/buses/search', {
-        params: { from, to, type },
-      });
-      setResults(response.data.data || []);
+      const response = await api.get('/api/buses/search', { params: searchRequestParams() });
+      if (mode === 'journey') {
+        setItineraries(response.data.data || []);
+        setResults([]);
+      } else {
+        setResults(response.data.data || []);
+        setItineraries([]);
+      }
+      setNextCursor(response.data.nextCursor || null);
+      setPrevCursor(response.data.prevCursor || null);
     } catch (error) {
       console.error('Error fetching bus results:', error);
       toast.error('Failed to fetch bus information');
@@ -38,6 +87,53 @@ const SearchResults = () => {
     }
   };
 
+  // Arrive-by lists run latest departure first, so their later page goes on top. Sorted lists
+  // page through the sort order instead: the next page always goes below.
+  const pageOnTop = (direction: 'earlier' | 'later') => sort ? direction === 'earlier' : (direction === 'earlier') !== arriveBy;
+  const topDirection = pageOnTop('earlier') ? 'earlier' : 'later';
+  const bottomDirection = topDirection === 'earlier' ? 'later' : 'earlier';
+
+  const loadPage = async (direction: 'earlier' | 'later') => {
+    const cursor = direction === 'later' ? nextCursor : prevCursor;
+    if (!cursor) return;
+    try {
+      setLoadingPage(direction);
+      const response = await api.get('/api/buses/search', { params: { ...searchRequestParams(), cursor } });
+      const page = response.data.data || [];
+      const onTop = pageOnTop(direction);
+      if (mode === 'journey') {
+        setItineraries(onTop ? [...page, ...itineraries] : [...itineraries, ...page]);
+      } else {
+        setResults(onTop ? [...page, ...results] : [...results, ...page]);
+      }
+      if (direction === 'later') setNextCursor(response.data.nextCursor || null);
+      else setPrevCursor(response.data.prevCursor || null);
+    } catch (error) {
+      console.error('Error loading more results:', error);
+      toast.error('Failed to load more buses');
+    } finally {
+      setLoadingPage(null);
+    }
+  };
+
+  const pageButton = (direction: 'earlier' | 'later') => {
+    const cursor = direction === 'later' ? nextCursor : prevCursor;
+    if (loading || !cursor) return null;
+    const Icon = pageOnTop(direction) ? ChevronUp : ChevronDown;
+    const noun = mode === 'journey' ? 'journeys' : 'buses';
+    return (
+      <button
+        onClick={() => loadPage(direction)}
+        disabled={loadingPage !== null}
+        className="btn-secondary w-full flex items-center justify-center"
+      >
+        <Icon className="h-4 w-4 mr-2" />
+        {loadingPage === direction ? 'Loading...' : sort ? `${direction === 'later' ? 'More' : 'Previous'} ${noun}`
+          : direction === 'later' ? `Later ${noun}` : `Earlier ${noun}`}
+      </button>
+    );
+  };
+
   const handleSaveFavorite = async () => {
     try {
       await api.post('/api/favorites', { fromStop: from, toStop: to });
@@ -48,9 +144,44 @@ const SearchResults = () => {
     }
   };
 
-  const filteredResults = filterType === 'all' 
-    ? results 
-    : results.filter(r => r.bus.type === filterType);
+  const toggleMode = () => {
+    const next = new URLSearchParams(searchParams);
+    if (mode === 'journey') next.delete('mode');
+    else next.set('mode', 'journey');
+    setSearchParams(next);
+  };
+
+  const toggleArriveBy = () => {
+    const next = new URLSearchParams(searchParams);
+    if (arriveBy) next.delete('arriveBy');
+    else next.set('arriveBy', 'true');
+    setSearchParams(next);
+  };
+
+  // Set or clear one URL parameter; the search reruns from the new URL
+  const setParam = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) next.set(key, value);
+    else next.delete(key);
+    setSearchParams(next);
+  };
+
+  const toggleAmenity = (id: string) => {
+    const next = selectedAmenities.includes(id)
+      ? selectedAmenities.filter(a => a !== id)
+      : [...selectedAmenities, id];
+    setParam('amenities', next.join(','));
+  };
+
+  const hasFilters = type !== 'all' || !!sort || !!departAfter || !!departBefore || !!maxDuration || selectedAmenities.length > 0;
+
+  const clearFilters = () => {
+    const next = new URLSearchParams(searchParams);
+    ['type', 'sort', 'departAfter', 'departBefore', 'maxDuration', 'amenities'].forEach(key => next.delete(key));
+    setSearchParams(next);
+  };
+
+  const resultCount = mode === 'journey' ? itineraries.length : results.length;
 
   return (
     <div className="container mx-auto px-4 py-8">
@@ -72,11 +203,27 @@ const SearchResults = () => {
               </h1>
               <p className="text-gray-600 flex items-center">
                 <MapPin className="h-4 w-4 mr-1" />
-                {filteredResults.length} buses found
+                {resultCount} {mode === 'journey' ? 'journeys' : 'buses'} found
+                {date && ` on ${new Date(`${date}T00:00:00`).toLocaleDateString([], { weekday: 'short', day: 'numeric', month: 'short' })}`}
+                {arriveBy && time && `, arriving by ${time}`}
               </p>
             </div>
 
             <div className="flex items-center space-x-3">
+              <button
+                onClick={toggleMode}
+                className="btn-secondary flex items-center"
+              >
+                <Repeat className="h-4 w-4 mr-2" />
+                {mode === 'journey' ? 'Direct Buses Only' : 'Include Transfers'}
+              </button>
+              <button
+                onClick={toggleArriveBy}
+                className="btn-secondary flex items-center"
+              >
+                <Clock className="h-4 w-4 mr-2" />
+                {arriveBy ? 'Depart After' : `Arrive By${time ? ` ${time}` : ''}`}
+              </button>
               <button
                 onClick={handleSaveFavorite}
                 className="btn-secondary flex items-center"
@@ -94,59 +241,130 @@ const SearchResults = () => {
             </div>
           </div>
 
-          {/* Filter */}
-          <div className="mt-4 flex items-center space-x-2">
+          {/* Sort and filters */}
+          <div className="mt-4 flex flex-wrap items-center gap-2">
             <Filter className="h-5 w-5 text-gray-600" />
+            {mode === 'direct' && (
+              <select
+                className="input-field py-2 w-auto"
+                value={sort}
+                onChange={(e) => setParam('sort', e.target.value)}
+                title="Sort by"
+              >
+                {SORT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            )}
             <select
-              className="input-field py-2"
-              value={filterType}
-              onChange={(e) => setFilterType(e.target.value)}
+              className="input-field py-2 w-auto"
+              value={type}
+              onChange={(e) => setParam('type', e.target.value === 'all' ? '' : e.target.value)}
             >
               <option value="all">All Types</option>
-              <option value="KSRTC">KSRTC</option>
-              <option value="Private">Private</option>
-              <option value="Fast">Fast</option>
-              <option value="Super Fast">Super Fast</option>
-              <option value="Ordinary">Ordinary</option>
+              {serviceClasses.map(c => (
+                <option key={c.id} value={c.name}>{c.name}</option>
+              ))}
+            </select>
+            <label className="flex items-center text-sm text-gray-600">
+              Leaving
+              <input
+                type="time"
+                className="input-field py-2 w-auto mx-2"
+                value={departAfter}
+                onChange={(e) => setParam('departAfter', e.target.value)}
+                title="Earliest departure"
+              />
+              to
+              <input
+                type="time"
+                className="input-field py-2 w-auto ml-2"
+                value={departBefore}
+                onChange={(e) => setParam('departBefore', e.target.value)}
+                title="Latest departure"
+              />
+            </label>
+            <select
+              className="input-field py-2 w-auto"
+              value={maxDuration}
+              onChange={(e) => setParam('maxDuration', e.target.value)}
+            >
+              <option value="">Any duration</option>
+              {DURATION_OPTIONS.map(minutes => (
+                <option key={minutes} value={minutes}>Up to {minutes / 60}h</option>
+              ))}
             </select>
+            {hasFilters && (
+              <button onClick={clearFilters} className="text-sm text-primary-600 hover:underline">
+                Clear filters
+              </button>
+            )}
           </div>
+          {amenities.length > 0 && (
+            <div className="mt-3 flex flex-wrap gap-2">
+              {amenities.map(amenity => (
+                <button
+                  key={amenity.id}
+                  onClick={() => toggleAmenity(amenity.id)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                    selectedAmenities.includes(amenity.id)
+                      ? 'bg-primary-600 text-white border-primary-600'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {amenity.label}
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
       {/* Map View */}
       {showMap && (
         <div className="mb-6 animate-slide-up">
-          <RouteMap from={from} to={to} results={filteredResults} />
+          <RouteMap from={from} to={to} results={results} />
         </div>
       )}
 
       {/* Results */}
       <div className="space-y-4">
+        {pageButton(topDirection)}
         {loading ? (
           <div className="card text-center py-12">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 mx-auto mb-4"></div>
             <p className="text-gray-600">Searching for buses...</p>
           </div>
-        ) : filteredResults.length === 0 ? (
+        ) : resultCount === 0 ? (
           <div className="card text-center py-12">
             <AlertCircle className="h-16 w-16 text-gray-400 mx-auto mb-4" />
             <h3 className="text-xl font-semibold text-gray-800 mb-2">No Buses Found</h3>
             <p className="text-gray-600 mb-4">
               We couldn't find any buses for this route. Please try a different search.
             </p>
+            {mode === 'direct' && (
+              <button onClick={toggleMode} className="btn-secondary mr-3">
+                Search With Transfers
+              </button>
+            )}
             <button onClick={() => navigate('/')} className="btn-primary">
               New Search
             </button>
           </div>
+        ) : mode === 'journey' ? (
+          itineraries.map((itinerary, index) => (
+            <ItineraryCard key={index} itinerary={itinerary} />
+          ))
         ) : (
-          filteredResults.map((result, index) => (
+          results.map((result, index) => (
             <BusCard key={index} result={result} />
           ))
         )}
+        {pageButton(bottomDirection)}
       </div>
 
       {/* Additional Info */}
-      {filteredResults.length > 0 && (
+      {resultCount > 0 && (
         <div className="mt-8 card bg-blue-50 border-2 border-blue-200">
           <div className="flex items-start">
             <TrendingUp className="h-6 w-6 text-blue-600 mr-3 mt-1" />
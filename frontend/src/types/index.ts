@@ -7,28 +7,94 @@ export interface BusStop {
     lng: number;
   };
   district: string;
+  aliases?: string[]; // Alternative spellings, short forms (TVM, EKM), Malayalam script
   createdAt: Date;
 }
 
+// A stop returned by the nearby lookup, with its distance from the given point
+export interface NearbyStop extends Omit<BusStop, 'createdAt'> {
+  distanceKm: number; // straight line
+  walkingDistanceKm: number;
+  walkingMinutes: number;
+}
+
+// A stop on a bus route, linked to the stop registry (stopId is null when the name is not registered)
+export interface RouteStop {
+  stopId: string | null;
+  name: string;
+  distanceKm?: number; // admin-entered road distance from the previous stop
+}
+
+export type Weekday = 'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat';
+
+// When a bus operates; buses without a calendar run every day
+export interface ServiceCalendar {
+  id: string;
+  name: string;
+  days: Weekday[];
+  validFrom: string | null; // YYYY-MM-DD
+  validTo: string | null;
+  addedDates: string[]; // extra service days
+  removedDates: string[]; // holidays and hartals
+}
+
+// Fare rules of a service class; night surcharge times are minutes of the day
+export interface FareTable {
+  minimumFare: number;
+  minimumKm: number;
+  stageKm: number;
+  stageIncrement: number;
+  roundTo: number;
+  nightSurcharge: { percent: number; fromMinutes: number; toMinutes: number } | null;
+}
+
+// A bus type (Swift, Low Floor AC, Fast Passenger, ...), managed from the admin page
+export interface ServiceClass {
+  id: string;
+  name: string;
+  description: string;
+  color: string; // #rrggbb
+  fareTable: FareTable;
+}
+
 export interface Bus {
   id: string;
   busNumber: string;
   busName: string;
-  type: 'KSRTC' | 'Private' | 'Fast' | 'Super Fast' | 'Ordinary';
-  route: string[];
+  type: string; // ServiceClass name
+  route: Array<string | RouteStop>; // Legacy buses store plain stop names
   timings: BusTiming[];
   fare?: number;
   createdAt: Date;
   from?: string; // Optional: starting stop
   to?: string; // Optional: ending stop
+  calendarId?: string | null; // Service calendar; null/absent = every day
+  amenities?: string[]; // Amenity ids (ac, wifi, ...)
 }
 
+// An on-board amenity buses can be tagged with
+export interface Amenity {
+  id: string;
+  label: string;
+}
+
+// A rider category with discounted fares (student, senior, ...)
+export interface Concession {
+  id: string;
+  label: string;
+}
+
+// Server-side orderings of search results
+export type SearchSort = 'departure' | 'arrival' | 'duration' | 'fare';
+
 export interface BusTiming {
   stopId: string;
   stopName: string;
   arrivalTime: string;
   departureTime: string;
   dayOfWeek?: string[];
+  platform?: string; // Bay or platform at this stop, if published
+  interpolated?: boolean; // Estimated from the neighbouring timed stops, not a published time
 }
 
 export interface Route {
@@ -66,16 +132,194 @@ export interface SearchFormData {
   busType?: string;
 }
 
+// One stop of a trip; null times mean the trip has no scheduled time there
+export interface TripStopTime {
+  stopId: string | null;
+  stopName: string;
+  arrivalTime: string | null;
+  departureTime: string | null;
+  interpolated?: boolean; // Estimated from the neighbouring timed stops, not a published time
+}
+
+// How a distance was obtained: admin-entered segment distances, stop registry coordinates,
+// offline gazetteer, OpenStreetMap geocoding, or a stop-count estimate when a stop could not be located
+export type DistanceSource = 'override' | 'registry' | 'gazetteer' | 'geocoded' | 'estimate';
+
+// How a quoted fare was worked out (minimum fare, fare stages, surcharge, concession)
+export interface FareBreakdown {
+  serviceClass: string;
+  distanceKm: number;
+  stages: number;
+  minimumFare: number;
+  stageFare: number;
+  nightSurcharge: number;
+  concession: { id: string; label: string; discount: number } | null;
+  rounding: number;
+  total: number;
+}
+
 export interface BusResult {
   bus: Bus;
+  tripId?: string; // One departure of the bus: `${busId}:${number}`
+  serviceDate?: string; // Day the trip started; the day before requestedDate for night services
+  stopTimes?: TripStopTime[]; // The trip's stops in route order
   fromTiming: BusTiming;
   toTiming: BusTiming;
   distance: number;
+  distanceSource?: DistanceSource;
   estimatedTime: number;
   fare: number;
+  fareBreakdown?: FareBreakdown;
   partial?: boolean; // Flag for partial matches
-  timingSource?: 'actual' | 'estimated'; // Source of timing data
+  timingSource?: 'actual' | 'provided' | 'interpolated' | 'estimated'; // Source of timing data
   requestedFrom?: string; // User's search origin
   requestedTo?: string; // User's search destination
   requestedTime?: string; // User's search time
+  requestedDate?: string; // Service date searched (YYYY-MM-DD)
+}
+
+// One bus ride within a multi-leg journey
+export interface ItineraryLeg {
+  bus: Bus;
+  tripId?: string;
+  serviceDate?: string;
+  fromTiming: BusTiming;
+  toTiming: BusTiming;
+  distance: number;
+  distanceSource?: DistanceSource;
+  estimatedTime: number;
+  fare: number;
+  fareBreakdown?: FareBreakdown;
+  waitMinutes: number; // Wait at the transfer stop before boarding this leg (0 for the first leg)
+}
+
+export interface Itinerary {
+  legs: ItineraryLeg[];
+  transfers: number;
+  departureTime: string;
+  arrivalTime: string;
+  totalDuration: number; // minutes, including waits
+  totalWaitMinutes: number;
+  totalDistance: number;
+  totalFare: number;
+}
+
+// One row of a stop's departure board
+export interface Departure {
+  tripId: string;
+  serviceDate: string;
+  departureTime: string; // "HH:MM" on the board's date; past 24 after midnight
+  minutesUntil: number;
+  interpolated: boolean;
+  destination: string;
+  destinationStopId: string | null;
+  via: string;
+  platform: string | null;
+  bus: Pick<Bus, 'id' | 'busName' | 'busNumber' | 'type'>;
+}
+
+// Search explain mode (admin): what happened to one trip on one service day
+export interface ExplainedService {
+  serviceDate: string;
+  outcome: 'returned' | 'dropped';
+  reason: string | null;
+  timingSource?: string;
+  departureTime?: string;
+  arrivalTime?: string;
+}
+
+// Search explain mode (admin): one trip touching the origin or destination
+export interface ExplainedTrip {
+  tripId: string;
+  bus: { id: string; busName: string; busNumber: string; type: string; calendarId: string | null };
+  route: Array<{ position: number; name: string; stopId: string | null; matchesFrom: boolean; matchesTo: boolean }>;
+  fromPosition: number | null;
+  toPosition: number | null;
+  direction: 'ok' | 'reverse' | 'from-missing' | 'to-missing';
+  outcome: 'returned' | 'dropped';
+  reason: string | null;
+  services: ExplainedService[];
+}
+
+export interface SearchExplain {
+  from: { text: string; key: string; stopIds: string[]; names: string[] };
+  to: { text: string; key: string; stopIds: string[]; names: string[] };
+  indexBuiltAt: string;
+  tripsConsidered: number;
+  tripsNotTouchingEitherStop: number;
+  trips: ExplainedTrip[];
+}
+
+// A feed row the GTFS import could not map (line is null for a whole-file problem)
+export interface GtfsUnmappedRow {
+  file: string;
+  line: number | null;
+  reason: string;
+}
+
+export interface GtfsImportBus {
+  id: string;
+  busName: string;
+  busNumber: string;
+  from: string;
+  to: string;
+  stops: number;
+  trips: number;
+  calendarId: string;
+}
+
+// Preview (applied = false) or result of a GTFS feed import
+export interface GtfsImportReport {
+  applied: boolean;
+  summary: {
+    stopsCreated: number;
+    stopsUpdated: number;
+    stopsMatched: number;
+    stopsAmbiguous: number;
+    calendarsCreated: number;
+    calendarsUpdated: number;
+    busesCreated: number;
+    busesUpdated: number;
+    trips: number;
+    unmappedRows: number;
+  };
+  stops: {
+    create: Array<{ id: string; name: string; gtfsStopIds: string[]; location: { lat: number; lng: number } }>;
+    update: Array<{ id: string; name: string; gtfsStopIds: string[]; changes: Record<string, any> }>;
+    // Named like another stop but too far from it; imported as a separate stop
+    ambiguous: Array<{ line: number; gtfsStopId: string; name: string; stopId: string; reason: string }>;
+  };
+  buses: { create: GtfsImportBus[]; update: GtfsImportBus[] };
+  unmapped: GtfsUnmappedRow[];
+  // Set when applying stopped part way: writes per collection saved and not saved
+  partial?: Record<'written' | 'notWritten', Record<string, number>>;
+}
+
+export interface TimetableChange {
+  action: 'create' | 'update' | 'delete';
+  busId: string | null;
+  busName: string;
+  changes: string[];
+  stops: number;
+  trips: number;
+}
+
+// Preview (applied = false) or result of a timetable spreadsheet import
+export interface TimetableImportReport {
+  applied: boolean;
+  summary: { rows: number; create: number; update: number; delete: number; unchanged: number; errors: number };
+  changes: TimetableChange[];
+  errors: Array<{ line: number | null; message: string }>;
+  // Set when applying stopped part way: the buses written and the ones left as they were
+  partial?: Record<'written' | 'notWritten', Array<{ busId: string; busName: string; action: TimetableChange['action'] }>>;
+}
+
+// Dry run (dryRun = true) or result of restoring a dataset backup
+export interface BackupRestoreReport {
+  backupCreatedAt: string;
+  dryRun: boolean;
+  writes: number;
+  collections: Array<{ collection: string; create: number; update: number; delete: number; unchanged: number }>;
+  // Set when the restore stopped part way: writes per collection saved and not saved
+  partial?: Record<'written' | 'notWritten', Record<string, number>>;
 }
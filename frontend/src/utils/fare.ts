@@ -0,0 +1,13 @@
+import { FareBreakdown } from '../types';
+
+// One line per fare component, for a tooltip under the quoted fare
+export const describeFare = (fare: FareBreakdown) =>
+  [
+    `${fare.serviceClass} fare for ${fare.distanceKm} km`,
+    `Minimum fare: ₹${fare.minimumFare}`,
+    fare.stages > 0 && `${fare.stages} fare stage${fare.stages > 1 ? 's' : ''}: ₹${fare.stageFare}`,
+    fare.nightSurcharge > 0 && `Night surcharge: ₹${fare.nightSurcharge}`,
+    fare.concession && `${fare.concession.label} concession: -₹${fare.concession.discount}`,
+    fare.rounding !== 0 && `Rounding: ${fare.rounding > 0 ? '+' : '-'}₹${Math.abs(fare.rounding)}`,
+    `Total: ₹${fare.total}`,
+  ].filter(Boolean).join('\n');
@@ -0,0 +1,62 @@
+import { BusStop, RouteStop } from '../types';
+
+// Same normalization the backend registry uses: ignore punctuation, case and repeated whitespace
+export const stopKey = (s: string) =>
+  (s || '').toLowerCase().replace(/[.,/#!$%^&*;:{}=\-_`~()]/g, '').trim().replace(/\s+/g, ' ');
+
+const isWordPrefix = (value: string, prefix: string) =>
+  !!prefix && (value === prefix || value.startsWith(prefix + ' '));
+
+const stopNames = (stop: BusStop) => [stop.name, ...(stop.aliases || [])];
+
+// Read the stop name from a route entry (plain string or registry-linked object)
+export const routeItemName = (item: string | RouteStop | any): string => {
+  if (!item && item !== 0) return '';
+  if (typeof item === 'string') return item;
+  return item?.name || item?.stopName || item?.stop || '';
+};
+
+/**
+ * Resolve user text to a registry stop: exact name/alias match first,
+ * otherwise the first stop whose name or alias starts with the text as whole words
+ */
+export const resolveStop = (stops: BusStop[], text: string): BusStop | null => {
+  const key = stopKey(text);
+  if (!key) return null;
+  return (
+    stops.find(stop => stopNames(stop).some(n => stopKey(n) === key)) ||
+    stops.find(stop => stopNames(stop).some(n => isWordPrefix(stopKey(n), key))) ||
+    null
+  );
+};
+
+export interface StopSuggestion {
+  stop: BusStop;
+  matchedAlias?: string; // Set when the text matched an alias rather than the official name
+}
+
+/**
+ * Autocomplete suggestions: stops whose name or any alias contains the text,
+ * with word-prefix matches listed first
+ */
+export const suggestStops = (stops: BusStop[], text: string, limit = 10): StopSuggestion[] => {
+  const key = stopKey(text);
+  if (!key) return [];
+
+  const ranked: Array<StopSuggestion & { rank: number }> = [];
+  for (const stop of stops) {
+    let best: (StopSuggestion & { rank: number }) | null = null;
+    for (const name of stopNames(stop)) {
+      const n = stopKey(name);
+      const rank = n === key ? 0 : isWordPrefix(n, key) || n.startsWith(key) ? 1 : n.includes(key) ? 2 : -1;
+      if (rank === -1 || (best && best.rank <= rank)) continue;
+      best = { stop, matchedAlias: name === stop.name ? undefined : name, rank };
+    }
+    if (best) ranked.push(best);
+  }
+
+  return ranked
+    .sort((a, b) => a.rank - b.rank || a.stop.name.localeCompare(b.stop.name))
+    .slice(0, limit)
+    .map(({ stop, matchedAlias }) => ({ stop, matchedAlias }));
+};
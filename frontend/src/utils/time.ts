@@ -0,0 +1,13 @@
+/**
+ * Show a backend time in 12-hour form. Service-day times run past 24 after midnight
+ * ("25:30"), which is shown as "1:30 AM +1". Times already in AM/PM form are returned as is.
+ */
+export const formatServiceTime = (t: string) => {
+  const match = String(t || '').trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return t;
+  const hours = parseInt(match[1], 10);
+  const h = hours % 24;
+  const period = h >= 12 ? 'PM' : 'AM';
+  const day = Math.floor(hours / 24);
+  return `${h % 12 === 0 ? 12 : h % 12}:${match[2]} ${period}${day > 0 ? ` +${day}` : ''}`;
+};
@@ -5,32 +5,38 @@ export const sampleBusStops = [
   {
     name: "Thiruvananthapuram Central Bus Station",
     district: "Thiruvananthapuram",
-    location: { lat: 8.5241, lng: 76.9366 }
+    location: { lat: 8.5241, lng: 76.9366 },
+    aliases: ["Thiruvananthapuram", "Trivandrum", "TVM", "Thampanoor", "തിരുവനന്തപുരം"]
   },
   {
     name: "Kollam KSRTC Bus Stand",
     district: "Kollam",
-    location: { lat: 8.8932, lng: 76.6141 }
+    location: { lat: 8.8932, lng: 76.6141 },
+    aliases: ["Kollam", "Quilon", "KLM", "കൊല്ലം"]
   },
   {
     name: "Alappuzha Bus Stand",
     district: "Alappuzha",
-    location: { lat: 9.4981, lng: 76.3388 }
+    location: { lat: 9.4981, lng: 76.3388 },
+    aliases: ["Alappuzha", "Alleppey", "ALP", "ആലപ്പുഴ"]
   },
   {
     name: "Kochi KSRTC Bus Stand",
     district: "Ernakulam",
-    location: { lat: 9.9312, lng: 76.2673 }
+    location: { lat: 9.9312, lng: 76.2673 },
+    aliases: ["Kochi", "Cochin", "Ernakulam", "EKM", "കൊച്ചി", "എറണാകുളം"]
   },
   {
     name: "Thrissur KSRTC Bus Stand",
     district: "Thrissur",
-    location: { lat: 10.5276, lng: 76.2144 }
+    location: { lat: 10.5276, lng: 76.2144 },
+    aliases: ["Thrissur", "Trichur", "TCR", "തൃശ്ശൂർ"]
   },
   {
     name: "Kozhikode KSRTC Bus Stand",
     district: "Kozhikode",
-    location: { lat: 11.2588, lng: 75.7804 }
+    location: { lat: 11.2588, lng: 75.7804 },
+    aliases: ["Kozhikode", "Calicut", "KKD", "കോഴിക്കോട്"]
   }
 ];
 